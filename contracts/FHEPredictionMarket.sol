@@ -1,254 +1,2120 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.27;
 
-import {FHE, ebool, euint64, euint8, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, euint8, euint64, externalEuint8, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IPredictionResolver} from "./IPredictionResolver.sol";
+import {IConfidentialToken} from "./IConfidentialToken.sol";
+import {IERC20} from "./IERC20.sol";
+import {PredictionLedger} from "./PredictionLedger.sol";
 
 /**
  * @title FHEPredictionMarket
  * @notice Minimal prediction market where user's pick and wager totals are stored as encrypted values.
+ * @dev The owner manages admins and where protocol fees go; admins, the owner included, set the protocol fee,
+ * pause creation and betting, hide predictions from the public listings and cancel unresolved ones.
  */
 contract FHEPredictionMarket is ZamaEthereumConfig {
+    enum PredictionState {
+        Open,
+        Closed,
+        Resolved,
+        Cancelled
+    }
+
+    enum CollateralType {
+        Native,
+        ERC20,
+        Confidential
+    }
+
+    /// Categorical predictions bet on labelled outcomes, scalar ones on the bucket a reported value falls in.
+    enum MarketType {
+        Categorical,
+        Scalar
+    }
+
+    /// Context shown to bettors. `source` is a URL or a content hash such as an IPFS CID, fetched off-chain.
+    struct PredictionDetails {
+        string description;
+        string category;
+        string resolutionCriteria;
+        string source;
+    }
+
+    /// Stake limits of a prediction, in collateral units; zero disables `maxBet` and `maxPool`. The bet limits
+    /// apply to every placement, the pool cap to the sum of all stakes.
+    struct BetLimits {
+        uint64 minBet;
+        uint64 maxBet;
+        uint64 maxPool;
+    }
+
     struct Prediction {
         string name;
         string[] options;
         euint64[] optionTotals;
         euint64 encryptedPool;
         address creator;
+        address resolver;
         uint256 createdAt;
+        uint256 bettingClosesAt;
+        uint256 resolutionDeadline;
         bool exists;
+        PredictionState state;
+        CollateralType collateralType;
+        address collateralToken;
+        uint8 winningOption;
+        bool totalsRevealed;
+        bool resolutionTotalsPublished;
+        uint64 clearPool;
+        uint64 clearWinningTotal;
+        uint256 bettorCount;
+        uint16 protocolFeeBps;
+        uint16 creatorFeeBps;
+        uint64 protocolFee;
+        uint64 creatorFee;
+        bool hidden;
+        MarketType marketType;
+        int256 scalarLowerBound;
+        int256 scalarUpperBound;
+        int256 reportedValue;
+        bool valueReported;
+        PredictionDetails details;
+        BetLimits limits;
+        /// Clear pool of ERC-20 predictions, whose stakes are all public.
+        uint64 tokenPool;
     }
 
     struct BetInfo {
         euint64 encryptedAmount;
         euint8 encryptedSelection;
+        euint64[] positions;
+        bool exists;
+        euint64 encryptedPayout;
+        bool claimed;
+        bool paidOut;
+        bool confidential;
+    }
+
+    struct PendingWithdrawal {
+        euint64 encryptedAmount;
         bool exists;
     }
 
+    /// Cumulative result of a bettor's claimed ETH bets. Profit is `returned - staked`, the two sums are kept
+    /// apart because encrypted integers are unsigned.
+    struct Score {
+        euint64 staked;
+        euint64 returned;
+        uint256 marketsClaimed;
+        bool revealed;
+    }
+
+    struct LeaderboardEntry {
+        address user;
+        euint64 staked;
+        euint64 returned;
+        uint256 marketsClaimed;
+    }
+
     struct PredictionSummary {
         uint256 id;
         string name;
         string[] options;
         address creator;
+        address resolver;
         uint256 createdAt;
+        uint256 bettingClosesAt;
+        uint256 resolutionDeadline;
+        PredictionState state;
+        CollateralType collateralType;
+        address collateralToken;
+        uint256 bettorCount;
+        uint16 protocolFeeBps;
+        uint16 creatorFeeBps;
+        bool hidden;
+        MarketType marketType;
+        PredictionDetails details;
     }
 
+    /// @notice Maximum number of options. Every bet costs a few FHE operations per option, which bounds it.
+    uint8 public constant MAX_OPTIONS = 16;
+    /// @notice Maximum length of a prediction description, in bytes
+    uint256 public constant MAX_DESCRIPTION_LENGTH = 1000;
+    /// @notice Maximum length of a prediction category, in bytes
+    uint256 public constant MAX_CATEGORY_LENGTH = 32;
+    /// @notice Maximum length of the resolution criteria of a prediction, in bytes
+    uint256 public constant MAX_CRITERIA_LENGTH = 1000;
+    /// @notice Maximum length of the source of a prediction, in bytes
+    uint256 public constant MAX_SOURCE_LENGTH = 256;
+    /// @notice Maximum protocol fee, in basis points of the pool
+    uint16 public constant MAX_PROTOCOL_FEE_BPS = 500;
+    /// @notice Maximum creator fee, in basis points of the pool
+    uint16 public constant MAX_CREATOR_FEE_BPS = 500;
+    uint256 private constant BPS_DENOMINATOR = 10_000;
+
+    address private _owner;
+    address private _pendingOwner;
+    mapping(address => bool) private _admins;
+    bool private _paused;
+    address private _feeRecipient;
+    uint16 private _protocolFeeBps;
+    // Fee vault: beneficiary => collateral type => token (zero for ETH) => withdrawable amount.
+    mapping(address => mapping(CollateralType => mapping(address => uint256))) private _fees;
+
     uint256 private _nextPredictionId = 1;
     mapping(uint256 => Prediction) private _predictions;
     mapping(uint256 => mapping(address => BetInfo)) private _bets;
     uint256[] private _predictionIds;
+    mapping(address => uint256[]) private _creatorPredictionIds;
+    mapping(address => uint256[]) private _bettorPredictionIds;
+    mapping(bytes32 => uint256[]) private _categoryPredictionIds;
+    mapping(address => euint64) private _balances;
+    mapping(address => PendingWithdrawal) private _withdrawals;
+    mapping(address => Score) private _scores;
+    address[] private _leaderboard;
 
-    event PredictionCreated(uint256 indexed predictionId, address indexed creator, string name, uint256 optionCount);
+    /**
+     * @notice Emitted when a prediction is created.
+     * @param predictionId Id of the new prediction
+     * @param creator Account that created it
+     * @param resolver Address allowed to declare the outcome
+     * @param name Title of the prediction
+     * @param optionCount Number of options
+     * @param bettingClosesAt Timestamp after which no more bets are accepted
+     * @param resolutionDeadline Timestamp by which the prediction must be resolved
+     */
+    event PredictionCreated(
+        uint256 indexed predictionId,
+        address indexed creator,
+        address indexed resolver,
+        string name,
+        uint256 optionCount,
+        uint256 bettingClosesAt,
+        uint256 resolutionDeadline
+    );
+    /**
+     * @notice Emitted for every bet, top-ups included.
+     * @param predictionId Target prediction
+     * @param user Bettor
+     * @param encryptedAmount Handle of the encrypted stake of this bet
+     * @param encryptedSelection Handle of the encrypted selected option
+     * @param confidential Whether the stake came from the confidential balance or a confidential token
+     */
     event BetPlaced(
         uint256 indexed predictionId,
         address indexed user,
         bytes32 encryptedAmount,
         bytes32 encryptedSelection,
-        uint256 clearAmount
+        bool confidential
+    );
+    /**
+     * @notice Emitted when the pool and option totals of a prediction become publicly decryptable.
+     * @param predictionId Target prediction
+     */
+    event TotalsRevealed(uint256 indexed predictionId);
+    /**
+     * @notice Emitted when the resolver declares the outcome of a prediction.
+     * @param predictionId Target prediction
+     * @param winningOption 0-based index of the winning option
+     */
+    event PredictionResolved(uint256 indexed predictionId, uint8 winningOption);
+    /**
+     * @notice Emitted when the resolver reports the value of a scalar prediction.
+     * @param predictionId Target prediction
+     * @param value Reported value
+     */
+    event ScalarValueReported(uint256 indexed predictionId, int256 value);
+    /**
+     * @notice Emitted when the decrypted totals a resolved prediction pays out from are published.
+     * @param predictionId Target prediction
+     * @param pool Clear pool
+     * @param winningTotal Clear total staked on the winning option
+     */
+    event ResolutionTotalsPublished(uint256 indexed predictionId, uint64 pool, uint64 winningTotal);
+    /**
+     * @notice Emitted when a bettor claims the payout of a resolved prediction.
+     * @param predictionId Target prediction
+     * @param user Bettor
+     * @param encryptedPayout Handle of the encrypted payout
+     */
+    event WinningsClaimed(uint256 indexed predictionId, address indexed user, bytes32 encryptedPayout);
+    /**
+     * @notice Emitted when a prediction is cancelled.
+     * @param predictionId Target prediction
+     */
+    event PredictionCancelled(uint256 indexed predictionId);
+    /**
+     * @notice Emitted when a bettor claims the refund of a cancelled prediction.
+     * @param predictionId Target prediction
+     * @param user Bettor
+     * @param encryptedAmount Handle of the encrypted refund
+     */
+    event RefundClaimed(uint256 indexed predictionId, address indexed user, bytes32 encryptedAmount);
+    /**
+     * @notice Emitted when a claimed payout or refund is sent out in clear.
+     * @param predictionId Target prediction
+     * @param user Bettor
+     * @param amount Amount sent, in collateral units
+     */
+    event PayoutReleased(uint256 indexed predictionId, address indexed user, uint256 amount);
+    /**
+     * @notice Emitted when a bettor makes their score publicly decryptable.
+     * @param user Bettor
+     */
+    event ScoreRevealed(address indexed user);
+    /**
+     * @notice Emitted when ETH is credited to a confidential balance.
+     * @param user Balance owner
+     * @param amount Amount in wei
+     */
+    event Deposited(address indexed user, uint256 amount);
+    /**
+     * @notice Emitted when a withdrawal from a confidential balance is requested.
+     * @param user Balance owner
+     * @param encryptedAmount Handle of the encrypted amount set aside
+     */
+    event WithdrawalRequested(address indexed user, bytes32 encryptedAmount);
+    /**
+     * @notice Emitted when a pending withdrawal is paid out.
+     * @param user Balance owner
+     * @param amount Amount in wei
+     */
+    event Withdrawn(address indexed user, uint256 amount);
+    /**
+     * @notice Emitted when the owner nominates a new owner, or cancels the nomination.
+     * @param previousOwner Current owner
+     * @param newOwner Nominated owner, zero when cancelled
+     */
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    /**
+     * @notice Emitted when the ownership changes hands.
+     * @param previousOwner Former owner, zero at deployment
+     * @param newOwner New owner
+     */
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    /**
+     * @notice Emitted when the owner grants or revokes the admin role.
+     * @param account Target account
+     * @param isAdmin Whether the account is now an admin
+     */
+    event AdminUpdated(address indexed account, bool isAdmin);
+    /**
+     * @notice Emitted when an admin pauses the market.
+     * @param account Admin that paused it
+     */
+    event Paused(address account);
+    /**
+     * @notice Emitted when an admin unpauses the market.
+     * @param account Admin that unpaused it
+     */
+    event Unpaused(address account);
+    /**
+     * @notice Emitted when an admin hides a prediction from the public listings or shows it again.
+     * @param predictionId Target prediction
+     * @param hidden Whether the prediction is now hidden
+     */
+    event PredictionHidden(uint256 indexed predictionId, bool hidden);
+    /**
+     * @notice Emitted when the protocol fee of future predictions changes.
+     * @param feeBps New fee in basis points
+     */
+    event ProtocolFeeUpdated(uint16 feeBps);
+    /**
+     * @notice Emitted when the beneficiary of protocol fees changes.
+     * @param recipient New beneficiary
+     */
+    event FeeRecipientUpdated(address indexed recipient);
+    /**
+     * @notice Emitted when the fees of a resolved prediction are credited to the fee vault.
+     * @param predictionId Target prediction
+     * @param protocolFee Amount credited to the fee recipient
+     * @param creatorFee Amount credited to the creator
+     */
+    event FeesAccrued(uint256 indexed predictionId, uint64 protocolFee, uint64 creatorFee);
+    /**
+     * @notice Emitted when a beneficiary withdraws fees.
+     * @param beneficiary Fee recipient or creator
+     * @param collateralType Collateral the fees were taken in
+     * @param token Collateral token, zero for native ETH
+     * @param amount Amount withdrawn, in collateral units
+     */
+    event FeesWithdrawn(
+        address indexed beneficiary,
+        CollateralType collateralType,
+        address indexed token,
+        uint256 amount
     );
 
     error InvalidPrediction();
     error InvalidOptionsCount();
+    error InvalidScalarRange();
+    error NotScalarPrediction();
     error EmptyOption();
     error EmptyName();
-    error BetAlreadyPlaced();
+    error DescriptionTooLong();
+    error CategoryTooLong();
+    error ResolutionCriteriaTooLong();
+    error SourceTooLong();
+    error BetFundingMismatch();
+    error InvalidCollateral();
+    error WrongCollateral();
     error InvalidBetAmount();
+    error InvalidBetLimits();
+    error PoolCapExceeded();
+    error NotPredictionCreator();
+    error NotPredictionResolver();
+    error OutcomeNotAvailable();
+    error InvalidBettingCloseTime();
+    error InvalidResolutionDeadline();
+    error BettingClosed();
+    error BettingStillOpen();
+    error PredictionAlreadyResolved();
+    error PredictionNotResolved();
+    error PredictionIsCancelled();
+    error PredictionNotCancelled();
+    error InvalidWinningOption();
+    error TotalsAlreadyRevealed();
+    error ResolutionTotalsAlreadyPublished();
+    error ResolutionTotalsNotPublished();
+    error NoBetPlaced();
+    error AlreadyClaimed();
+    error ClaimNotStarted();
+    error TransferFailed();
+    error InvalidDepositAmount();
+    error WithdrawalPending();
+    error NoPendingWithdrawal();
+    error NotOwner();
+    error NotPendingOwner();
+    error NotAdmin();
+    error MarketPaused();
+    error MarketNotPaused();
+    error InvalidAddress();
+    error FeeTooHigh();
+    error NoFeesToWithdraw();
+    error NoScore();
+    error ScoreAlreadyRevealed();
+
+    /// @notice Makes the deployer the owner and the recipient of protocol fees.
+    constructor() {
+        _owner = msg.sender;
+        _feeRecipient = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+        emit FeeRecipientUpdated(msg.sender);
+    }
 
     /**
-     * @notice Creates a new prediction.
-     * @param name Title for the prediction
-     * @param options List of outcomes (between 2 and 4)
+     * @notice Starts handing the contract over to `newOwner`, who becomes owner once they call `acceptOwnership`.
+     * @dev Replaces any pending transfer; the zero address cancels it.
+     * @param newOwner Nominated owner
      */
-    function createPrediction(string memory name, string[] memory options) external returns (uint256) {
-        if (bytes(name).length == 0) {
-            revert EmptyName();
-        }
-        if (options.length < 2 || options.length > 4) {
-            revert InvalidOptionsCount();
+    function transferOwnership(address newOwner) external {
+        _requireOwner();
+
+        _pendingOwner = newOwner;
+        emit OwnershipTransferStarted(_owner, newOwner);
+    }
+
+    /**
+     * @notice Completes an ownership transfer started by `transferOwnership`. Only the pending owner can accept.
+     */
+    function acceptOwnership() external {
+        if (msg.sender != _pendingOwner || msg.sender == address(0)) {
+            revert NotPendingOwner();
         }
-        for (uint256 i = 0; i < options.length; i++) {
-            if (bytes(options[i]).length == 0) {
-                revert EmptyOption();
-            }
+
+        emit OwnershipTransferred(_owner, msg.sender);
+        _owner = msg.sender;
+        delete _pendingOwner;
+    }
+
+    /**
+     * @notice Grants or revokes the admin role. Only the owner can manage admins.
+     * @param account Target account
+     * @param enabled Whether the account becomes an admin
+     */
+    function setAdmin(address account, bool enabled) external {
+        _requireOwner();
+        if (account == address(0)) {
+            revert InvalidAddress();
         }
 
-        uint256 predictionId = _nextPredictionId++;
-        Prediction storage prediction = _predictions[predictionId];
-        prediction.name = name;
-        prediction.creator = msg.sender;
-        prediction.createdAt = block.timestamp;
-        prediction.exists = true;
+        _admins[account] = enabled;
+        emit AdminUpdated(account, enabled);
+    }
+
+    /**
+     * @notice Stops the creation of predictions and every bet until `unpause`. Only admins can pause.
+     * @dev Claims, refunds, withdrawals and fee withdrawals keep working so funds are never locked.
+     */
+    function pause() external {
+        _requireAdmin();
+        if (_paused) {
+            revert MarketPaused();
+        }
 
-        euint64 zeroValue = FHE.asEuint64(0);
-        zeroValue = FHE.allowThis(zeroValue);
-        zeroValue = FHE.makePubliclyDecryptable(zeroValue);
-        zeroValue = FHE.allow(zeroValue, msg.sender);
-        prediction.encryptedPool = zeroValue;
+        _paused = true;
+        emit Paused(msg.sender);
+    }
 
-        for (uint256 i = 0; i < options.length; i++) {
-            prediction.options.push(options[i]);
-            euint64 optionTotal = FHE.asEuint64(0);
-            optionTotal = FHE.allowThis(optionTotal);
-            optionTotal = FHE.makePubliclyDecryptable(optionTotal);
-            optionTotal = FHE.allow(optionTotal, msg.sender);
-            prediction.optionTotals.push(optionTotal);
+    /**
+     * @notice Resumes creation and betting. Only admins can unpause.
+     */
+    function unpause() external {
+        _requireAdmin();
+        if (!_paused) {
+            revert MarketNotPaused();
         }
 
-        _predictionIds.push(predictionId);
-        emit PredictionCreated(predictionId, msg.sender, name, options.length);
-        return predictionId;
+        _paused = false;
+        emit Unpaused(msg.sender);
     }
 
     /**
-     * @notice Places an encrypted bet on a prediction. Attach ETH to msg.value.
+     * @notice Hides a prediction from the public listings, or shows it again. Only admins can moderate.
+     * @dev Only changes visibility: betting, resolution and claims carry on, use `adminCancelPrediction` to void the
+     * prediction as well. Hidden predictions stay readable by id and in the creator and bettor listings.
      * @param predictionId Target prediction
-     * @param encryptedSelection User encrypted option index
-     * @param inputProof Proof returned by the Relayer SDK
+     * @param hidden Whether to hide the prediction
      */
-    function placeEncryptedBet(
-        uint256 predictionId,
-        externalEuint8 encryptedSelection,
-        bytes calldata inputProof
-    ) external payable {
+    function setPredictionHidden(uint256 predictionId, bool hidden) external {
+        _requireAdmin();
         Prediction storage prediction = _predictions[predictionId];
         if (!prediction.exists) {
             revert InvalidPrediction();
         }
-        if (prediction.optionTotals.length == 0) {
-            revert InvalidOptionsCount();
-        }
-        if (msg.value == 0 || msg.value > type(uint64).max) {
-            revert InvalidBetAmount();
+
+        prediction.hidden = hidden;
+        emit PredictionHidden(predictionId, hidden);
+    }
+
+    /**
+     * @notice Voids an unresolved prediction, such as a spam or abusive one, so its bettors can be refunded. Only
+     * admins can moderate.
+     * @dev Unlike `cancelPrediction`, also works once betting has closed.
+     * @param predictionId Target prediction
+     */
+    function adminCancelPrediction(uint256 predictionId) external {
+        _requireAdmin();
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
         }
 
-        BetInfo storage betInfo = _bets[predictionId][msg.sender];
-        if (betInfo.exists) {
-            revert BetAlreadyPlaced();
+        _cancel(predictionId, prediction);
+    }
+
+    /**
+     * @notice Sets the protocol fee taken from the pool of predictions created from now on.
+     * @dev Existing predictions keep the fee they were created with.
+     * @param feeBps Fee in basis points, at most `MAX_PROTOCOL_FEE_BPS`
+     */
+    function setProtocolFee(uint16 feeBps) external {
+        _requireAdmin();
+        if (feeBps > MAX_PROTOCOL_FEE_BPS) {
+            revert FeeTooHigh();
         }
 
-        euint8 selection = FHE.fromExternal(encryptedSelection, inputProof);
-        selection = FHE.allowThis(selection);
-        selection = FHE.allow(selection, msg.sender);
+        _protocolFeeBps = feeBps;
+        emit ProtocolFeeUpdated(feeBps);
+    }
 
-        euint64 encryptedAmount = FHE.asEuint64(uint64(msg.value));
-        encryptedAmount = FHE.allowThis(encryptedAmount);
-        encryptedAmount = FHE.allow(encryptedAmount, msg.sender);
+    /**
+     * @notice Sets the beneficiary of protocol fees accrued from now on. Only the owner can change it.
+     * @dev Fees already accrued stay withdrawable by the previous recipient.
+     * @param recipient New beneficiary
+     */
+    function setFeeRecipient(address recipient) external {
+        _requireOwner();
+        if (recipient == address(0)) {
+            revert InvalidAddress();
+        }
 
-        prediction.encryptedPool = FHE.add(prediction.encryptedPool, encryptedAmount);
-        prediction.encryptedPool = FHE.allowThis(prediction.encryptedPool);
-        prediction.encryptedPool = FHE.makePubliclyDecryptable(prediction.encryptedPool);
-        prediction.encryptedPool = FHE.allow(prediction.encryptedPool, msg.sender);
+        _feeRecipient = recipient;
+        emit FeeRecipientUpdated(recipient);
+    }
 
-        euint64 zeroAddition = FHE.asEuint64(0);
-        zeroAddition = FHE.allowThis(zeroAddition);
-        for (uint256 i = 0; i < prediction.optionTotals.length; i++) {
-            ebool matchesOption = FHE.eq(selection, FHE.asEuint8(uint8(i)));
-            euint64 addition = FHE.select(matchesOption, encryptedAmount, zeroAddition);
-            euint64 newTotal = FHE.add(prediction.optionTotals[i], addition);
-            newTotal = FHE.allowThis(newTotal);
-            newTotal = FHE.makePubliclyDecryptable(newTotal);
-            newTotal = FHE.allow(newTotal, msg.sender);
-            prediction.optionTotals[i] = newTotal;
+    /**
+     * @notice Sends the caller every fee accrued to them in one collateral.
+     * @param collateralType Collateral the fees were taken in
+     * @param token Collateral token, zero for native ETH
+     */
+    function withdrawFees(CollateralType collateralType, address token) external {
+        if ((collateralType == CollateralType.Native) != (token == address(0))) {
+            revert InvalidCollateral();
+        }
+        uint256 amount = _fees[msg.sender][collateralType][token];
+        if (amount == 0) {
+            revert NoFeesToWithdraw();
         }
 
-        betInfo.encryptedAmount = encryptedAmount;
-        betInfo.encryptedSelection = selection;
-        betInfo.exists = true;
+        delete _fees[msg.sender][collateralType][token];
+        if (collateralType == CollateralType.Native) {
+            _sendValue(msg.sender, amount);
+        } else if (collateralType == CollateralType.ERC20) {
+            _callToken(token, abi.encodeCall(IERC20.transfer, (msg.sender, amount)));
+        } else {
+            // Confidential token balances are uint64, so accrued fees always fit.
+            euint64 encryptedAmount = FHE.asEuint64(uint64(amount));
+            FHE.allowTransient(encryptedAmount, token);
+            IConfidentialToken(token).confidentialTransfer(msg.sender, encryptedAmount);
+        }
 
-        emit BetPlaced(
-            predictionId,
-            msg.sender,
-            euint64.unwrap(encryptedAmount),
-            euint8.unwrap(selection),
-            msg.value
+        emit FeesWithdrawn(msg.sender, collateralType, token, amount);
+    }
+
+    /**
+     * @notice Creates a new prediction.
+     * @param name Title for the prediction
+     * @param options List of outcomes (between 2 and `MAX_OPTIONS`)
+     * @param bettingClosesAt Timestamp after which no more bets are accepted
+     * @param resolutionDeadline Timestamp by which the prediction must be resolved
+     * @param resolver Address allowed to declare the outcome (EOA, multisig or `IPredictionResolver`
+     * contract); the zero address makes the creator the resolver
+     * @param collateralType Asset bets are denominated in: native ETH, a plain ERC-20 or an ERC-7984 token
+     * @param collateralToken Token address, which must be zero for native ETH
+     * @param creatorFeeBps Share of the pool paid to the creator at resolution, at most `MAX_CREATOR_FEE_BPS`.
+     * The current protocol fee is locked in as well.
+     * @param details Description, category, resolution criteria and source, each optional and capped by the
+     * `MAX_*_LENGTH` limits
+     * @param limits Minimum and maximum stake of a bet and cap on the pool, `minBet` at most `maxBet` and
+     * `maxPool` when they are set
+     * @return predictionId Id of the new prediction
+     */
+    function createPrediction(
+        string memory name,
+        string[] memory options,
+        uint256 bettingClosesAt,
+        uint256 resolutionDeadline,
+        address resolver,
+        CollateralType collateralType,
+        address collateralToken,
+        uint16 creatorFeeBps,
+        PredictionDetails memory details,
+        BetLimits memory limits
+    ) external returns (uint256 predictionId) {
+        predictionId = _createPrediction(
+            name,
+            options,
+            bettingClosesAt,
+            resolutionDeadline,
+            resolver,
+            collateralType,
+            collateralToken,
+            creatorFeeBps
         );
+        _setDetails(predictionId, details);
+        _setLimits(predictionId, limits);
     }
 
     /**
-     * @notice Returns summaries for every prediction.
+     * @notice Creates a scalar prediction: bettors pick the bucket of `[lowerBound, upperBound)` they expect a
+     * value to fall in, and the resolver reports the value with `resolveScalarPrediction`.
+     * @dev The range is split into `buckets.length` buckets of `(upperBound - lowerBound) / buckets.length`;
+     * values below the range fall in the first bucket, values above it (or in the rounding remainder) in the
+     * last one.
+     * @param name Title for the prediction
+     * @param buckets Label of every bucket, in ascending order
+     * @param lowerBound Start of the first bucket
+     * @param upperBound End of the last bucket, at least one unit per bucket and at most `type(int256).max` above
+     * `lowerBound`
+     * @param bettingClosesAt See `createPrediction`
+     * @param resolutionDeadline See `createPrediction`
+     * @param resolver See `createPrediction`
+     * @param collateralType See `createPrediction`
+     * @param collateralToken See `createPrediction`
+     * @param creatorFeeBps See `createPrediction`
+     * @param details See `createPrediction`
+     * @param limits See `createPrediction`
+     * @return predictionId Id of the new prediction
      */
-    function listPredictions() external view returns (PredictionSummary[] memory) {
-        PredictionSummary[] memory summaries = new PredictionSummary[](_predictionIds.length);
-        for (uint256 i = 0; i < _predictionIds.length; i++) {
-            Prediction storage prediction = _predictions[_predictionIds[i]];
-            if (!prediction.exists) {
-                continue;
-            }
+    function createScalarPrediction(
+        string memory name,
+        string[] memory buckets,
+        int256 lowerBound,
+        int256 upperBound,
+        uint256 bettingClosesAt,
+        uint256 resolutionDeadline,
+        address resolver,
+        CollateralType collateralType,
+        address collateralToken,
+        uint16 creatorFeeBps,
+        PredictionDetails memory details,
+        BetLimits memory limits
+    ) external returns (uint256 predictionId) {
+        _validateScalarRange(lowerBound, upperBound, buckets.length);
+        predictionId = _createPrediction(
+            name,
+            buckets,
+            bettingClosesAt,
+            resolutionDeadline,
+            resolver,
+            collateralType,
+            collateralToken,
+            creatorFeeBps
+        );
 
-            summaries[i] = PredictionSummary({
-                id: _predictionIds[i],
-                name: prediction.name,
-                options: _copyOptions(prediction.options),
-                creator: prediction.creator,
-                createdAt: prediction.createdAt
-            });
-        }
-        return summaries;
+        Prediction storage prediction = _predictions[predictionId];
+        prediction.marketType = MarketType.Scalar;
+        prediction.scalarLowerBound = lowerBound;
+        prediction.scalarUpperBound = upperBound;
+        _setDetails(predictionId, details);
+        _setLimits(predictionId, limits);
     }
 
     /**
-     * @notice Returns metadata for a single prediction.
+     * @notice Places an encrypted bet on a prediction. Attach ETH to msg.value.
+     * @dev The stake is visible through msg.value; use `placeConfidentialBet` to keep it private. Betting again
+     * adds to the caller's position, on the same or another option, but ETH and confidential bets cannot be
+     * mixed on one prediction. The bet limits are checked in the clear; a bet that does not fit under the
+     * encrypted pool cap stakes zero and is credited to the caller's confidential balance instead.
+     * @param predictionId Target prediction
+     * @param encryptedSelection User encrypted option index
+     * @param inputProof Proof returned by the Relayer SDK
      */
-    function getPredictionMetadata(uint256 predictionId) external view returns (PredictionSummary memory) {
-        Prediction storage prediction = _predictions[predictionId];
-        if (!prediction.exists) {
-            revert InvalidPrediction();
+    function placeEncryptedBet(
+        uint256 predictionId,
+        externalEuint8 encryptedSelection,
+        bytes calldata inputProof
+    ) external payable {
+        Prediction storage prediction = _requireBettable(predictionId, false, CollateralType.Native);
+        if (msg.value == 0 || msg.value > type(uint64).max) {
+            revert InvalidBetAmount();
         }
+        _checkBetLimits(prediction, uint64(msg.value));
 
-        return
-            PredictionSummary({
-                id: predictionId,
-                name: prediction.name,
-                options: _copyOptions(prediction.options),
-                creator: prediction.creator,
-                createdAt: prediction.createdAt
-            });
+        euint8 selection = FHE.fromExternal(encryptedSelection, inputProof);
+        euint64 amount = FHE.asEuint64(uint64(msg.value));
+        euint64 stake = PredictionLedger.applyLimits(prediction, amount);
+        if (prediction.limits.maxPool != 0) {
+            PredictionLedger.credit(_balances, FHE.sub(amount, stake));
+        }
+        _recordBet(predictionId, prediction, selection, stake, false);
     }
 
     /**
-     * @notice Returns encrypted totals for all options plus the overall pool.
+     * @notice Places a bet whose option and amount are both encrypted, funded from the confidential balance.
+     * @dev An amount above the caller's balance, outside the bet limits or over the pool cap stakes zero instead
+     * of reverting, so a failed bet does not reveal anything about the balance or the amount.
+     * @param predictionId Target prediction
+     * @param encryptedSelection User encrypted option index
+     * @param encryptedAmount User encrypted stake in wei
+     * @param inputProof Proof returned by the Relayer SDK for both inputs
      */
-    function getEncryptedTotals(uint256 predictionId) external view returns (euint64[] memory, euint64) {
-        Prediction storage prediction = _predictions[predictionId];
-        if (!prediction.exists) {
-            revert InvalidPrediction();
-        }
+    function placeConfidentialBet(
+        uint256 predictionId,
+        externalEuint8 encryptedSelection,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external {
+        Prediction storage prediction = _requireBettable(predictionId, true, CollateralType.Native);
 
-        euint64[] memory totals = _copyEncryptedTotals(prediction.optionTotals);
-        return (totals, prediction.encryptedPool);
+        euint8 selection = FHE.fromExternal(encryptedSelection, inputProof);
+        euint64 stake = PredictionLedger.debit(
+            _balances,
+            PredictionLedger.applyLimits(prediction, FHE.fromExternal(encryptedAmount, inputProof))
+        );
+        _recordBet(predictionId, prediction, selection, stake, true);
     }
 
     /**
-     * @notice Returns the encrypted bet stored for a user.
+     * @notice Places a bet on an ERC-20 denominated prediction. Approve the market for `amount` first.
+     * @dev Like `placeEncryptedBet`, the option stays encrypted but the amount is public. Every stake of an
+     * ERC-20 prediction is public, so the bet limits and the pool cap are checked in the clear.
+     * @param predictionId Target prediction
+     * @param encryptedSelection User encrypted option index
+     * @param amount Stake in token units
+     * @param inputProof Proof returned by the Relayer SDK
      */
-    function getUserBet(
+    function placeTokenBet(
         uint256 predictionId,
-        address user
-    ) external view returns (euint64 encryptedAmount, euint8 encryptedSelection, bool hasBet) {
-        Prediction storage prediction = _predictions[predictionId];
-        if (!prediction.exists) {
-            revert InvalidPrediction();
+        externalEuint8 encryptedSelection,
+        uint64 amount,
+        bytes calldata inputProof
+    ) external {
+        Prediction storage prediction = _requireBettable(predictionId, false, CollateralType.ERC20);
+        if (amount == 0) {
+            revert InvalidBetAmount();
+        }
+        _checkBetLimits(prediction, amount);
+        uint64 maxPool = prediction.limits.maxPool;
+        if (maxPool != 0 && amount > maxPool - prediction.tokenPool) {
+            revert PoolCapExceeded();
         }
+        prediction.tokenPool += amount;
 
-        BetInfo storage bet = _bets[predictionId][user];
-        return (bet.encryptedAmount, bet.encryptedSelection, bet.exists);
+        _callToken(
+            prediction.collateralToken,
+            abi.encodeCall(IERC20.transferFrom, (msg.sender, address(this), amount))
+        );
+        euint8 selection = FHE.fromExternal(encryptedSelection, inputProof);
+        _recordBet(predictionId, prediction, selection, FHE.asEuint64(amount), false);
     }
 
     /**
-     * @notice Number of predictions created.
+     * @notice Places a bet on an ERC-7984 denominated prediction, keeping both the option and the amount private.
+     * @dev The market must be an operator of the caller on the token (`setOperator`). An amount above the
+     * caller's token balance, outside the bet limits or over the pool cap transfers, and therefore stakes, zero.
+     * @param predictionId Target prediction
+     * @param encryptedSelection User encrypted option index
+     * @param encryptedAmount User encrypted stake in token units
+     * @param inputProof Proof returned by the Relayer SDK for both inputs
      */
-    function getPredictionCount() external view returns (uint256) {
-        return _predictionIds.length;
-    }
+    function placeConfidentialTokenBet(
+        uint256 predictionId,
+        externalEuint8 encryptedSelection,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external {
+        Prediction storage prediction = _requireBettable(predictionId, true, CollateralType.Confidential);
 
-    function _copyOptions(string[] storage source) private view returns (string[] memory) {
-        string[] memory copy = new string[](source.length);
-        for (uint256 i = 0; i < source.length; i++) {
-            copy[i] = source[i];
-        }
-        return copy;
+        euint8 selection = FHE.fromExternal(encryptedSelection, inputProof);
+        euint64 requestedAmount = PredictionLedger.applyLimits(
+            prediction,
+            FHE.fromExternal(encryptedAmount, inputProof)
+        );
+        FHE.allowTransient(requestedAmount, prediction.collateralToken);
+        euint64 stake = IConfidentialToken(prediction.collateralToken).confidentialTransferFrom(
+            msg.sender,
+            address(this),
+            requestedAmount
+        );
+
+        _recordBet(predictionId, prediction, selection, stake, true);
     }
 
+    /**
+     * @notice Adds the attached ETH to the caller's confidential balance.
+     */
+    function deposit() external payable {
+        if (msg.value == 0 || msg.value > type(uint64).max) {
+            revert InvalidDepositAmount();
+        }
+
+        PredictionLedger.credit(_balances, FHE.asEuint64(uint64(msg.value)));
+        emit Deposited(msg.sender, msg.value);
+    }
+
+    /**
+     * @notice Moves an encrypted amount out of the caller's confidential balance into a pending withdrawal.
+     * @dev An amount above the balance withdraws zero. The pending amount is made publicly decryptable so it
+     * can be released with `finalizeWithdrawal`.
+     * @param encryptedAmount User encrypted amount in wei
+     * @param inputProof Proof returned by the Relayer SDK
+     */
+    function requestWithdrawal(externalEuint64 encryptedAmount, bytes calldata inputProof) external {
+        PendingWithdrawal storage pending = _withdrawals[msg.sender];
+        if (pending.exists) {
+            revert WithdrawalPending();
+        }
+
+        euint64 amount = PredictionLedger.debit(_balances, FHE.fromExternal(encryptedAmount, inputProof));
+        amount = FHE.allowThis(amount);
+        amount = FHE.allow(amount, msg.sender);
+        amount = FHE.makePubliclyDecryptable(amount);
+        pending.encryptedAmount = amount;
+        pending.exists = true;
+
+        emit WithdrawalRequested(msg.sender, euint64.unwrap(amount));
+    }
+
+    /**
+     * @notice Releases the caller's pending withdrawal once it has been publicly decrypted.
+     * @param abiEncodedClearValues ABI-encoded amount returned by the public decryption
+     * @param decryptionProof KMS proof returned by the public decryption
+     */
+    function finalizeWithdrawal(bytes calldata abiEncodedClearValues, bytes calldata decryptionProof) external {
+        PendingWithdrawal storage pending = _withdrawals[msg.sender];
+        if (!pending.exists) {
+            revert NoPendingWithdrawal();
+        }
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = euint64.unwrap(pending.encryptedAmount);
+        FHE.checkSignatures(handles, abiEncodedClearValues, decryptionProof);
+
+        uint64 amount = abi.decode(abiEncodedClearValues, (uint64));
+        delete _withdrawals[msg.sender];
+        _sendValue(msg.sender, amount);
+
+        emit Withdrawn(msg.sender, amount);
+    }
+
+    /**
+     * @notice Declares the winning option once betting has closed. Only the prediction resolver can resolve.
+     * @dev Reveals the totals if that has not happened yet, so anyone can publish the pool and winning
+     * option total through `publishResolutionTotals`.
+     * @param predictionId Target prediction
+     * @param winningOption 0-based index of the winning option
+     */
+    function resolvePrediction(uint256 predictionId, uint8 winningOption) external {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+        if (msg.sender != prediction.resolver) {
+            revert NotPredictionResolver();
+        }
+
+        _resolve(predictionId, prediction, winningOption);
+    }
+
+    /**
+     * @notice Resolves a scalar prediction with the observed value, the winning option being the bucket it
+     * falls in. Only the prediction resolver can resolve.
+     * @param predictionId Target scalar prediction
+     * @param value Observed value
+     */
+    function resolveScalarPrediction(uint256 predictionId, int256 value) external {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+        if (msg.sender != prediction.resolver) {
+            revert NotPredictionResolver();
+        }
+
+        _resolve(predictionId, prediction, _scalarBucket(prediction, value));
+        prediction.reportedValue = value;
+        prediction.valueReported = true;
+        emit ScalarValueReported(predictionId, value);
+    }
+
+    /**
+     * @notice Resolves a prediction with the outcome reported by its `IPredictionResolver` contract.
+     * @dev Callable by anyone, so an oracle-backed prediction does not need the oracle to push its answer.
+     * @param predictionId Target prediction
+     */
+    function resolveFromOracle(uint256 predictionId) external {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+        if (prediction.resolver.code.length == 0) {
+            revert OutcomeNotAvailable();
+        }
+
+        (bool ready, uint8 winningOption) = IPredictionResolver(prediction.resolver).getOutcome(
+            address(this),
+            predictionId
+        );
+        if (!ready) {
+            revert OutcomeNotAvailable();
+        }
+
+        _resolve(predictionId, prediction, winningOption);
+    }
+
+    /**
+     * @notice Makes the pool and every option total publicly decryptable once betting has closed.
+     * @dev While betting is open the totals are only accessible to this contract, so live odds cannot be
+     * decrypted and individual choices cannot be inferred by diffing totals between bets.
+     * @param predictionId Target prediction
+     */
+    function revealTotals(uint256 predictionId) external {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+        if (_stateOf(prediction) == PredictionState.Open) {
+            revert BettingStillOpen();
+        }
+        if (prediction.totalsRevealed) {
+            revert TotalsAlreadyRevealed();
+        }
+
+        _revealTotals(predictionId, prediction);
+    }
+
+    /**
+     * @notice Stores the decrypted pool and winning option total of a resolved prediction.
+     * @dev Takes the protocol and creator fees out of the pool, unless nobody picked the winning option and
+     * every stake is returned.
+     * @param predictionId Target prediction
+     * @param abiEncodedClearValues ABI-encoded (pool, winningTotal) returned by the public decryption
+     * @param decryptionProof KMS proof returned by the public decryption
+     */
+    function publishResolutionTotals(
+        uint256 predictionId,
+        bytes calldata abiEncodedClearValues,
+        bytes calldata decryptionProof
+    ) external {
+        Prediction storage prediction = _requireResolved(predictionId);
+        if (prediction.resolutionTotalsPublished) {
+            revert ResolutionTotalsAlreadyPublished();
+        }
+
+        bytes32[] memory handles = new bytes32[](2);
+        handles[0] = euint64.unwrap(prediction.encryptedPool);
+        handles[1] = euint64.unwrap(prediction.optionTotals[prediction.winningOption]);
+        FHE.checkSignatures(handles, abiEncodedClearValues, decryptionProof);
+
+        (uint64 pool, uint64 winningTotal) = abi.decode(abiEncodedClearValues, (uint64, uint64));
+        prediction.clearPool = pool;
+        prediction.clearWinningTotal = winningTotal;
+        prediction.resolutionTotalsPublished = true;
+        if (winningTotal != 0) {
+            _accrueFees(predictionId, prediction);
+        }
+
+        emit ResolutionTotalsPublished(predictionId, pool, winningTotal);
+    }
+
+    /**
+     * @notice Computes the caller's encrypted payout for a resolved prediction.
+     * @dev Winners receive `winningStake * (pool - fees) / winningTotal`, where `winningStake` is the caller's
+     * position on the winning option; positions on other options pay nothing. When nobody picked the
+     * winning option every bettor gets their stake back. Confidential bets are credited to the confidential
+     * balance; ETH bets have their payout made publicly decryptable so it can be released with `finalizeClaim`.
+     * Claims on ETH predictions, winning or not, add the stake and the payout to the caller's score.
+     * @param predictionId Target prediction
+     * @return Encrypted payout, readable by the caller
+     */
+    function claimWinnings(uint256 predictionId) external returns (euint64) {
+        Prediction storage prediction = _requireResolved(predictionId);
+        if (!prediction.resolutionTotalsPublished) {
+            revert ResolutionTotalsNotPublished();
+        }
+
+        BetInfo storage betInfo = _bets[predictionId][msg.sender];
+        if (!betInfo.exists) {
+            revert NoBetPlaced();
+        }
+        if (betInfo.claimed) {
+            revert AlreadyClaimed();
+        }
+
+        euint64 payout = _settle(prediction, betInfo, PredictionLedger.payoutOf(prediction, betInfo));
+        if (prediction.collateralType == CollateralType.Native) {
+            PredictionLedger.recordScore(_scores[msg.sender], betInfo.encryptedAmount, payout);
+        }
+
+        emit WinningsClaimed(predictionId, msg.sender, euint64.unwrap(payout));
+        return payout;
+    }
+
+    /**
+     * @notice Voids a prediction while betting is still open. Only the prediction creator can cancel.
+     * @dev Once betting has closed the totals can be revealed, so the creator could cancel a prediction heading for
+     * an outcome they dislike: only admins can void it then, with `adminCancelPrediction`. Predictions left
+     * unresolved past their resolution deadline are treated as cancelled automatically.
+     * @param predictionId Target prediction
+     */
+    function cancelPrediction(uint256 predictionId) external {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+        if (msg.sender != prediction.creator) {
+            revert NotPredictionCreator();
+        }
+        if (_stateOf(prediction) == PredictionState.Closed) {
+            revert BettingClosed();
+        }
+
+        _cancel(predictionId, prediction);
+    }
+
+    /**
+     * @notice Starts the refund of the caller's stake on a cancelled prediction.
+     * @dev The stored encrypted amount becomes the payout. Confidential bets are credited to the confidential
+     * balance; ETH bets have it made publicly decryptable so it can be released with `finalizeClaim`.
+     * @param predictionId Target prediction
+     * @return Encrypted refund, readable by the caller
+     */
+    function refund(uint256 predictionId) external returns (euint64) {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+        if (_stateOf(prediction) != PredictionState.Cancelled) {
+            revert PredictionNotCancelled();
+        }
+
+        BetInfo storage betInfo = _bets[predictionId][msg.sender];
+        if (!betInfo.exists) {
+            revert NoBetPlaced();
+        }
+        if (betInfo.claimed) {
+            revert AlreadyClaimed();
+        }
+
+        euint64 payout = _settle(prediction, betInfo, betInfo.encryptedAmount);
+
+        emit RefundClaimed(predictionId, msg.sender, euint64.unwrap(payout));
+        return payout;
+    }
+
+    /**
+     * @notice Releases the ETH or ERC-20 payout computed by `claimWinnings` or `refund` once it has been
+     * publicly decrypted.
+     * @param predictionId Target prediction
+     * @param abiEncodedClearValues ABI-encoded payout returned by the public decryption
+     * @param decryptionProof KMS proof returned by the public decryption
+     */
+    function finalizeClaim(
+        uint256 predictionId,
+        bytes calldata abiEncodedClearValues,
+        bytes calldata decryptionProof
+    ) external {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+
+        BetInfo storage betInfo = _bets[predictionId][msg.sender];
+        if (!betInfo.claimed) {
+            revert ClaimNotStarted();
+        }
+        if (betInfo.paidOut) {
+            revert AlreadyClaimed();
+        }
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = euint64.unwrap(betInfo.encryptedPayout);
+        FHE.checkSignatures(handles, abiEncodedClearValues, decryptionProof);
+
+        uint64 amount = abi.decode(abiEncodedClearValues, (uint64));
+        betInfo.paidOut = true;
+        if (prediction.collateralType == CollateralType.ERC20) {
+            _callToken(prediction.collateralToken, abi.encodeCall(IERC20.transfer, (msg.sender, amount)));
+        } else {
+            _sendValue(msg.sender, amount);
+        }
+
+        emit PayoutReleased(predictionId, msg.sender, amount);
+    }
+
+    /**
+     * @notice Opts the caller into the leaderboard by making their score publicly decryptable.
+     * @dev Irreversible: the score stays public, and so do its updates by later claims.
+     */
+    function revealScore() external {
+        Score storage score = _scores[msg.sender];
+        if (score.marketsClaimed == 0) {
+            revert NoScore();
+        }
+        if (score.revealed) {
+            revert ScoreAlreadyRevealed();
+        }
+
+        score.revealed = true;
+        FHE.makePubliclyDecryptable(score.staked);
+        FHE.makePubliclyDecryptable(score.returned);
+        _leaderboard.push(msg.sender);
+        emit ScoreRevealed(msg.sender);
+    }
+
+    /**
+     * @notice Returns summaries for every prediction that is not hidden.
+     * @dev Copies every prediction, prefer `listPredictionsPaged` once the market grows.
+     * @return Summaries in creation order
+     */
+    function listPredictions() external view returns (PredictionSummary[] memory) {
+        return _page(_predictionIds, 0, _predictionIds.length, true);
+    }
+
+    /**
+     * @notice Returns summaries for the predictions among positions `offset` to `offset + limit` in creation order.
+     * @dev Hidden predictions are skipped, so a page may come back short: advance the offset by `limit`.
+     * @param offset Number of predictions to skip
+     * @param limit Maximum number of predictions to return
+     * @return page Summaries of the requested window
+     * @return total Number of predictions created, hidden ones included
+     */
+    function listPredictionsPaged(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (PredictionSummary[] memory page, uint256 total) {
+        return (_page(_predictionIds, offset, limit, true), _predictionIds.length);
+    }
+
+    /**
+     * @notice Pages through the predictions created by `creator`.
+     * @param creator Account that created the predictions
+     * @param offset Number of predictions to skip
+     * @param limit Maximum number of predictions to return
+     * @return page Summaries of the requested window
+     * @return total Number of predictions created by `creator`
+     */
+    function listPredictionsByCreator(
+        address creator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (PredictionSummary[] memory page, uint256 total) {
+        uint256[] storage ids = _creatorPredictionIds[creator];
+        return (_page(ids, offset, limit, false), ids.length);
+    }
+
+    /**
+     * @notice Pages through the predictions tagged with `category`, hidden ones excepted.
+     * @param category Category, matched exactly
+     * @param offset Number of predictions to skip
+     * @param limit Maximum number of predictions to return
+     * @return page Summaries of the requested window, which may hold fewer than `limit` predictions
+     * @return total Number of predictions tagged with `category`, hidden ones included
+     */
+    function listPredictionsByCategory(
+        string calldata category,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (PredictionSummary[] memory page, uint256 total) {
+        uint256[] storage ids = _categoryPredictionIds[keccak256(bytes(category))];
+        return (_page(ids, offset, limit, true), ids.length);
+    }
+
+    /**
+     * @notice Pages through the predictions `bettor` placed at least one bet on.
+     * @param bettor Account that placed the bets
+     * @param offset Number of predictions to skip
+     * @param limit Maximum number of predictions to return
+     * @return page Summaries of the requested window
+     * @return total Number of predictions `bettor` bet on
+     */
+    function listPredictionsByBettor(
+        address bettor,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (PredictionSummary[] memory page, uint256 total) {
+        uint256[] storage ids = _bettorPredictionIds[bettor];
+        return (_page(ids, offset, limit, false), ids.length);
+    }
+
+    /**
+     * @notice Returns up to `limit` visible predictions currently in `state`, scanning creation order from `cursor`.
+     * @dev States move with time so they cannot be indexed. The scan stops after `limit` matches or `maxScan`
+     * predictions, pass `nextCursor` back to continue. `nextCursor` equals `getPredictionCount()` once the scan is
+     * done.
+     * @param state State to match
+     * @param cursor Position in creation order to start scanning from, zero at first
+     * @param limit Maximum number of predictions to return
+     * @param maxScan Maximum number of predictions to scan
+     * @return page Summaries of the matching predictions
+     * @return nextCursor Position to resume scanning from
+     */
+    function listPredictionsByState(
+        PredictionState state,
+        uint256 cursor,
+        uint256 limit,
+        uint256 maxScan
+    ) external view returns (PredictionSummary[] memory page, uint256 nextCursor) {
+        uint256 end = _windowEnd(_predictionIds.length, cursor, maxScan);
+        PredictionSummary[] memory matches = new PredictionSummary[](limit < end - cursor ? limit : end - cursor);
+        uint256 found = 0;
+        nextCursor = cursor;
+        while (nextCursor < end && found < matches.length) {
+            uint256 predictionId = _predictionIds[nextCursor++];
+            Prediction storage prediction = _predictions[predictionId];
+            if (!prediction.hidden && _stateOf(prediction) == state) {
+                matches[found++] = _toSummary(predictionId, prediction);
+            }
+        }
+
+        // Shrink the array to the number of matches.
+        assembly ("memory-safe") {
+            mstore(matches, found)
+        }
+        return (matches, nextCursor);
+    }
+
+    /**
+     * @notice Pages through the scores of the bettors who revealed theirs, in the order they opted in.
+     * @dev Scores are publicly decryptable, rank them by `returned - staked` once decrypted.
+     * @param offset Number of entries to skip
+     * @param limit Maximum number of entries to return
+     * @return page Entries of the requested window
+     * @return total Number of revealed scores
+     */
+    function listLeaderboard(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (LeaderboardEntry[] memory page, uint256 total) {
+        uint256 end = _windowEnd(_leaderboard.length, offset, limit);
+        page = new LeaderboardEntry[](end > offset ? end - offset : 0);
+        for (uint256 i = offset; i < end; i++) {
+            Score storage score = _scores[_leaderboard[i]];
+            page[i - offset] = LeaderboardEntry(_leaderboard[i], score.staked, score.returned, score.marketsClaimed);
+        }
+        return (page, _leaderboard.length);
+    }
+
+    /**
+     * @notice Returns metadata for a single prediction.
+     * @param predictionId Target prediction
+     * @return Summary of the prediction
+     */
+    function getPredictionMetadata(uint256 predictionId) external view returns (PredictionSummary memory) {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+
+        return _toSummary(predictionId, prediction);
+    }
+
+    /**
+     * @notice Returns encrypted totals for all options plus the overall pool.
+     * @dev The handles can only be decrypted once `revealed` is true.
+     * @param predictionId Target prediction
+     * @return totals Encrypted total staked on every option
+     * @return pool Encrypted sum of all stakes
+     * @return revealed Whether the totals are publicly decryptable
+     */
+    function getEncryptedTotals(
+        uint256 predictionId
+    ) external view returns (euint64[] memory totals, euint64 pool, bool revealed) {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+
+        totals = _copyEncryptedTotals(prediction.optionTotals);
+        return (totals, prediction.encryptedPool, prediction.totalsRevealed);
+    }
+
+    /**
+     * @notice Returns the encrypted bet stored for a user.
+     * @dev `encryptedAmount` is the total stake across every bet the user placed and `encryptedSelection` the
+     * option of the most recent bet. Use `getUserPositions` for the per-option breakdown.
+     * @param predictionId Target prediction
+     * @param user Bettor
+     * @return encryptedAmount Encrypted total stake
+     * @return encryptedSelection Encrypted option of the most recent bet
+     * @return hasBet Whether the user bet on the prediction
+     */
+    function getUserBet(
+        uint256 predictionId,
+        address user
+    ) external view returns (euint64 encryptedAmount, euint8 encryptedSelection, bool hasBet) {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+
+        BetInfo storage bet = _bets[predictionId][user];
+        return (bet.encryptedAmount, bet.encryptedSelection, bet.exists);
+    }
+
+    /**
+     * @notice Returns the user's encrypted stake on every option of a prediction.
+     * @param predictionId Target prediction
+     * @param user Bettor
+     * @return positions Encrypted stake on every option
+     * @return hasBet Whether the user bet on the prediction
+     */
+    function getUserPositions(
+        uint256 predictionId,
+        address user
+    ) external view returns (euint64[] memory positions, bool hasBet) {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+
+        BetInfo storage bet = _bets[predictionId][user];
+        return (_copyEncryptedTotals(bet.positions), bet.exists);
+    }
+
+    /**
+     * @notice Returns the resolution state of a prediction.
+     * @param predictionId Target prediction
+     * @return resolved Whether the prediction is resolved
+     * @return winningOption 0-based index of the winning option, only meaningful once resolved
+     * @return totalsPublished Whether the decrypted totals payouts are computed from are published
+     * @return pool Clear pool, once published
+     * @return winningTotal Clear total staked on the winning option, once published
+     */
+    function getResolution(
+        uint256 predictionId
+    )
+        external
+        view
+        returns (bool resolved, uint8 winningOption, bool totalsPublished, uint64 pool, uint64 winningTotal)
+    {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+
+        return (
+            prediction.state == PredictionState.Resolved,
+            prediction.winningOption,
+            prediction.resolutionTotalsPublished,
+            prediction.clearPool,
+            prediction.clearWinningTotal
+        );
+    }
+
+    /**
+     * @notice Returns the claim state of a user's bet.
+     * @param predictionId Target prediction
+     * @param user Bettor
+     * @return encryptedPayout Encrypted payout or refund, once claimed
+     * @return claimed Whether the user claimed winnings or a refund
+     * @return paidOut Whether the claim was released in clear with `finalizeClaim`
+     */
+    function getClaim(
+        uint256 predictionId,
+        address user
+    ) external view returns (euint64 encryptedPayout, bool claimed, bool paidOut) {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+
+        BetInfo storage bet = _bets[predictionId][user];
+        return (bet.encryptedPayout, bet.claimed, bet.paidOut);
+    }
+
+    /**
+     * @notice Returns the fee rates of a prediction and, once its resolution totals are published, the fees taken.
+     * @param predictionId Target prediction
+     * @return protocolFeeBps Protocol fee locked in at creation, in basis points
+     * @return creatorFeeBps Creator fee, in basis points
+     * @return protocolFee Protocol fee taken, in collateral units
+     * @return creatorFee Creator fee taken, in collateral units
+     */
+    function getPredictionFees(
+        uint256 predictionId
+    ) external view returns (uint16 protocolFeeBps, uint16 creatorFeeBps, uint64 protocolFee, uint64 creatorFee) {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+
+        return (prediction.protocolFeeBps, prediction.creatorFeeBps, prediction.protocolFee, prediction.creatorFee);
+    }
+
+    /**
+     * @notice Returns the fees `beneficiary` can withdraw in one collateral.
+     * @param beneficiary Fee recipient or creator
+     * @param collateralType Collateral the fees were taken in
+     * @param token Collateral token, zero for native ETH
+     * @return Withdrawable amount, in collateral units
+     */
+    function getAccruedFees(
+        address beneficiary,
+        CollateralType collateralType,
+        address token
+    ) external view returns (uint256) {
+        return _fees[beneficiary][collateralType][token];
+    }
+
+    /**
+     * @notice Returns the protocol fee applied to new predictions and its beneficiary.
+     * @return protocolFeeBps Protocol fee, in basis points
+     * @return feeRecipient Beneficiary of protocol fees
+     */
+    function getFeeConfig() external view returns (uint16 protocolFeeBps, address feeRecipient) {
+        return (_protocolFeeBps, _feeRecipient);
+    }
+
+    /**
+     * @notice Returns the owner, who manages admins and the fee recipient.
+     * @return Current owner
+     */
+    function owner() external view returns (address) {
+        return _owner;
+    }
+
+    /**
+     * @notice Returns the account nominated by `transferOwnership`, if any.
+     * @return Pending owner, zero when no transfer is pending
+     */
+    function pendingOwner() external view returns (address) {
+        return _pendingOwner;
+    }
+
+    /**
+     * @notice Tells whether an account holds the admin role, which the owner always does.
+     * @param account Account to check
+     * @return Whether the account is the owner or an admin
+     */
+    function isAdmin(address account) external view returns (bool) {
+        return account == _owner || _admins[account];
+    }
+
+    /**
+     * @notice Tells whether creation and betting are paused.
+     * @return Whether the market is paused
+     */
+    function paused() external view returns (bool) {
+        return _paused;
+    }
+
+    /**
+     * @notice Returns the encrypted confidential balance of a user.
+     * @param user Balance owner
+     * @return Encrypted balance, readable by the user
+     */
+    function getEncryptedBalance(address user) external view returns (euint64) {
+        return _balances[user];
+    }
+
+    /**
+     * @notice Returns the pending withdrawal of a user.
+     * @param user Balance owner
+     * @return encryptedAmount Encrypted amount set aside, publicly decryptable
+     * @return pending Whether a withdrawal is pending
+     */
+    function getPendingWithdrawal(address user) external view returns (euint64 encryptedAmount, bool pending) {
+        PendingWithdrawal storage withdrawal = _withdrawals[user];
+        return (withdrawal.encryptedAmount, withdrawal.exists);
+    }
+
+    /**
+     * @notice Returns the encrypted score of a user, decryptable by the user and by anyone once revealed.
+     * @param user Bettor
+     * @return staked Encrypted sum of the stakes of claimed ETH bets
+     * @return returned Encrypted sum of their payouts
+     * @return marketsClaimed Number of claimed ETH bets
+     * @return revealed Whether the user revealed the score
+     */
+    function getScore(
+        address user
+    ) external view returns (euint64 staked, euint64 returned, uint256 marketsClaimed, bool revealed) {
+        Score storage score = _scores[user];
+        return (score.staked, score.returned, score.marketsClaimed, score.revealed);
+    }
+
+    /**
+     * @notice Returns the lifecycle state of a prediction.
+     * @param predictionId Target prediction
+     * @return Current state, which moves with time
+     */
+    function getPredictionState(uint256 predictionId) external view returns (PredictionState) {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+
+        return _stateOf(prediction);
+    }
+
+    /**
+     * @notice Returns the stake limits of a prediction, zero meaning no maximum bet or no pool cap.
+     * @param predictionId Target prediction
+     * @return minBet Minimum stake of a bet
+     * @return maxBet Maximum stake of a bet
+     * @return maxPool Maximum sum of all stakes
+     */
+    function getBetLimits(uint256 predictionId) external view returns (uint64 minBet, uint64 maxBet, uint64 maxPool) {
+        Prediction storage prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+
+        BetLimits storage limits = prediction.limits;
+        return (limits.minBet, limits.maxBet, limits.maxPool);
+    }
+
+    /**
+     * @notice Range of a scalar prediction and the value it was resolved with.
+     * @param predictionId Target scalar prediction
+     * @return lowerBound Start of the first bucket
+     * @return upperBound End of the last bucket
+     * @return reported Whether the resolver reported the value, rather than resolving with a bucket index
+     * @return value Reported value, only meaningful when `reported` is true
+     */
+    function getScalarRange(
+        uint256 predictionId
+    ) external view returns (int256 lowerBound, int256 upperBound, bool reported, int256 value) {
+        Prediction storage prediction = _scalarPrediction(predictionId);
+        return (
+            prediction.scalarLowerBound,
+            prediction.scalarUpperBound,
+            prediction.valueReported,
+            prediction.reportedValue
+        );
+    }
+
+    /**
+     * @notice Option a value resolves a scalar prediction to, e.g. for oracles answering `getOutcome`.
+     * @param predictionId Target scalar prediction
+     * @param value Value to bucket
+     * @return 0-based index of the bucket `value` falls in
+     */
+    function getScalarBucket(uint256 predictionId, int256 value) external view returns (uint8) {
+        return _scalarBucket(_scalarPrediction(predictionId), value);
+    }
+
+    /**
+     * @notice Number of predictions created.
+     * @return Number of predictions, hidden ones included
+     */
+    function getPredictionCount() external view returns (uint256) {
+        return _predictionIds.length;
+    }
+
+    /**
+     * @notice Declares the winning option of a closed prediction and reveals its totals if nobody has yet.
+     * @param predictionId Target prediction
+     * @param prediction Storage of the prediction
+     * @param winningOption 0-based index of the winning option
+     */
+    function _resolve(uint256 predictionId, Prediction storage prediction, uint8 winningOption) private {
+        PredictionState state = _stateOf(prediction);
+        if (state == PredictionState.Open) {
+            revert BettingStillOpen();
+        }
+        if (state == PredictionState.Cancelled) {
+            revert PredictionIsCancelled();
+        }
+        if (state != PredictionState.Closed) {
+            revert PredictionAlreadyResolved();
+        }
+        if (winningOption >= prediction.options.length) {
+            revert InvalidWinningOption();
+        }
+
+        prediction.state = PredictionState.Resolved;
+        prediction.winningOption = winningOption;
+        if (!prediction.totalsRevealed) {
+            _revealTotals(predictionId, prediction);
+        }
+
+        emit PredictionResolved(predictionId, winningOption);
+    }
+
+    /**
+     * @notice Voids a prediction unless it is already cancelled or resolved.
+     * @param predictionId Target prediction
+     * @param prediction Storage of the prediction
+     */
+    function _cancel(uint256 predictionId, Prediction storage prediction) private {
+        PredictionState state = _stateOf(prediction);
+        if (state == PredictionState.Cancelled) {
+            revert PredictionIsCancelled();
+        }
+        if (state == PredictionState.Resolved) {
+            revert PredictionAlreadyResolved();
+        }
+
+        prediction.state = PredictionState.Cancelled;
+        emit PredictionCancelled(predictionId);
+    }
+
+    /**
+     * @notice Validates and stores a new prediction created by the caller; see `createPrediction`.
+     * @param name Title for the prediction
+     * @param options List of outcomes
+     * @param bettingClosesAt Timestamp after which no more bets are accepted
+     * @param resolutionDeadline Timestamp by which the prediction must be resolved
+     * @param resolver Address allowed to declare the outcome, zero for the creator
+     * @param collateralType Asset bets are denominated in
+     * @param collateralToken Token address, zero for native ETH
+     * @param creatorFeeBps Creator fee in basis points
+     * @return Id of the new prediction
+     */
+    function _createPrediction(
+        string memory name,
+        string[] memory options,
+        uint256 bettingClosesAt,
+        uint256 resolutionDeadline,
+        address resolver,
+        CollateralType collateralType,
+        address collateralToken,
+        uint16 creatorFeeBps
+    ) private returns (uint256) {
+        if (_paused) {
+            revert MarketPaused();
+        }
+        _validateOptions(name, options);
+        _validateTiming(bettingClosesAt, resolutionDeadline);
+        _validateCollateral(collateralType, collateralToken, creatorFeeBps);
+
+        uint256 predictionId = _nextPredictionId++;
+        Prediction storage prediction = _predictions[predictionId];
+        prediction.creator = msg.sender;
+        prediction.resolver = resolver == address(0) ? msg.sender : resolver;
+        prediction.createdAt = block.timestamp;
+        prediction.bettingClosesAt = bettingClosesAt;
+        prediction.resolutionDeadline = resolutionDeadline;
+        prediction.exists = true;
+        prediction.collateralType = collateralType;
+        prediction.collateralToken = collateralToken;
+        prediction.protocolFeeBps = _protocolFeeBps;
+        prediction.creatorFeeBps = creatorFeeBps;
+
+        PredictionLedger.open(prediction, name, options);
+
+        _predictionIds.push(predictionId);
+        _creatorPredictionIds[msg.sender].push(predictionId);
+        emit PredictionCreated(
+            predictionId,
+            msg.sender,
+            prediction.resolver,
+            name,
+            options.length,
+            bettingClosesAt,
+            resolutionDeadline
+        );
+        return predictionId;
+    }
+
+    /**
+     * @notice Reverts unless the name is set and there are 2 to `MAX_OPTIONS` non-empty options.
+     * @param name Title for the prediction
+     * @param options List of outcomes
+     */
+    function _validateOptions(string memory name, string[] memory options) private pure {
+        if (bytes(name).length == 0) {
+            revert EmptyName();
+        }
+        if (options.length < 2 || options.length > MAX_OPTIONS) {
+            revert InvalidOptionsCount();
+        }
+        for (uint256 i = 0; i < options.length; i++) {
+            if (bytes(options[i]).length == 0) {
+                revert EmptyOption();
+            }
+        }
+    }
+
+    /**
+     * @notice Reverts unless betting closes in the future and the resolution deadline is not before it.
+     * @param bettingClosesAt Timestamp after which no more bets are accepted
+     * @param resolutionDeadline Timestamp by which the prediction must be resolved
+     */
+    function _validateTiming(uint256 bettingClosesAt, uint256 resolutionDeadline) private view {
+        if (bettingClosesAt <= block.timestamp) {
+            revert InvalidBettingCloseTime();
+        }
+        if (resolutionDeadline < bettingClosesAt) {
+            revert InvalidResolutionDeadline();
+        }
+    }
+
+    /**
+     * @notice Reverts unless only token collaterals name a token and the creator fee is within bounds.
+     * @param collateralType Asset bets are denominated in
+     * @param collateralToken Token address, zero for native ETH
+     * @param creatorFeeBps Creator fee in basis points
+     */
+    function _validateCollateral(
+        CollateralType collateralType,
+        address collateralToken,
+        uint16 creatorFeeBps
+    ) private pure {
+        if ((collateralType == CollateralType.Native) != (collateralToken == address(0))) {
+            revert InvalidCollateral();
+        }
+        if (creatorFeeBps > MAX_CREATOR_FEE_BPS) {
+            revert FeeTooHigh();
+        }
+    }
+
+    /**
+     * @notice Reverts unless the range is increasing, its width fits an int256 and it holds a unit per bucket.
+     * @param lowerBound Start of the first bucket
+     * @param upperBound End of the last bucket
+     * @param bucketCount Number of buckets
+     */
+    function _validateScalarRange(int256 lowerBound, int256 upperBound, uint256 bucketCount) private pure {
+        // Rejects ranges whose width overflows an int256 before the width is computed.
+        if (upperBound <= lowerBound || (lowerBound < 0 && upperBound > type(int256).max + lowerBound)) {
+            revert InvalidScalarRange();
+        }
+        if (uint256(upperBound - lowerBound) < bucketCount) {
+            revert InvalidScalarRange();
+        }
+    }
+
+    /**
+     * @notice Validates and stores the details of a prediction and indexes it by category.
+     * @param predictionId Target prediction
+     * @param details Description, category, resolution criteria and source
+     */
+    function _setDetails(uint256 predictionId, PredictionDetails memory details) private {
+        if (bytes(details.description).length > MAX_DESCRIPTION_LENGTH) {
+            revert DescriptionTooLong();
+        }
+        if (bytes(details.category).length > MAX_CATEGORY_LENGTH) {
+            revert CategoryTooLong();
+        }
+        if (bytes(details.resolutionCriteria).length > MAX_CRITERIA_LENGTH) {
+            revert ResolutionCriteriaTooLong();
+        }
+        if (bytes(details.source).length > MAX_SOURCE_LENGTH) {
+            revert SourceTooLong();
+        }
+
+        PredictionLedger.describe(_predictions[predictionId], details);
+        if (bytes(details.category).length != 0) {
+            _categoryPredictionIds[keccak256(bytes(details.category))].push(predictionId);
+        }
+    }
+
+    /**
+     * @notice Validates and stores the stake limits of a prediction.
+     * @param predictionId Target prediction
+     * @param limits Minimum and maximum stake of a bet and cap on the pool
+     */
+    function _setLimits(uint256 predictionId, BetLimits memory limits) private {
+        if (
+            (limits.maxBet != 0 && limits.minBet > limits.maxBet) ||
+            (limits.maxPool != 0 && limits.minBet > limits.maxPool)
+        ) {
+            revert InvalidBetLimits();
+        }
+        _predictions[predictionId].limits = limits;
+    }
+
+    /**
+     * @notice Reverts when a clear stake breaks the bet limits of a prediction.
+     * @param prediction Storage of the prediction
+     * @param amount Stake in collateral units
+     */
+    function _checkBetLimits(Prediction storage prediction, uint64 amount) private view {
+        BetLimits storage limits = prediction.limits;
+        if (amount < limits.minBet || (limits.maxBet != 0 && amount > limits.maxBet)) {
+            revert InvalidBetAmount();
+        }
+    }
+
+    /**
+     * @notice Returns the storage of an existing scalar prediction.
+     * @param predictionId Target prediction
+     * @return prediction Storage of the prediction
+     */
+    function _scalarPrediction(uint256 predictionId) private view returns (Prediction storage prediction) {
+        prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+        if (prediction.marketType != MarketType.Scalar) {
+            revert NotScalarPrediction();
+        }
+    }
+
+    /**
+     * @notice Index of the bucket `value` falls in, clamped to the first and last bucket.
+     * @param prediction Storage of the prediction
+     * @param value Value to bucket
+     * @return 0-based index of the bucket
+     */
+    function _scalarBucket(Prediction storage prediction, int256 value) private view returns (uint8) {
+        if (prediction.marketType != MarketType.Scalar) {
+            revert NotScalarPrediction();
+        }
+        uint256 bucketCount = prediction.options.length;
+        if (value <= prediction.scalarLowerBound) {
+            return 0;
+        }
+        if (value >= prediction.scalarUpperBound) {
+            return uint8(bucketCount - 1);
+        }
+        uint256 width = uint256(prediction.scalarUpperBound - prediction.scalarLowerBound) / bucketCount;
+        uint256 bucket = uint256(value - prediction.scalarLowerBound) / width;
+        return uint8(bucket < bucketCount ? bucket : bucketCount - 1);
+    }
+
+    /**
+     * @notice Reverts unless the caller is the owner.
+     */
+    function _requireOwner() private view {
+        if (msg.sender != _owner) {
+            revert NotOwner();
+        }
+    }
+
+    /**
+     * @notice Reverts unless the caller is the owner or an admin.
+     */
+    function _requireAdmin() private view {
+        if (msg.sender != _owner && !_admins[msg.sender]) {
+            revert NotAdmin();
+        }
+    }
+
+    /**
+     * @notice Returns the storage of an existing resolved prediction.
+     * @param predictionId Target prediction
+     * @return prediction Storage of the prediction
+     */
+    function _requireResolved(uint256 predictionId) private view returns (Prediction storage prediction) {
+        prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+        if (prediction.state != PredictionState.Resolved) {
+            revert PredictionNotResolved();
+        }
+    }
+
+    /**
+     * @notice Returns the storage of a prediction the caller can bet on with the given funding and collateral.
+     * @param predictionId Target prediction
+     * @param confidential Whether the stake comes from the confidential balance or a confidential token
+     * @param collateralType Collateral of the stake
+     * @return prediction Storage of the prediction
+     */
+    function _requireBettable(
+        uint256 predictionId,
+        bool confidential,
+        CollateralType collateralType
+    ) private view returns (Prediction storage prediction) {
+        prediction = _predictions[predictionId];
+        if (!prediction.exists) {
+            revert InvalidPrediction();
+        }
+        if (_paused) {
+            revert MarketPaused();
+        }
+        if (prediction.optionTotals.length == 0) {
+            revert InvalidOptionsCount();
+        }
+        if (prediction.collateralType != collateralType) {
+            revert WrongCollateral();
+        }
+        if (_stateOf(prediction) != PredictionState.Open) {
+            revert BettingClosed();
+        }
+        BetInfo storage betInfo = _bets[predictionId][msg.sender];
+        if (betInfo.exists && betInfo.confidential != confidential) {
+            revert BetFundingMismatch();
+        }
+    }
+
+    /**
+     * @notice Adds a bet of the caller to a prediction's totals and to the caller's positions.
+     * @param predictionId Target prediction
+     * @param prediction Storage of the prediction
+     * @param selection Encrypted 0-based index of the selected option
+     * @param encryptedAmount Encrypted stake
+     * @param confidential Whether the stake came from the confidential balance or a confidential token
+     */
+    function _recordBet(
+        uint256 predictionId,
+        Prediction storage prediction,
+        euint8 selection,
+        euint64 encryptedAmount,
+        bool confidential
+    ) private {
+        BetInfo storage betInfo = _bets[predictionId][msg.sender];
+        if (!betInfo.exists) {
+            _bettorPredictionIds[msg.sender].push(predictionId);
+            prediction.bettorCount++;
+        }
+        PredictionLedger.recordBet(prediction, betInfo, selection, encryptedAmount);
+        betInfo.exists = true;
+        betInfo.confidential = confidential;
+
+        emit BetPlaced(
+            predictionId,
+            msg.sender,
+            euint64.unwrap(encryptedAmount),
+            euint8.unwrap(selection),
+            confidential
+        );
+    }
+
+    /**
+     * @notice Marks a bet as claimed with `payout`: ERC-7984 payouts are transferred and confidential ETH bets are
+     * credited right away, public ETH and ERC-20 bets wait for the payout to be publicly decrypted and released through
+     * `finalizeClaim`.
+     * @param prediction Storage of the prediction
+     * @param betInfo Storage of the claimed bet
+     * @param payout Encrypted payout or refund
+     * @return Payout, readable by the caller
+     */
+    function _settle(Prediction storage prediction, BetInfo storage betInfo, euint64 payout) private returns (euint64) {
+        payout = FHE.allowThis(payout);
+        payout = FHE.allow(payout, msg.sender);
+        betInfo.claimed = true;
+
+        if (prediction.collateralType == CollateralType.Confidential) {
+            FHE.allowTransient(payout, prediction.collateralToken);
+            IConfidentialToken(prediction.collateralToken).confidentialTransfer(msg.sender, payout);
+            betInfo.paidOut = true;
+        } else if (betInfo.confidential) {
+            PredictionLedger.credit(_balances, payout);
+            betInfo.paidOut = true;
+        } else {
+            payout = FHE.makePubliclyDecryptable(payout);
+        }
+
+        betInfo.encryptedPayout = payout;
+        return payout;
+    }
+
+    /**
+     * @notice Credits the protocol and creator fees of a resolved pool to the fee vault.
+     * @dev The total fee is rounded down once and the creator gets the rounding remainder of the split, so the winners'
+     * share matches `feeBps` as a whole.
+     * @param predictionId Target prediction
+     * @param prediction Storage of the prediction
+     */
+    function _accrueFees(uint256 predictionId, Prediction storage prediction) private {
+        uint256 pool = prediction.clearPool;
+        uint64 fees = uint64((pool * (prediction.protocolFeeBps + prediction.creatorFeeBps)) / BPS_DENOMINATOR);
+        uint64 protocolFee = uint64((pool * prediction.protocolFeeBps) / BPS_DENOMINATOR);
+        uint64 creatorFee = fees - protocolFee;
+        prediction.protocolFee = protocolFee;
+        prediction.creatorFee = creatorFee;
+
+        _fees[_feeRecipient][prediction.collateralType][prediction.collateralToken] += protocolFee;
+        _fees[prediction.creator][prediction.collateralType][prediction.collateralToken] += creatorFee;
+        emit FeesAccrued(predictionId, protocolFee, creatorFee);
+    }
+
+    /**
+     * @notice Sends `amount` wei to `recipient`, reverting when the transfer fails.
+     * @param recipient Recipient
+     * @param amount Amount in wei
+     */
+    function _sendValue(address recipient, uint256 amount) private {
+        if (amount == 0) {
+            return;
+        }
+
+        (bool sent, ) = payable(recipient).call{value: amount}("");
+        if (!sent) {
+            revert TransferFailed();
+        }
+    }
+
+    /**
+     * @notice Calls an ERC-20 method, accepting tokens that return nothing as well as tokens that return a bool.
+     * @param token ERC-20 token
+     * @param data Encoded call
+     */
+    function _callToken(address token, bytes memory data) private {
+        (bool success, bytes memory returnData) = token.call(data);
+        if (!success || (returnData.length != 0 && !abi.decode(returnData, (bool)))) {
+            revert TransferFailed();
+        }
+    }
+
+    /**
+     * @notice Makes the pool and option totals of a prediction publicly decryptable.
+     * @param predictionId Target prediction
+     * @param prediction Storage of the prediction
+     */
+    function _revealTotals(uint256 predictionId, Prediction storage prediction) private {
+        prediction.encryptedPool = FHE.makePubliclyDecryptable(prediction.encryptedPool);
+        for (uint256 i = 0; i < prediction.optionTotals.length; i++) {
+            prediction.optionTotals[i] = FHE.makePubliclyDecryptable(prediction.optionTotals[i]);
+        }
+        prediction.totalsRevealed = true;
+
+        emit TotalsRevealed(predictionId);
+    }
+
+    /**
+     * @notice Works out the current state of a prediction, closing and lapsing with time.
+     * @param prediction Storage of the prediction
+     * @return Current state
+     */
+    function _stateOf(Prediction storage prediction) private view returns (PredictionState) {
+        if (prediction.state != PredictionState.Open) {
+            return prediction.state;
+        }
+        if (block.timestamp > prediction.resolutionDeadline) {
+            return PredictionState.Cancelled;
+        }
+        if (block.timestamp >= prediction.bettingClosesAt) {
+            return PredictionState.Closed;
+        }
+        return PredictionState.Open;
+    }
+
+    /**
+     * @notice Builds the view of a prediction returned by the listings.
+     * @param predictionId Target prediction
+     * @param prediction Storage of the prediction
+     * @return Summary of the prediction
+     */
+    function _toSummary(
+        uint256 predictionId,
+        Prediction storage prediction
+    ) private view returns (PredictionSummary memory) {
+        return
+            PredictionSummary({
+                id: predictionId,
+                name: prediction.name,
+                options: _copyOptions(prediction.options),
+                creator: prediction.creator,
+                resolver: prediction.resolver,
+                createdAt: prediction.createdAt,
+                bettingClosesAt: prediction.bettingClosesAt,
+                resolutionDeadline: prediction.resolutionDeadline,
+                state: _stateOf(prediction),
+                collateralType: prediction.collateralType,
+                collateralToken: prediction.collateralToken,
+                bettorCount: prediction.bettorCount,
+                protocolFeeBps: prediction.protocolFeeBps,
+                creatorFeeBps: prediction.creatorFeeBps,
+                hidden: prediction.hidden,
+                marketType: prediction.marketType,
+                details: prediction.details
+            });
+    }
+
+    /**
+     * @notice Returns the summaries of `ids[offset:offset + limit]`, optionally leaving hidden predictions out.
+     * @param ids Prediction ids
+     * @param offset Start of the window
+     * @param limit Maximum size of the window
+     * @param skipHidden Whether to leave hidden predictions out
+     * @return page Summaries of the window
+     */
+    function _page(
+        uint256[] storage ids,
+        uint256 offset,
+        uint256 limit,
+        bool skipHidden
+    ) private view returns (PredictionSummary[] memory page) {
+        uint256 end = _windowEnd(ids.length, offset, limit);
+        page = new PredictionSummary[](end > offset ? end - offset : 0);
+        uint256 found = 0;
+        for (uint256 i = offset; i < end; i++) {
+            Prediction storage prediction = _predictions[ids[i]];
+            if (!skipHidden || !prediction.hidden) {
+                page[found++] = _toSummary(ids[i], prediction);
+            }
+        }
+
+        // Shrink the array to the number of visible predictions.
+        assembly ("memory-safe") {
+            mstore(page, found)
+        }
+    }
+
+    /**
+     * @notice Returns the exclusive end of the `[offset, offset + limit)` window clamped to `length`, or `offset`
+     * when the window starts past the end.
+     * @param length Number of items
+     * @param offset Start of the window
+     * @param limit Maximum size of the window
+     * @return Exclusive end of the window
+     */
+    function _windowEnd(uint256 length, uint256 offset, uint256 limit) private pure returns (uint256) {
+        if (offset >= length) {
+            return offset;
+        }
+        return length - offset < limit ? length : offset + limit;
+    }
+
+    /**
+     * @notice Copies the options of a prediction to memory.
+     * @param source Stored options
+     * @return Copy of the options
+     */
+    function _copyOptions(string[] storage source) private view returns (string[] memory) {
+        string[] memory copy = new string[](source.length);
+        for (uint256 i = 0; i < source.length; i++) {
+            copy[i] = source[i];
+        }
+        return copy;
+    }
+
+    /**
+     * @notice Copies encrypted totals or positions to memory.
+     * @param source Stored handles
+     * @return Copy of the handles
+     */
     function _copyEncryptedTotals(euint64[] storage source) private view returns (euint64[] memory) {
         euint64[] memory copy = new euint64[](source.length);
         for (uint256 i = 0; i < source.length; i++) {
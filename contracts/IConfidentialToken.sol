@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title IConfidentialToken
+ * @notice Subset of the ERC-7984 confidential fungible token interface used by `FHEPredictionMarket`.
+ * @dev Transfers never revert on insufficient balance; they move zero instead and return the encrypted amount
+ * actually transferred.
+ */
+interface IConfidentialToken {
+    /**
+     * @notice Emitted on every transfer, mints included.
+     * @param from Sender, zero for mints
+     * @param to Recipient
+     * @param amount Encrypted amount actually transferred
+     */
+    event ConfidentialTransfer(address indexed from, address indexed to, euint64 indexed amount);
+    /**
+     * @notice Emitted when a holder sets or revokes an operator.
+     * @param holder Token holder
+     * @param operator Account allowed to transfer on the holder's behalf
+     * @param until Timestamp the operator role expires at
+     */
+    event OperatorSet(address indexed holder, address indexed operator, uint48 until);
+
+    /**
+     * @notice Returns the encrypted balance of `account`.
+     * @param account Token holder
+     * @return Handle of the encrypted balance
+     */
+    function confidentialBalanceOf(address account) external view returns (euint64);
+
+    /**
+     * @notice Tells whether `spender` may transfer `holder`'s tokens, which a holder always may.
+     * @param holder Token holder
+     * @param spender Account to check
+     * @return Whether `spender` is `holder` or one of its unexpired operators
+     */
+    function isOperator(address holder, address spender) external view returns (bool);
+
+    /**
+     * @notice Lets `operator` transfer any amount of the caller's tokens until `until`.
+     * @param operator Account to authorize
+     * @param until Timestamp the role expires at, a past one revokes it
+     */
+    function setOperator(address operator, uint48 until) external;
+
+    /**
+     * @notice Transfers an amount encrypted by the caller to `to`.
+     * @param to Recipient
+     * @param encryptedAmount Encrypted amount
+     * @param inputProof Proof for `encryptedAmount`
+     * @return Encrypted amount actually transferred
+     */
+    function confidentialTransfer(
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint64);
+
+    /**
+     * @notice Transfers an encrypted amount the caller has access to to `to`.
+     * @param to Recipient
+     * @param amount Encrypted amount
+     * @return Encrypted amount actually transferred
+     */
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64);
+
+    /**
+     * @notice Transfers an encrypted amount from `from` to `to` as one of `from`'s operators.
+     * @param from Token holder
+     * @param to Recipient
+     * @param amount Encrypted amount the caller has access to
+     * @return Encrypted amount actually transferred
+     */
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64);
+}
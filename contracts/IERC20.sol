@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+/**
+ * @title IERC20
+ * @notice Subset of the ERC-20 interface used by `FHEPredictionMarket` and its clients for plain token collateral.
+ */
+interface IERC20 {
+    /**
+     * @notice Returns the token balance of `account`.
+     * @param account Token holder
+     * @return Balance in token units
+     */
+    function balanceOf(address account) external view returns (uint256);
+
+    /**
+     * @notice Returns how many tokens `spender` may still move out of `owner`'s balance with `transferFrom`.
+     * @param owner Token holder
+     * @param spender Approved account
+     * @return Remaining allowance in token units
+     */
+    function allowance(address owner, address spender) external view returns (uint256);
+
+    /**
+     * @notice Lets `spender` move up to `amount` of the caller's tokens, replacing any previous allowance.
+     * @param spender Approved account
+     * @param amount Allowance in token units
+     * @return Whether the approval succeeded
+     */
+    function approve(address spender, uint256 amount) external returns (bool);
+
+    /**
+     * @notice Moves `amount` tokens from the caller to `to`.
+     * @param to Recipient
+     * @param amount Amount in token units
+     * @return Whether the transfer succeeded
+     */
+    function transfer(address to, uint256 amount) external returns (bool);
+
+    /**
+     * @notice Moves `amount` tokens from `from` to `to` out of the caller's allowance.
+     * @param from Token holder
+     * @param to Recipient
+     * @param amount Amount in token units
+     * @return Whether the transfer succeeded
+     */
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+/**
+ * @title IPredictionResolver
+ * @notice Minimal interface for contracts that decide the outcome of a prediction.
+ * @dev A resolver contract can either call `resolvePrediction` on the market itself, or expose its answer
+ * through `getOutcome` so anyone can settle the prediction with `resolveFromOracle`.
+ */
+interface IPredictionResolver {
+    /**
+     * @notice Returns the outcome a resolver has settled on for a prediction.
+     * @param market Prediction market asking for the outcome
+     * @param predictionId Target prediction
+     * @return ready Whether an outcome is available
+     * @return winningOption 0-based index of the winning option, only meaningful when `ready` is true
+     */
+    function getOutcome(address market, uint256 predictionId) external view returns (bool ready, uint8 winningOption);
+}
@@ -0,0 +1,255 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {IPredictionResolver} from "./IPredictionResolver.sol";
+import {FHEPredictionMarket} from "./FHEPredictionMarket.sol";
+
+/**
+ * @title OptimisticResolver
+ * @notice Optimistic oracle meant to be used as the resolver of `FHEPredictionMarket` predictions.
+ * @dev Anyone can propose an outcome by posting a bond once betting has closed. The proposal is accepted unless
+ * someone disputes it within the challenge window by posting the same bond, in which case the arbitrator decides
+ * and the side that was right receives both bonds.
+ */
+contract OptimisticResolver is IPredictionResolver {
+    enum ProposalState {
+        None,
+        Proposed,
+        Disputed,
+        Settled
+    }
+
+    struct Proposal {
+        address proposer;
+        address disputer;
+        uint8 outcome;
+        uint256 proposedAt;
+        ProposalState state;
+    }
+
+    /// @notice Prediction market whose predictions this contract resolves
+    FHEPredictionMarket public immutable market;
+    /// @notice Address that settles disputed proposals
+    address public immutable arbitrator;
+    /// @notice ETH amount posted by proposers and disputers
+    uint256 public immutable bond;
+    /// @notice Seconds during which a proposal can be disputed
+    uint256 public immutable challengeWindow;
+
+    mapping(uint256 => Proposal) private _proposals;
+
+    /**
+     * @notice Emitted when an outcome is proposed for a prediction.
+     * @param predictionId Target prediction
+     * @param proposer Account that posted the bond
+     * @param outcome 0-based index of the proposed winning option
+     * @param challengeEndsAt Timestamp until which the proposal can be disputed
+     */
+    event OutcomeProposed(
+        uint256 indexed predictionId,
+        address indexed proposer,
+        uint8 outcome,
+        uint256 challengeEndsAt
+    );
+    /**
+     * @notice Emitted when a proposal is disputed.
+     * @param predictionId Target prediction
+     * @param disputer Account that posted the matching bond
+     */
+    event OutcomeDisputed(uint256 indexed predictionId, address indexed disputer);
+    /**
+     * @notice Emitted when an undisputed proposal is settled.
+     * @param predictionId Target prediction
+     * @param outcome 0-based index of the winning option
+     */
+    event ProposalFinalized(uint256 indexed predictionId, uint8 outcome);
+    /**
+     * @notice Emitted when the arbitrator settles a disputed proposal.
+     * @param predictionId Target prediction
+     * @param outcome 0-based index of the winning option decided by the arbitrator
+     * @param winner Proposer or disputer, who receives both bonds
+     */
+    event DisputeResolved(uint256 indexed predictionId, uint8 outcome, address indexed winner);
+
+    error InvalidConfiguration();
+    error InvalidBond();
+    error NotArbitrator();
+    error NotPredictionResolver();
+    error PredictionNotClosed();
+    error ProposalAlreadyExists();
+    error NoActiveProposal();
+    error NotDisputed();
+    error ChallengeWindowOpen();
+    error ChallengeWindowClosed();
+    error TransferFailed();
+
+    /**
+     * @notice Configures the resolver for one market.
+     * @param market_ Prediction market whose predictions this contract resolves
+     * @param arbitrator_ Address that settles disputed proposals
+     * @param bond_ ETH amount posted by proposers and disputers
+     * @param challengeWindow_ Seconds during which a proposal can be disputed
+     */
+    constructor(FHEPredictionMarket market_, address arbitrator_, uint256 bond_, uint256 challengeWindow_) {
+        if (address(market_) == address(0) || arbitrator_ == address(0) || bond_ == 0 || challengeWindow_ == 0) {
+            revert InvalidConfiguration();
+        }
+
+        market = market_;
+        arbitrator = arbitrator_;
+        bond = bond_;
+        challengeWindow = challengeWindow_;
+    }
+
+    /**
+     * @notice Proposes the winning option of a prediction whose betting has closed. Attach `bond` as msg.value.
+     * @param predictionId Target prediction
+     * @param outcome 0-based index of the proposed winning option
+     */
+    function proposeOutcome(uint256 predictionId, uint8 outcome) external payable {
+        if (msg.value != bond) {
+            revert InvalidBond();
+        }
+        if (_proposals[predictionId].state != ProposalState.None) {
+            revert ProposalAlreadyExists();
+        }
+
+        FHEPredictionMarket.PredictionSummary memory summary = market.getPredictionMetadata(predictionId);
+        if (summary.resolver != address(this)) {
+            revert NotPredictionResolver();
+        }
+        if (summary.state != FHEPredictionMarket.PredictionState.Closed) {
+            revert PredictionNotClosed();
+        }
+        if (outcome >= summary.options.length) {
+            revert FHEPredictionMarket.InvalidWinningOption();
+        }
+
+        _proposals[predictionId] = Proposal({
+            proposer: msg.sender,
+            disputer: address(0),
+            outcome: outcome,
+            proposedAt: block.timestamp,
+            state: ProposalState.Proposed
+        });
+
+        emit OutcomeProposed(predictionId, msg.sender, outcome, block.timestamp + challengeWindow);
+    }
+
+    /**
+     * @notice Disputes a pending proposal within the challenge window. Attach `bond` as msg.value.
+     * @param predictionId Target prediction
+     */
+    function disputeOutcome(uint256 predictionId) external payable {
+        Proposal storage proposal = _proposals[predictionId];
+        if (msg.value != bond) {
+            revert InvalidBond();
+        }
+        if (proposal.state != ProposalState.Proposed) {
+            revert NoActiveProposal();
+        }
+        if (block.timestamp >= proposal.proposedAt + challengeWindow) {
+            revert ChallengeWindowClosed();
+        }
+
+        proposal.disputer = msg.sender;
+        proposal.state = ProposalState.Disputed;
+
+        emit OutcomeDisputed(predictionId, msg.sender);
+    }
+
+    /**
+     * @notice Settles an undisputed proposal once its challenge window has passed and returns the proposer's bond.
+     * @dev Resolves the prediction on the market unless someone already did so through `resolveFromOracle`.
+     * @param predictionId Target prediction
+     */
+    function finalizeOutcome(uint256 predictionId) external {
+        Proposal storage proposal = _proposals[predictionId];
+        if (proposal.state != ProposalState.Proposed) {
+            revert NoActiveProposal();
+        }
+        if (block.timestamp < proposal.proposedAt + challengeWindow) {
+            revert ChallengeWindowOpen();
+        }
+
+        proposal.state = ProposalState.Settled;
+        _resolveMarket(predictionId, proposal.outcome);
+        _sendValue(proposal.proposer, bond);
+
+        emit ProposalFinalized(predictionId, proposal.outcome);
+    }
+
+    /**
+     * @notice Settles a disputed proposal. Only the arbitrator can call.
+     * @dev The proposer receives both bonds when the arbitrator upholds the proposed outcome, the disputer otherwise.
+     * @param predictionId Target prediction
+     * @param outcome 0-based index of the winning option decided by the arbitrator
+     */
+    function resolveDispute(uint256 predictionId, uint8 outcome) external {
+        if (msg.sender != arbitrator) {
+            revert NotArbitrator();
+        }
+
+        Proposal storage proposal = _proposals[predictionId];
+        if (proposal.state != ProposalState.Disputed) {
+            revert NotDisputed();
+        }
+
+        address winner = outcome == proposal.outcome ? proposal.proposer : proposal.disputer;
+        proposal.state = ProposalState.Settled;
+        proposal.outcome = outcome;
+        _resolveMarket(predictionId, outcome);
+        _sendValue(winner, bond * 2);
+
+        emit DisputeResolved(predictionId, outcome, winner);
+    }
+
+    /// @inheritdoc IPredictionResolver
+    function getOutcome(address market_, uint256 predictionId) external view returns (bool ready, uint8 winningOption) {
+        if (market_ != address(market)) {
+            return (false, 0);
+        }
+
+        Proposal storage proposal = _proposals[predictionId];
+        bool undisputed = proposal.state == ProposalState.Proposed &&
+            block.timestamp >= proposal.proposedAt + challengeWindow;
+        if (proposal.state == ProposalState.Settled || undisputed) {
+            return (true, proposal.outcome);
+        }
+        return (false, 0);
+    }
+
+    /**
+     * @notice Returns the proposal stored for a prediction.
+     * @param predictionId Target prediction
+     * @return Proposer, disputer, outcome, proposal time and state, all zero when nobody proposed yet
+     */
+    function getProposal(uint256 predictionId) external view returns (Proposal memory) {
+        return _proposals[predictionId];
+    }
+
+    /**
+     * @notice Resolves the prediction on the market with `outcome`, unless it is no longer closed.
+     * @param predictionId Target prediction
+     * @param outcome 0-based index of the winning option
+     */
+    function _resolveMarket(uint256 predictionId, uint8 outcome) private {
+        // Skip predictions already resolved through `resolveFromOracle` or cancelled past their deadline,
+        // so bonds can still be settled.
+        if (market.getPredictionState(predictionId) == FHEPredictionMarket.PredictionState.Closed) {
+            market.resolvePrediction(predictionId, outcome);
+        }
+    }
+
+    /**
+     * @notice Sends `amount` wei to `to`, reverting when the transfer fails.
+     * @param to Recipient
+     * @param amount Amount in wei
+     */
+    function _sendValue(address to, uint256 amount) private {
+        (bool sent, ) = payable(to).call{value: amount}("");
+        if (!sent) {
+            revert TransferFailed();
+        }
+    }
+}
@@ -0,0 +1,168 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint8, euint64, euint128} from "@fhevm/solidity/lib/FHE.sol";
+import {FHEPredictionMarket} from "./FHEPredictionMarket.sol";
+
+/**
+ * @title PredictionLedger
+ * @notice Storage bookkeeping of `FHEPredictionMarket`: prediction names, options and details, encrypted totals,
+ * positions, stake limits, balances, payouts and scores.
+ * @dev Linked into the market and delegatecalled on its storage, so every handle it creates or allows belongs to the
+ * market and `msg.sender` is the market's caller. The market validates its inputs first; this library only keeps
+ * the market under the 24 KiB contract size limit.
+ */
+library PredictionLedger {
+    /**
+     * @notice Stores the name and options of a new prediction, and opens its encrypted pool and one zero total per
+     * option.
+     * @param prediction Storage of the new prediction
+     * @param name Title of the prediction
+     * @param options Outcomes of the prediction
+     */
+    function open(
+        FHEPredictionMarket.Prediction storage prediction,
+        string memory name,
+        string[] memory options
+    ) external {
+        prediction.name = name;
+        prediction.encryptedPool = FHE.allowThis(FHE.asEuint64(0));
+        for (uint256 i = 0; i < options.length; i++) {
+            prediction.options.push(options[i]);
+            prediction.optionTotals.push(FHE.allowThis(FHE.asEuint64(0)));
+        }
+    }
+
+    /**
+     * @notice Stores the validated details of a prediction.
+     * @param prediction Storage of the prediction
+     * @param details Description, category, resolution criteria and source
+     */
+    function describe(
+        FHEPredictionMarket.Prediction storage prediction,
+        FHEPredictionMarket.PredictionDetails memory details
+    ) external {
+        prediction.details = details;
+    }
+
+    /**
+     * @notice Adds `amount` to the pool, to the total of the selected option and to the caller's position on it, and
+     * grants the caller access to the updated stake, positions and selection.
+     * @param prediction Storage of the prediction
+     * @param betInfo Storage of the caller's bet on it
+     * @param selection Encrypted 0-based index of the selected option
+     * @param amount Encrypted stake
+     */
+    function recordBet(
+        FHEPredictionMarket.Prediction storage prediction,
+        FHEPredictionMarket.BetInfo storage betInfo,
+        euint8 selection,
+        euint64 amount
+    ) external {
+        selection = FHE.allow(FHE.allowThis(selection), msg.sender);
+        amount = FHE.allow(FHE.allowThis(amount), msg.sender);
+        prediction.encryptedPool = FHE.allowThis(FHE.add(prediction.encryptedPool, amount));
+
+        bool isTopUp = betInfo.exists;
+        euint64 zeroAddition = FHE.allowThis(FHE.asEuint64(0));
+        for (uint256 i = 0; i < prediction.optionTotals.length; i++) {
+            euint64 addition = FHE.select(FHE.eq(selection, uint8(i)), amount, zeroAddition);
+            prediction.optionTotals[i] = FHE.allowThis(FHE.add(prediction.optionTotals[i], addition));
+
+            euint64 position = isTopUp ? FHE.add(betInfo.positions[i], addition) : addition;
+            position = FHE.allow(FHE.allowThis(position), msg.sender);
+            if (isTopUp) {
+                betInfo.positions[i] = position;
+            } else {
+                betInfo.positions.push(position);
+            }
+        }
+
+        euint64 totalStake = isTopUp ? FHE.add(betInfo.encryptedAmount, amount) : amount;
+        betInfo.encryptedAmount = FHE.allow(FHE.allowThis(totalStake), msg.sender);
+        betInfo.encryptedSelection = selection;
+    }
+
+    /**
+     * @notice Homomorphic counterpart of the market's clear bet limit check and of the pool cap: an encrypted amount
+     * outside the limits, or one that would push the pool over `maxPool`, becomes zero instead of revealing itself
+     * through a revert.
+     * @dev The pool never exceeds the cap, so the room left under it cannot underflow.
+     * @param prediction Storage of the prediction
+     * @param amount Encrypted stake
+     * @return Encrypted stake, zero when `amount` breaks the limits
+     */
+    function applyLimits(FHEPredictionMarket.Prediction storage prediction, euint64 amount) external returns (euint64) {
+        FHEPredictionMarket.BetLimits storage limits = prediction.limits;
+        euint64 zero = FHE.asEuint64(0);
+        if (limits.minBet != 0) {
+            amount = FHE.select(FHE.ge(amount, limits.minBet), amount, zero);
+        }
+        if (limits.maxBet != 0) {
+            amount = FHE.select(FHE.le(amount, limits.maxBet), amount, zero);
+        }
+        if (limits.maxPool != 0) {
+            euint64 room = FHE.sub(limits.maxPool, prediction.encryptedPool);
+            amount = FHE.select(FHE.le(amount, room), amount, zero);
+        }
+        return amount;
+    }
+
+    /**
+     * @notice Computes the winning share of a bet on a resolved prediction whose totals are published: its position
+     * on the winning option times the pool net of fees over the winning total, or the whole stake when nobody won.
+     * @param prediction Storage of the prediction
+     * @param betInfo Storage of the bet
+     * @return Encrypted payout
+     */
+    function payoutOf(
+        FHEPredictionMarket.Prediction storage prediction,
+        FHEPredictionMarket.BetInfo storage betInfo
+    ) external returns (euint64) {
+        if (prediction.clearWinningTotal == 0) {
+            return betInfo.encryptedAmount;
+        }
+        euint128 winningStake = FHE.asEuint128(betInfo.positions[prediction.winningOption]);
+        uint64 distributable = prediction.clearPool - prediction.protocolFee - prediction.creatorFee;
+        return FHE.asEuint64(FHE.div(FHE.mul(winningStake, distributable), prediction.clearWinningTotal));
+    }
+
+    /**
+     * @notice Adds `amount` to the caller's confidential balance.
+     * @param balances Confidential balances of the market
+     * @param amount Encrypted amount to credit
+     */
+    function credit(mapping(address => euint64) storage balances, euint64 amount) external {
+        balances[msg.sender] = FHE.allow(FHE.allowThis(FHE.add(balances[msg.sender], amount)), msg.sender);
+    }
+
+    /**
+     * @notice Takes `requested` from the caller's confidential balance, or nothing when it exceeds the balance.
+     * @param balances Confidential balances of the market
+     * @param requested Encrypted amount to take
+     * @return amount Encrypted amount taken
+     */
+    function debit(mapping(address => euint64) storage balances, euint64 requested) external returns (euint64 amount) {
+        euint64 balance = balances[msg.sender];
+        amount = FHE.select(FHE.le(requested, balance), requested, FHE.asEuint64(0));
+        balances[msg.sender] = FHE.allow(FHE.allowThis(FHE.sub(balance, amount)), msg.sender);
+    }
+
+    /**
+     * @notice Adds a claimed bet to the caller's score, keeping it publicly decryptable once revealed.
+     * @param score Storage of the caller's score
+     * @param stake Encrypted stake of the claimed bet
+     * @param payout Encrypted payout of the claimed bet
+     */
+    function recordScore(FHEPredictionMarket.Score storage score, euint64 stake, euint64 payout) external {
+        euint64 staked = FHE.allow(FHE.allowThis(FHE.add(score.staked, stake)), msg.sender);
+        euint64 returned = FHE.allow(FHE.allowThis(FHE.add(score.returned, payout)), msg.sender);
+        if (score.revealed) {
+            staked = FHE.makePubliclyDecryptable(staked);
+            returned = FHE.makePubliclyDecryptable(returned);
+        }
+        score.staked = staked;
+        score.returned = returned;
+        score.marketsClaimed++;
+    }
+}
@@ -0,0 +1,352 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHEPredictionMarket} from "./FHEPredictionMarket.sol";
+
+/**
+ * @title PredictionSeries
+ * @notice Recurring `FHEPredictionMarket` predictions spawned from a fixed template, such as a weekly
+ * "Will X ship by Friday?" market.
+ * @dev Every round is a regular prediction created by this contract, so the market lists this contract as its
+ * creator. A new round can be spawned once betting on the previous one has closed, by anyone or, when the series
+ * has a keeper, by the keeper and the series owner only. Rounds never charge a creator fee.
+ */
+contract PredictionSeries {
+    /// Parameters shared by every round of a series. Rounds close `bettingDuration` seconds after they are
+    /// spawned and must be resolved within `resolutionWindow` seconds of closing.
+    struct Template {
+        string name;
+        string[] options;
+        address resolver;
+        FHEPredictionMarket.CollateralType collateralType;
+        address collateralToken;
+        uint256 bettingDuration;
+        uint256 resolutionWindow;
+        FHEPredictionMarket.PredictionDetails details;
+        FHEPredictionMarket.BetLimits limits;
+    }
+
+    struct Series {
+        uint256 id;
+        Template template;
+        address owner;
+        address keeper;
+        uint256[] rounds;
+        uint256 nextRoundAt;
+        bool ended;
+    }
+
+    /// A series as returned by the views, its rounds being paged through with `getSeriesRounds`.
+    struct SeriesSummary {
+        uint256 id;
+        Template template;
+        address owner;
+        address keeper;
+        uint256 roundCount;
+        uint256 latestRound;
+        uint256 nextRoundAt;
+        bool ended;
+    }
+
+    /// @notice Prediction market the rounds are created on
+    FHEPredictionMarket public immutable market;
+
+    uint256 private _nextSeriesId = 1;
+    mapping(uint256 => Series) private _series;
+    // Prediction id => id of the series it is a round of, zero for predictions created outside a series.
+    mapping(uint256 => uint256) private _roundSeries;
+    // Prediction id => 1-based number of the round within its series.
+    mapping(uint256 => uint256) private _roundNumbers;
+
+    /**
+     * @notice Emitted when a series is created.
+     * @param seriesId Id of the new series
+     * @param owner Account that created it
+     * @param name Name shared by its rounds
+     */
+    event SeriesCreated(uint256 indexed seriesId, address indexed owner, string name);
+    /**
+     * @notice Emitted when a round of a series is spawned on the market.
+     * @param seriesId Target series
+     * @param predictionId Id of the round on the market
+     * @param round 1-based number of the round within the series
+     */
+    event RoundSpawned(uint256 indexed seriesId, uint256 indexed predictionId, uint256 round);
+    /**
+     * @notice Emitted when the keeper of a series is set or cleared.
+     * @param seriesId Target series
+     * @param keeper New keeper, zero when anyone can spawn rounds
+     */
+    event KeeperUpdated(uint256 indexed seriesId, address indexed keeper);
+    /**
+     * @notice Emitted when a series stops spawning rounds.
+     * @param seriesId Target series
+     */
+    event SeriesEnded(uint256 indexed seriesId);
+
+    error InvalidConfiguration();
+    error InvalidSeries();
+    error NotSeriesOwner();
+    error NotKeeper();
+    error SeriesNotActive();
+    error RoundStillOpen();
+
+    /**
+     * @notice Binds the series to the market their rounds are created on.
+     * @param market_ Prediction market the rounds are created on
+     */
+    constructor(FHEPredictionMarket market_) {
+        if (address(market_) == address(0)) {
+            revert InvalidConfiguration();
+        }
+
+        market = market_;
+    }
+
+    /**
+     * @notice Creates a series owned by the caller and spawns its first round.
+     * @dev The template is validated by the market when the first round is created, with the rules of
+     * `FHEPredictionMarket.createPrediction`.
+     * @param template Round parameters; a zero resolver makes the caller the resolver of every round
+     * @param keeper Only address besides the owner allowed to spawn rounds, or zero to let anyone spawn them
+     * @return seriesId Id of the new series
+     */
+    function createSeries(Template memory template, address keeper) external returns (uint256 seriesId) {
+        if (template.resolver == address(0)) {
+            template.resolver = msg.sender;
+        }
+
+        seriesId = _nextSeriesId++;
+        Series storage series = _series[seriesId];
+        series.id = seriesId;
+        series.template = template;
+        series.owner = msg.sender;
+        series.keeper = keeper;
+
+        emit SeriesCreated(seriesId, msg.sender, template.name);
+        if (keeper != address(0)) {
+            emit KeeperUpdated(seriesId, keeper);
+        }
+        _spawnRound(seriesId, series);
+    }
+
+    /**
+     * @notice Spawns the next round of a series once betting on the previous round has closed.
+     * @param seriesId Target series
+     * @return predictionId Id of the new round on the market
+     */
+    function spawnRound(uint256 seriesId) external returns (uint256 predictionId) {
+        Series storage series = _getSeries(seriesId);
+        if (series.keeper != address(0) && msg.sender != series.keeper && msg.sender != series.owner) {
+            revert NotKeeper();
+        }
+        if (block.timestamp < series.nextRoundAt) {
+            revert RoundStillOpen();
+        }
+
+        predictionId = _spawnRound(seriesId, series);
+    }
+
+    /**
+     * @notice Sets or clears the keeper of a series. Only the series owner can call.
+     * @param seriesId Target series
+     * @param keeper New keeper, or zero to let anyone spawn rounds
+     */
+    function setKeeper(uint256 seriesId, address keeper) external {
+        Series storage series = _ownedSeries(seriesId);
+        series.keeper = keeper;
+        emit KeeperUpdated(seriesId, keeper);
+    }
+
+    /**
+     * @notice Stops a series from spawning new rounds. Rounds already spawned run their course. Only the series
+     * owner can call.
+     * @param seriesId Target series
+     */
+    function endSeries(uint256 seriesId) external {
+        Series storage series = _ownedSeries(seriesId);
+        if (series.ended) {
+            revert SeriesNotActive();
+        }
+
+        series.ended = true;
+        emit SeriesEnded(seriesId);
+    }
+
+    /**
+     * @notice Cancels a round on the market while betting on it is open. Only the owner of its series can call.
+     * @dev Cancelling the latest round lets the next one be spawned right away.
+     * @param predictionId Target round
+     */
+    function cancelRound(uint256 predictionId) external {
+        uint256 seriesId = _roundSeries[predictionId];
+        Series storage series = _ownedSeries(seriesId);
+
+        market.cancelPrediction(predictionId);
+        if (predictionId == series.rounds[series.rounds.length - 1]) {
+            series.nextRoundAt = block.timestamp;
+        }
+    }
+
+    /**
+     * @notice Returns a series with its template, the number of its rounds and the prediction id of the latest one.
+     * @param seriesId Target series
+     * @return Summary of the series
+     */
+    function getSeries(uint256 seriesId) external view returns (SeriesSummary memory) {
+        return _summarize(_getSeries(seriesId));
+    }
+
+    /**
+     * @notice Pages through the series, oldest first.
+     * @param offset Number of series to skip
+     * @param limit Maximum number of series to return
+     * @return page Summaries of the requested window
+     * @return total Number of series created so far
+     */
+    function listSeries(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (SeriesSummary[] memory page, uint256 total) {
+        total = _nextSeriesId - 1;
+        uint256 end = _windowEnd(total, offset, limit);
+        page = new SeriesSummary[](end > offset ? end - offset : 0);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = _summarize(_series[i + 1]);
+        }
+    }
+
+    /**
+     * @notice Pages through the prediction ids of the rounds of a series, oldest first.
+     * @param seriesId Target series
+     * @param offset Number of rounds to skip
+     * @param limit Maximum number of rounds to return
+     * @return page Prediction ids of the requested window
+     * @return total Number of rounds spawned so far
+     */
+    function getSeriesRounds(
+        uint256 seriesId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory page, uint256 total) {
+        uint256[] storage rounds = _getSeries(seriesId).rounds;
+        total = rounds.length;
+        uint256 end = _windowEnd(total, offset, limit);
+        page = new uint256[](end > offset ? end - offset : 0);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = rounds[i];
+        }
+    }
+
+    /**
+     * @notice Returns the number of series created so far.
+     * @return Number of series, which are numbered from 1
+     */
+    function getSeriesCount() external view returns (uint256) {
+        return _nextSeriesId - 1;
+    }
+
+    /**
+     * @notice Returns the id of the series a prediction is a round of and its 1-based round number, or zeros when it
+     * is not part of a series.
+     * @param predictionId Target prediction
+     * @return seriesId Id of the series, zero outside a series
+     * @return round 1-based round number, zero outside a series
+     */
+    function seriesOf(uint256 predictionId) external view returns (uint256 seriesId, uint256 round) {
+        return (_roundSeries[predictionId], _roundNumbers[predictionId]);
+    }
+
+    /**
+     * @notice Creates the next round of an active series on the market from its template.
+     * @param seriesId Target series
+     * @param series Storage of the series
+     * @return predictionId Id of the new round on the market
+     */
+    function _spawnRound(uint256 seriesId, Series storage series) private returns (uint256 predictionId) {
+        if (series.ended) {
+            revert SeriesNotActive();
+        }
+
+        Template storage template = series.template;
+        uint256 bettingClosesAt = block.timestamp + template.bettingDuration;
+        predictionId = market.createPrediction(
+            template.name,
+            template.options,
+            bettingClosesAt,
+            bettingClosesAt + template.resolutionWindow,
+            template.resolver,
+            template.collateralType,
+            template.collateralToken,
+            0,
+            template.details,
+            template.limits
+        );
+
+        series.rounds.push(predictionId);
+        series.nextRoundAt = bettingClosesAt;
+        _roundSeries[predictionId] = seriesId;
+        _roundNumbers[predictionId] = series.rounds.length;
+
+        emit RoundSpawned(seriesId, predictionId, series.rounds.length);
+    }
+
+    /**
+     * @notice Returns the storage of an existing series, reverting for unknown ids.
+     * @param seriesId Target series
+     * @return series Storage of the series
+     */
+    function _getSeries(uint256 seriesId) private view returns (Series storage series) {
+        series = _series[seriesId];
+        if (series.id == 0) {
+            revert InvalidSeries();
+        }
+    }
+
+    /**
+     * @notice Builds the view of a series returned by `getSeries` and `listSeries`.
+     * @param series Storage of the series
+     * @return Summary of the series
+     */
+    function _summarize(Series storage series) private view returns (SeriesSummary memory) {
+        uint256 roundCount = series.rounds.length;
+        return
+            SeriesSummary(
+                series.id,
+                series.template,
+                series.owner,
+                series.keeper,
+                roundCount,
+                roundCount == 0 ? 0 : series.rounds[roundCount - 1],
+                series.nextRoundAt,
+                series.ended
+            );
+    }
+
+    /**
+     * @notice Returns the exclusive end of the `[offset, offset + limit)` window clamped to `length`, or `offset`
+     * when the window starts past the end.
+     * @param length Number of items
+     * @param offset Start of the window
+     * @param limit Maximum size of the window
+     * @return Exclusive end of the window
+     */
+    function _windowEnd(uint256 length, uint256 offset, uint256 limit) private pure returns (uint256) {
+        if (offset >= length) {
+            return offset;
+        }
+        return length - offset < limit ? length : offset + limit;
+    }
+
+    /**
+     * @notice Returns the storage of an existing series, reverting unless the caller owns it.
+     * @param seriesId Target series
+     * @return series Storage of the series
+     */
+    function _ownedSeries(uint256 seriesId) private view returns (Series storage series) {
+        series = _getSeries(seriesId);
+        if (msg.sender != series.owner) {
+            revert NotSeriesOwner();
+        }
+    }
+}
@@ -0,0 +1,143 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, ebool, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IConfidentialToken} from "../IConfidentialToken.sol";
+
+/**
+ * @title MockConfidentialToken
+ * @notice Minimal ERC-7984 style token for tests and local networks. Anyone can mint.
+ */
+contract MockConfidentialToken is IConfidentialToken, ZamaEthereumConfig {
+    /// @notice Token name
+    string public name;
+    /// @notice Token symbol
+    string public symbol;
+    /// @notice Decimals of token amounts
+    uint8 public constant decimals = 6;
+
+    mapping(address => euint64) private _balances;
+    mapping(address => mapping(address => uint48)) private _operators;
+
+    error UnauthorizedSpender(address holder, address spender);
+    error UnauthorizedUseOfEncryptedAmount(euint64 amount, address user);
+    error InvalidReceiver();
+
+    /**
+     * @notice Creates the token with an empty supply.
+     * @param name_ Token name
+     * @param symbol_ Token symbol
+     */
+    constructor(string memory name_, string memory symbol_) {
+        name = name_;
+        symbol = symbol_;
+    }
+
+    /**
+     * @notice Mints a clear amount to `to`.
+     * @param to Recipient
+     * @param amount Amount in token units
+     */
+    function mint(address to, uint64 amount) external {
+        _update(address(0), to, FHE.asEuint64(amount));
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp <= _operators[holder][spender];
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function setOperator(address operator, uint48 until) external {
+        _operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function confidentialTransfer(
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint64) {
+        return _transfer(msg.sender, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64) {
+        if (!FHE.isAllowed(amount, msg.sender)) {
+            revert UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        }
+        return _transfer(msg.sender, to, amount);
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64) {
+        if (!FHE.isAllowed(amount, msg.sender)) {
+            revert UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        }
+        if (!isOperator(from, msg.sender)) {
+            revert UnauthorizedSpender(from, msg.sender);
+        }
+        return _transfer(from, to, amount);
+    }
+
+    /**
+     * @notice Transfers `amount` from `from` to `to` and lets the caller read the amount transferred.
+     * @param from Sender
+     * @param to Recipient, never zero
+     * @param amount Encrypted amount to transfer
+     * @return transferred Encrypted amount actually transferred
+     */
+    function _transfer(address from, address to, euint64 amount) private returns (euint64 transferred) {
+        if (to == address(0)) {
+            revert InvalidReceiver();
+        }
+
+        transferred = _update(from, to, amount);
+        FHE.allowTransient(transferred, msg.sender);
+    }
+
+    /**
+     * @notice Moves `amount`, or zero when `from` holds less, between balances. A zero `from` mints.
+     * @param from Sender, zero for mints
+     * @param to Recipient
+     * @param amount Encrypted amount to move
+     * @return transferred Encrypted amount actually moved, readable by both parties
+     */
+    function _update(address from, address to, euint64 amount) private returns (euint64 transferred) {
+        if (from == address(0)) {
+            transferred = amount;
+        } else {
+            euint64 fromBalance = _balances[from];
+            ebool hasFunds = FHE.le(amount, fromBalance);
+            transferred = FHE.select(hasFunds, amount, FHE.asEuint64(0));
+            _setBalance(from, FHE.sub(fromBalance, transferred));
+        }
+
+        _setBalance(to, FHE.add(_balances[to], transferred));
+
+        transferred = FHE.allowThis(transferred);
+        if (from != address(0)) {
+            transferred = FHE.allow(transferred, from);
+        }
+        transferred = FHE.allow(transferred, to);
+        emit ConfidentialTransfer(from, to, transferred);
+    }
+
+    /**
+     * @notice Stores the new balance of `account`, readable by the token and the account.
+     * @param account Token holder
+     * @param balance New encrypted balance
+     */
+    function _setBalance(address account, euint64 balance) private {
+        balance = FHE.allowThis(balance);
+        balance = FHE.allow(balance, account);
+        _balances[account] = balance;
+    }
+}
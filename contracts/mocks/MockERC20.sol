@@ -0,0 +1,98 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {IERC20} from "../IERC20.sol";
+
+/**
+ * @title MockERC20
+ * @notice Minimal ERC-20 token for tests and local networks. Anyone can mint.
+ */
+contract MockERC20 is IERC20 {
+    /// @notice Token name
+    string public name;
+    /// @notice Token symbol
+    string public symbol;
+    /// @notice Decimals of token amounts, like USDC
+    uint8 public constant decimals = 6;
+
+    /// @notice Token balance of every holder
+    mapping(address => uint256) public balanceOf;
+    /// @notice Remaining allowance of every spender over every holder's tokens
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    /**
+     * @notice Emitted on every transfer, mints included.
+     * @param from Sender, zero for mints
+     * @param to Recipient
+     * @param value Amount in token units
+     */
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    /**
+     * @notice Emitted when a holder sets an allowance.
+     * @param owner Token holder
+     * @param spender Approved account
+     * @param value New allowance in token units
+     */
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+
+    error InsufficientBalance();
+    error InsufficientAllowance();
+
+    /**
+     * @notice Creates the token with an empty supply.
+     * @param name_ Token name
+     * @param symbol_ Token symbol
+     */
+    constructor(string memory name_, string memory symbol_) {
+        name = name_;
+        symbol = symbol_;
+    }
+
+    /**
+     * @notice Mints `amount` tokens to `to`.
+     * @param to Recipient
+     * @param amount Amount in token units
+     */
+    function mint(address to, uint256 amount) external {
+        balanceOf[to] += amount;
+        emit Transfer(address(0), to, amount);
+    }
+
+    /// @inheritdoc IERC20
+    function approve(address spender, uint256 amount) external returns (bool) {
+        allowance[msg.sender][spender] = amount;
+        emit Approval(msg.sender, spender, amount);
+        return true;
+    }
+
+    /// @inheritdoc IERC20
+    function transfer(address to, uint256 amount) external returns (bool) {
+        _transfer(msg.sender, to, amount);
+        return true;
+    }
+
+    /// @inheritdoc IERC20
+    function transferFrom(address from, address to, uint256 amount) external returns (bool) {
+        if (allowance[from][msg.sender] < amount) {
+            revert InsufficientAllowance();
+        }
+        allowance[from][msg.sender] -= amount;
+        _transfer(from, to, amount);
+        return true;
+    }
+
+    /**
+     * @notice Moves `amount` tokens from `from` to `to`, reverting when `from` holds fewer.
+     * @param from Sender
+     * @param to Recipient
+     * @param amount Amount in token units
+     */
+    function _transfer(address from, address to, uint256 amount) private {
+        if (balanceOf[from] < amount) {
+            revert InsufficientBalance();
+        }
+        balanceOf[from] -= amount;
+        balanceOf[to] += amount;
+        emit Transfer(from, to, amount);
+    }
+}
@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {IPredictionResolver} from "../IPredictionResolver.sol";
+import {FHEPredictionMarket} from "../FHEPredictionMarket.sol";
+
+/**
+ * @title MockPredictionOracle
+ * @notice Test oracle whose owner reports outcomes by hand. Supports both the pull flow (`getOutcome`) and
+ * the push flow (`pushOutcome` calls `resolvePrediction` on the market).
+ */
+contract MockPredictionOracle is IPredictionResolver {
+    struct Outcome {
+        bool ready;
+        uint8 winningOption;
+    }
+
+    /// @notice Account allowed to report outcomes
+    address public immutable owner;
+    mapping(address => mapping(uint256 => Outcome)) private _outcomes;
+
+    /**
+     * @notice Emitted when the owner reports an outcome.
+     * @param market Prediction market the prediction lives on
+     * @param predictionId Target prediction
+     * @param winningOption 0-based index of the winning option
+     */
+    event OutcomeReported(address indexed market, uint256 indexed predictionId, uint8 winningOption);
+
+    error NotOwner();
+    error OutcomeNotReported();
+
+    /// @notice Makes the deployer the owner.
+    constructor() {
+        owner = msg.sender;
+    }
+
+    /**
+     * @notice Records the winning option for a prediction on a given market.
+     * @param market Prediction market the prediction lives on
+     * @param predictionId Target prediction
+     * @param winningOption 0-based index of the winning option
+     */
+    function setOutcome(address market, uint256 predictionId, uint8 winningOption) external {
+        if (msg.sender != owner) {
+            revert NotOwner();
+        }
+
+        _outcomes[market][predictionId] = Outcome({ready: true, winningOption: winningOption});
+        emit OutcomeReported(market, predictionId, winningOption);
+    }
+
+    /**
+     * @notice Resolves the prediction on the market with the reported outcome, acting as its resolver.
+     * @param market Prediction market the prediction lives on
+     * @param predictionId Target prediction
+     */
+    function pushOutcome(address market, uint256 predictionId) external {
+        Outcome memory outcome = _outcomes[market][predictionId];
+        if (!outcome.ready) {
+            revert OutcomeNotReported();
+        }
+
+        FHEPredictionMarket(market).resolvePrediction(predictionId, outcome.winningOption);
+    }
+
+    /// @inheritdoc IPredictionResolver
+    function getOutcome(address market, uint256 predictionId) external view returns (bool ready, uint8 winningOption) {
+        Outcome memory outcome = _outcomes[market][predictionId];
+        return (outcome.ready, outcome.winningOption);
+    }
+}
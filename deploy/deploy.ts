@@ -5,13 +5,67 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
   const { deploy } = hre.deployments;
 
+  const deployedLedger = await deploy("PredictionLedger", {
+    from: deployer,
+    log: true,
+  });
+
   const deployedPredictionMarket = await deploy("FHEPredictionMarket", {
     from: deployer,
     args: [],
+    libraries: { PredictionLedger: deployedLedger.address },
     log: true,
   });
 
   console.log(`FHEPredictionMarket contract: `, deployedPredictionMarket.address);
+
+  const deployedResolver = await deploy("OptimisticResolver", {
+    from: deployer,
+    args: [deployedPredictionMarket.address, deployer, hre.ethers.parseEther("0.01"), 24 * 60 * 60],
+    log: true,
+  });
+
+  console.log(`OptimisticResolver contract: `, deployedResolver.address);
+
+  const deployedSeries = await deploy("PredictionSeries", {
+    from: deployer,
+    args: [deployedPredictionMarket.address],
+    log: true,
+  });
+
+  console.log(`PredictionSeries contract: `, deployedSeries.address);
+
+  if (hre.network.name === "hardhat" || hre.network.name === "localhost") {
+    const deployedOracle = await deploy("MockPredictionOracle", {
+      from: deployer,
+      args: [],
+      log: true,
+    });
+
+    console.log(`MockPredictionOracle contract: `, deployedOracle.address);
+
+    const deployedToken = await deploy("MockConfidentialToken", {
+      from: deployer,
+      args: ["Mock Confidential USD", "cUSD"],
+      log: true,
+    });
+
+    console.log(`MockConfidentialToken contract: `, deployedToken.address);
+
+    const deployedErc20 = await deploy("MockERC20", {
+      from: deployer,
+      args: ["Mock USD", "mUSD"],
+      log: true,
+    });
+
+    console.log(`MockERC20 contract: `, deployedErc20.address);
+  }
+
+  // Keep the frontend ABI and per-chain addresses in sync with what was just deployed. Deployments to the in-process
+  // network, such as test fixtures, are gone once the command exits and leave the generated file alone.
+  if (hre.network.name !== "hardhat") {
+    await hre.run("task:export-frontend");
+  }
 };
 export default func;
 func.id = "deploy_prediction_market"; // id required to prevent reexecution
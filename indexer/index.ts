@@ -0,0 +1,5 @@
+export { createIndexer } from "./indexer";
+export type { Indexer, IndexerOptions } from "./indexer";
+export { createApiServer } from "./server";
+export { createIndexerStore } from "./store";
+export type { IndexedEvent, IndexedMarket, IndexerStore, MarketStatus } from "./store";
@@ -0,0 +1,126 @@
+import { Interface } from "ethers";
+import type { InterfaceAbi, Provider } from "ethers";
+import type { IndexedEvent, IndexerStore } from "./store";
+
+const DEFAULT_BATCH_SIZE = 2_000;
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+
+export type IndexerOptions = {
+  provider: Provider;
+  /** Address of the `FHEPredictionMarket` deployment to follow. */
+  contractAddress: string;
+  /** ABI of the market, e.g. from its hardhat-deploy deployment or compilation artifact. */
+  abi: InterfaceAbi;
+  store: IndexerStore;
+  /** First block to index when the store is empty, usually the deployment block. */
+  startBlock?: number;
+  /** Maximum block range requested per `eth_getLogs` call. */
+  batchSize?: number;
+  /** Blocks to stay behind the head, so short reorgs never reach the store. */
+  confirmations?: number;
+  onError?: (error: unknown) => void;
+};
+
+export type Indexer = ReturnType<typeof createIndexer>;
+
+/**
+ * Follows `FHEPredictionMarket` events from `startBlock` onwards and persists them to `store`, resuming from the last
+ * stored block after a restart.
+ */
+export function createIndexer({
+  provider,
+  contractAddress,
+  abi,
+  store,
+  startBlock = 0,
+  batchSize = DEFAULT_BATCH_SIZE,
+  confirmations = 0,
+  onError = console.error,
+}: IndexerOptions) {
+  const marketInterface = new Interface(abi);
+  let timer: NodeJS.Timeout | undefined;
+  let syncing: Promise<number> | undefined;
+
+  const fetchEvents = async (fromBlock: number, toBlock: number): Promise<IndexedEvent[]> => {
+    const logs = await provider.getLogs({ address: contractAddress, fromBlock, toBlock });
+    const timestamps = new Map<number, number>();
+    const events: IndexedEvent[] = [];
+
+    for (const log of logs) {
+      const parsed = marketInterface.parseLog(log);
+      if (!parsed) {
+        continue;
+      }
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+      }
+
+      const args: IndexedEvent["args"] = {};
+      parsed.fragment.inputs.forEach((input, i) => {
+        const value = parsed.args[i];
+        args[input.name] = typeof value === "boolean" ? value : String(value);
+      });
+      // Every event names the account it concerns `user`, except the creator of a prediction.
+      const account = (args.user ?? args.creator) as string | undefined;
+
+      events.push({
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+        txHash: log.transactionHash,
+        timestamp: timestamps.get(log.blockNumber) ?? 0,
+        name: parsed.name,
+        predictionId: args.predictionId === undefined ? null : Number(args.predictionId),
+        account: account ? account.toLowerCase() : null,
+        args,
+      });
+    }
+    return events;
+  };
+
+  const runSync = async (): Promise<number> => {
+    const head = (await provider.getBlockNumber()) - confirmations;
+    let fromBlock = (store.lastBlock() ?? startBlock - 1) + 1;
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + batchSize - 1, head);
+      const events = await fetchEvents(fromBlock, toBlock);
+      const block = await provider.getBlock(toBlock);
+      store.saveBatch(events, toBlock, block?.timestamp ?? 0);
+      fromBlock = toBlock + 1;
+    }
+    return fromBlock - 1;
+  };
+
+  /** Indexes every confirmed block not stored yet and returns the last indexed block. */
+  const sync = (): Promise<number> => {
+    syncing ??= runSync().finally(() => {
+      syncing = undefined;
+    });
+    return syncing;
+  };
+
+  /** Polls for new blocks every `intervalMs` until `stop` is called. */
+  const start = (intervalMs = DEFAULT_POLL_INTERVAL_MS) => {
+    if (timer) {
+      return;
+    }
+    const poll = async () => {
+      try {
+        await sync();
+      } catch (error) {
+        onError(error);
+      }
+      if (timer) {
+        timer = setTimeout(poll, intervalMs);
+      }
+    };
+    timer = setTimeout(poll, 0);
+  };
+
+  const stop = () => {
+    clearTimeout(timer);
+    timer = undefined;
+  };
+
+  return { sync, start, stop };
+}
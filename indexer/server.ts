@@ -0,0 +1,90 @@
+import * as http from "http";
+import type { IndexerStore } from "./store";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function readInteger(params: URLSearchParams, name: string, fallback: number, max = Number.MAX_SAFE_INTEGER) {
+  const raw = params.get(name);
+  if (raw === null) {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new HttpError(400, `${name} must be a non-negative integer`);
+  }
+  return Math.min(value, max);
+}
+
+function route(store: IndexerStore, url: URL): unknown {
+  const segments = url.pathname.split("/").filter((segment) => segment.length > 0);
+  const params = url.searchParams;
+
+  // GET /status
+  if (segments.length === 1 && segments[0] === "status") {
+    return { lastBlock: store.lastBlock() };
+  }
+
+  // GET /markets?offset=&limit=
+  if (segments.length === 1 && segments[0] === "markets") {
+    const offset = readInteger(params, "offset", 0);
+    const limit = readInteger(params, "limit", DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    return store.listMarkets(offset, limit);
+  }
+
+  // GET /markets/:id and GET /markets/:id/bets
+  if (segments[0] === "markets" && (segments.length === 2 || (segments.length === 3 && segments[2] === "bets"))) {
+    const id = Number(segments[1]);
+    const market = Number.isInteger(id) ? store.getMarket(id) : null;
+    if (!market) {
+      throw new HttpError(404, `Market ${segments[1]} is not indexed`);
+    }
+    return segments.length === 2
+      ? market
+      : { predictionId: market.id, betCount: market.betCount, bettorCount: market.bettorCount };
+  }
+
+  // GET /activity/:address?limit=
+  if (segments.length === 2 && segments[0] === "activity") {
+    if (!ADDRESS.test(segments[1])) {
+      throw new HttpError(400, `${segments[1]} is not an address`);
+    }
+    const limit = readInteger(params, "limit", DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    return { address: segments[1], activity: store.getActivity(segments[1], limit) };
+  }
+
+  throw new HttpError(404, `No route for ${url.pathname}`);
+}
+
+/** Creates the read-only JSON API over an indexer store. Call `listen` on the returned server to start it. */
+export function createApiServer(store: IndexerStore): http.Server {
+  return http.createServer((request, response) => {
+    let status = 200;
+    let body: unknown;
+    try {
+      if (request.method !== "GET") {
+        throw new HttpError(405, `${request.method} is not supported`);
+      }
+      body = route(store, new URL(request.url ?? "/", "http://localhost"));
+    } catch (error) {
+      status = error instanceof HttpError ? error.status : 500;
+      body = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    response.writeHead(status, {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+    });
+    response.end(JSON.stringify(body));
+  });
+}
@@ -0,0 +1,274 @@
+import Database from "better-sqlite3";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sync_state (
+    id INTEGER PRIMARY KEY CHECK (id = 0),
+    last_block INTEGER NOT NULL,
+    last_timestamp INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS markets (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    creator TEXT NOT NULL,
+    resolver TEXT NOT NULL,
+    option_count INTEGER NOT NULL,
+    betting_closes_at INTEGER NOT NULL,
+    resolution_deadline INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    created_block INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    totals_revealed INTEGER NOT NULL DEFAULT 0,
+    winning_option INTEGER,
+    cancelled INTEGER NOT NULL DEFAULT 0,
+    hidden INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    prediction_id INTEGER,
+    account TEXT,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_prediction ON events (prediction_id, name);
+  CREATE INDEX IF NOT EXISTS events_by_account ON events (account, block_number DESC, log_index DESC);
+`;
+
+/** A decoded `FHEPredictionMarket` log, `args` holds its named arguments with integers as decimal strings. */
+export type IndexedEvent = {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  timestamp: number;
+  name: string;
+  predictionId: number | null;
+  account: string | null;
+  args: Record<string, string | boolean>;
+};
+
+/** Mirrors `FHEPredictionMarket.PredictionState`, including the automatic cancellation past the resolution deadline. */
+export type MarketStatus = "open" | "closed" | "resolved" | "cancelled";
+
+export type IndexedMarket = {
+  id: number;
+  name: string;
+  creator: string;
+  resolver: string;
+  optionCount: number;
+  bettingClosesAt: number;
+  resolutionDeadline: number;
+  createdAt: number;
+  createdBlock: number;
+  txHash: string;
+  totalsRevealed: boolean;
+  winningOption: number | null;
+  status: MarketStatus;
+  /** Number of `BetPlaced` events, top-ups included. */
+  betCount: number;
+  bettorCount: number;
+};
+
+type MarketRow = {
+  id: number;
+  name: string;
+  creator: string;
+  resolver: string;
+  option_count: number;
+  betting_closes_at: number;
+  resolution_deadline: number;
+  created_at: number;
+  created_block: number;
+  tx_hash: string;
+  totals_revealed: number;
+  winning_option: number | null;
+  cancelled: number;
+  hidden: number;
+  bet_count: number;
+  bettor_count: number;
+};
+
+type EventRow = {
+  block_number: number;
+  log_index: number;
+  tx_hash: string;
+  timestamp: number;
+  name: string;
+  prediction_id: number | null;
+  account: string | null;
+  args: string;
+};
+
+const MARKET_COLUMNS = `
+  markets.*,
+  (SELECT COUNT(*) FROM events WHERE prediction_id = markets.id AND name = 'BetPlaced') AS bet_count,
+  (SELECT COUNT(DISTINCT account) FROM events WHERE prediction_id = markets.id AND name = 'BetPlaced') AS bettor_count
+`;
+
+// Closing and lapsing past the resolution deadline emit no event, so they are read from the stored timestamps.
+function marketStatus(row: MarketRow, now: number): MarketStatus {
+  if (row.cancelled === 1) {
+    return "cancelled";
+  }
+  if (row.winning_option !== null) {
+    return "resolved";
+  }
+  if (now > row.resolution_deadline) {
+    return "cancelled";
+  }
+  return now >= row.betting_closes_at ? "closed" : "open";
+}
+
+function toMarket(row: MarketRow, now: number): IndexedMarket {
+  return {
+    id: row.id,
+    name: row.name,
+    creator: row.creator,
+    resolver: row.resolver,
+    optionCount: row.option_count,
+    bettingClosesAt: row.betting_closes_at,
+    resolutionDeadline: row.resolution_deadline,
+    createdAt: row.created_at,
+    createdBlock: row.created_block,
+    txHash: row.tx_hash,
+    totalsRevealed: row.totals_revealed === 1,
+    winningOption: row.winning_option,
+    status: marketStatus(row, now),
+    betCount: row.bet_count,
+    bettorCount: row.bettor_count,
+  };
+}
+
+function toEvent(row: EventRow): IndexedEvent {
+  return {
+    blockNumber: row.block_number,
+    logIndex: row.log_index,
+    txHash: row.tx_hash,
+    timestamp: row.timestamp,
+    name: row.name,
+    predictionId: row.prediction_id,
+    account: row.account,
+    args: JSON.parse(row.args) as IndexedEvent["args"],
+  };
+}
+
+export type IndexerStore = ReturnType<typeof createIndexerStore>;
+
+/**
+ * Opens (or creates) the SQLite database holding indexed markets and events. Pass `":memory:"` for a throwaway store.
+ */
+export function createIndexerStore(filename: string) {
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  const insertEvent = db.prepare(`
+    INSERT OR IGNORE INTO events (block_number, log_index, tx_hash, timestamp, name, prediction_id, account, args)
+    VALUES (@blockNumber, @logIndex, @txHash, @timestamp, @name, @predictionId, @account, @args)
+  `);
+  const insertMarket = db.prepare(`
+    INSERT OR IGNORE INTO markets (
+      id, name, creator, resolver, option_count, betting_closes_at, resolution_deadline, created_at, created_block, tx_hash
+    ) VALUES (
+      @id, @name, @creator, @resolver, @optionCount, @bettingClosesAt, @resolutionDeadline, @createdAt, @createdBlock,
+      @txHash
+    )
+  `);
+  const revealTotals = db.prepare("UPDATE markets SET totals_revealed = 1 WHERE id = ?");
+  const resolveMarket = db.prepare("UPDATE markets SET winning_option = ? WHERE id = ?");
+  const cancelMarket = db.prepare("UPDATE markets SET cancelled = 1 WHERE id = ?");
+  const hideMarket = db.prepare("UPDATE markets SET hidden = ? WHERE id = ?");
+  const saveLastBlock = db.prepare(`
+    INSERT INTO sync_state (id, last_block, last_timestamp) VALUES (0, ?, ?)
+    ON CONFLICT (id) DO UPDATE SET last_block = excluded.last_block, last_timestamp = excluded.last_timestamp
+  `);
+
+  const applyEvent = (event: IndexedEvent) => {
+    insertEvent.run({ ...event, args: JSON.stringify(event.args) });
+    const id = event.predictionId;
+    switch (event.name) {
+      case "PredictionCreated":
+        insertMarket.run({
+          id,
+          name: event.args.name,
+          creator: event.args.creator,
+          resolver: event.args.resolver,
+          optionCount: Number(event.args.optionCount),
+          bettingClosesAt: Number(event.args.bettingClosesAt),
+          resolutionDeadline: Number(event.args.resolutionDeadline),
+          createdAt: event.timestamp,
+          createdBlock: event.blockNumber,
+          txHash: event.txHash,
+        });
+        break;
+      case "TotalsRevealed":
+        revealTotals.run(id);
+        break;
+      case "PredictionResolved":
+        resolveMarket.run(Number(event.args.winningOption), id);
+        break;
+      case "PredictionCancelled":
+        cancelMarket.run(id);
+        break;
+      case "PredictionHidden":
+        hideMarket.run(event.args.hidden ? 1 : 0, id);
+        break;
+    }
+  };
+
+  /** Stores the events of a block range and moves the cursor to `toBlock`, mined at `toTimestamp`, atomically. */
+  const saveBatch = db.transaction((events: IndexedEvent[], toBlock: number, toTimestamp: number) => {
+    events.forEach(applyEvent);
+    saveLastBlock.run(toBlock, toTimestamp);
+  });
+
+  const syncState = () =>
+    db.prepare("SELECT last_block, last_timestamp FROM sync_state WHERE id = 0").get() as
+      | { last_block: number; last_timestamp: number }
+      | undefined;
+
+  const lastBlock = (): number | null => syncState()?.last_block ?? null;
+
+  // Statuses follow the chain's clock rather than the wall clock, as of the last indexed block.
+  const chainTime = (): number => syncState()?.last_timestamp ?? 0;
+
+  /** Markets hidden by moderators are left out. */
+  const listMarkets = (offset: number, limit: number): { markets: IndexedMarket[]; total: number } => {
+    const now = chainTime();
+    const rows = db
+      .prepare(`SELECT ${MARKET_COLUMNS} FROM markets WHERE hidden = 0 ORDER BY id LIMIT ? OFFSET ?`)
+      .all(limit, offset) as MarketRow[];
+    const { total } = db.prepare("SELECT COUNT(*) AS total FROM markets WHERE hidden = 0").get() as { total: number };
+    return { markets: rows.map((row) => toMarket(row, now)), total };
+  };
+
+  /** Returns null for markets hidden by moderators, like unknown ones. */
+  const getMarket = (id: number): IndexedMarket | null => {
+    const row = db.prepare(`SELECT ${MARKET_COLUMNS} FROM markets WHERE id = ? AND hidden = 0`).get(id) as
+      | MarketRow
+      | undefined;
+    return row ? toMarket(row, chainTime()) : null;
+  };
+
+  /** Events involving `account`, newest first. */
+  const getActivity = (account: string, limit: number): IndexedEvent[] => {
+    const rows = db
+      .prepare("SELECT * FROM events WHERE account = ? ORDER BY block_number DESC, log_index DESC LIMIT ?")
+      .all(account.toLowerCase(), limit) as EventRow[];
+    return rows.map(toEvent);
+  };
+
+  return {
+    saveBatch: (events: IndexedEvent[], toBlock: number, toTimestamp: number) =>
+      saveBatch(events, toBlock, toTimestamp),
+    lastBlock,
+    listMarkets,
+    getMarket,
+    getActivity,
+    close: () => {
+      db.close();
+    },
+  };
+}
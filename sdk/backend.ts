@@ -0,0 +1,55 @@
+import type { TypedDataDomain, TypedDataField } from "ethers";
+
+/**
+ * Encryption and decryption backend used by the SDK.
+ *
+ * This is the subset of the FHEVM instance API shared by the Zama relayer SDK (`createInstance`), the mock instance
+ * of `@fhevm/mock-utils` and the Hardhat plugin's `hre.fhevm`, so any of them can be injected as is.
+ */
+export interface FhevmBackend {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInputBuilder;
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): UserDecryptEIP712;
+  userDecrypt(
+    handles: { handle: string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): Promise<ClearValues>;
+  publicDecrypt(handles: string[]): Promise<PublicDecryption>;
+}
+
+export interface EncryptedInputBuilder {
+  add8(value: number | bigint): EncryptedInputBuilder;
+  add64(value: number | bigint): EncryptedInputBuilder;
+  encrypt(): Promise<EncryptedInput>;
+}
+
+export type EncryptedInput = {
+  handles: Uint8Array[];
+  inputProof: Uint8Array;
+};
+
+/** Clear values keyed by ciphertext handle. */
+export type ClearValues = Record<string, bigint | boolean | string>;
+
+export type PublicDecryption = {
+  clearValues: ClearValues;
+  abiEncodedClearValues: string;
+  decryptionProof: string;
+};
+
+export type UserDecryptEIP712 = {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  message: Record<string, unknown>;
+};
@@ -0,0 +1,416 @@
+import { Contract } from "ethers";
+import type { BigNumberish, ContractTransactionReceipt, ContractTransactionResponse, Signer } from "ethers";
+import type { FHEPredictionMarket, IConfidentialToken, IERC20 } from "../types";
+import type { ClearValues, FhevmBackend } from "./backend";
+import { createDecryptionSession } from "./session";
+import type { DecryptionSession } from "./session";
+
+/** Mirrors `FHEPredictionMarket.CollateralType`. */
+export const CollateralType = {
+  Native: 0,
+  ERC20: 1,
+  Confidential: 2,
+} as const;
+
+// The generated TypeChain bindings are only used as types: they are built by `hardhat compile`, which loads the SDK
+// through the tasks, so the token calls made while betting go through these ABI fragments.
+const ERC20_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+const CONFIDENTIAL_TOKEN_ABI = [
+  "function isOperator(address holder, address spender) view returns (bool)",
+  "function setOperator(address operator, uint48 until)",
+];
+
+/** Mirrors `FHEPredictionMarket.MarketType`. */
+export const MarketType = {
+  Categorical: 0,
+  Scalar: 1,
+} as const;
+
+/** Handle of a ciphertext that was never initialized, it always decrypts to zero. */
+export const ZERO_HANDLE = "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const LEADERBOARD_PAGE_SIZE = 100n;
+// The relayer decrypts at most 2048 bits per request, that is 32 `euint64` handles.
+const PUBLIC_DECRYPT_BATCH_SIZE = 32;
+
+export type PredictionMarketClientOptions = {
+  /** Typechain market instance. It does not need to be connected, transactions are sent by `signer`. */
+  contract: FHEPredictionMarket;
+  signer: Signer;
+  /** Required by every method that encrypts or decrypts. */
+  backend?: FhevmBackend | null;
+  /**
+   * Session holding the signer's decryption permission for this market, e.g. one persisted across page loads. By
+   * default the client keeps its own session in memory, so it asks for one signature at most.
+   */
+  session?: DecryptionSession | null;
+  /** Receives progress messages, e.g. to surface them in a UI or a CLI. */
+  onStatus?: (status: string) => void;
+};
+
+export type CreatePredictionParams = {
+  name: string;
+  options: string[];
+  bettingClosesAt: BigNumberish;
+  resolutionDeadline: BigNumberish;
+  /** Address allowed to resolve the prediction, defaults to the creator. */
+  resolver?: string;
+  /** One of `CollateralType`, defaults to native ETH. */
+  collateralType?: number;
+  collateralToken?: string;
+  /** Share of the pool paid to the creator at resolution, in basis points. Defaults to none. */
+  creatorFeeBps?: number;
+  /**
+   * Creates a scalar prediction over `[lowerBound, upperBound)`, `options` being the labels of its equal-width
+   * buckets (see `scalarBuckets`).
+   */
+  scalarRange?: { lowerBound: bigint; upperBound: bigint };
+  description?: string;
+  /** Tag predictions are listed by in `listPredictionsByCategory`. */
+  category?: string;
+  /** What exactly decides the outcome, e.g. the data source and the time it is read at. */
+  resolutionCriteria?: string;
+  /** URL or content hash (e.g. an IPFS CID) of off-chain material about the prediction. */
+  source?: string;
+  /** Smallest stake of a single bet, in wei or token units. Defaults to none. */
+  minBet?: bigint;
+  /** Largest stake of a single bet. Defaults to none. */
+  maxBet?: bigint;
+  /** Cap on the pool; encrypted bets that would exceed it stake zero. Defaults to none. */
+  maxPool?: bigint;
+};
+
+export type PlaceBetParams = {
+  predictionId: BigNumberish;
+  choice: number;
+  /** Stake in wei for native predictions and in token units otherwise. */
+  amount: bigint;
+  /**
+   * Native predictions only: attach `amount` to the transaction through `placeEncryptedBet` instead of staking from
+   * the confidential balance. The choice stays encrypted but the amount is public.
+   */
+  payWithValue?: boolean;
+};
+
+export type EncryptedTotals = {
+  pool: string;
+  totals: string[];
+  revealed: boolean;
+};
+
+export type ClearTotals = {
+  pool: bigint;
+  totals: bigint[];
+};
+
+export type ClearBet = {
+  amount: bigint;
+  positions: bigint[];
+};
+
+/** Cumulative result of a bettor's claimed ETH bets, in wei. */
+export type ClearScore = {
+  user: string;
+  staked: bigint;
+  returned: bigint;
+  /** `returned - staked`, negative for a net loss. */
+  profit: bigint;
+  marketsClaimed: bigint;
+};
+
+export type PredictionMarketClient = ReturnType<typeof createPredictionMarketClient>;
+
+/**
+ * Creates a client wrapping the encrypted flows of `FHEPredictionMarket`: encrypting bets, routing them to the entry
+ * point matching the prediction's collateral and decrypting totals and positions.
+ */
+export function createPredictionMarketClient({
+  contract,
+  signer,
+  backend,
+  session,
+  onStatus,
+}: PredictionMarketClientOptions) {
+  const market = contract.connect(signer);
+  const report = (status: string) => onStatus?.(status);
+  let decryptionSession = session ? Promise.resolve(session) : undefined;
+
+  const requireBackend = () => {
+    if (!backend) {
+      throw new Error("An FHEVM backend is required to encrypt or decrypt values");
+    }
+    return backend;
+  };
+
+  const getSession = () => {
+    const fhevm = requireBackend();
+    decryptionSession ??= market
+      .getAddress()
+      .then((contractAddress) => createDecryptionSession({ backend: fhevm, signer, contractAddress }));
+    return decryptionSession;
+  };
+
+  const send = async (label: string, pending: Promise<ContractTransactionResponse>) => {
+    const tx = await pending;
+    report(`${label} tx=${tx.hash}, waiting for confirmation...`);
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error(`${label} transaction ${tx.hash} was dropped`);
+    }
+    return receipt;
+  };
+
+  const toBigInt = (values: ClearValues, handle: string) => {
+    if (handle === ZERO_HANDLE) {
+      return 0n;
+    }
+    const value = values[handle] ?? values[handle.toLowerCase()];
+    if (value === undefined) {
+      throw new Error(`Handle ${handle} was not decrypted`);
+    }
+    return BigInt(value);
+  };
+
+  const createPrediction = async (
+    params: CreatePredictionParams,
+  ): Promise<{ predictionId: bigint; receipt: ContractTransactionReceipt }> => {
+    const schedule = [params.bettingClosesAt, params.resolutionDeadline] as const;
+    const settings = [
+      params.resolver ?? ZERO_ADDRESS,
+      params.collateralType ?? CollateralType.Native,
+      params.collateralToken ?? ZERO_ADDRESS,
+      params.creatorFeeBps ?? 0,
+      {
+        description: params.description ?? "",
+        category: params.category ?? "",
+        resolutionCriteria: params.resolutionCriteria ?? "",
+        source: params.source ?? "",
+      },
+      { minBet: params.minBet ?? 0n, maxBet: params.maxBet ?? 0n, maxPool: params.maxPool ?? 0n },
+    ] as const;
+    const receipt = await send(
+      "Create prediction",
+      params.scalarRange
+        ? market.createScalarPrediction(
+            params.name,
+            params.options,
+            params.scalarRange.lowerBound,
+            params.scalarRange.upperBound,
+            ...schedule,
+            ...settings,
+          )
+        : market.createPrediction(params.name, params.options, ...schedule, ...settings),
+    );
+
+    for (const log of receipt.logs) {
+      const parsed = market.interface.parseLog(log);
+      if (parsed?.name === "PredictionCreated") {
+        return { predictionId: parsed.args.predictionId as bigint, receipt };
+      }
+    }
+    throw new Error("PredictionCreated event not found");
+  };
+
+  const placeBet = async ({
+    predictionId,
+    choice,
+    amount,
+    payWithValue,
+  }: PlaceBetParams): Promise<ContractTransactionReceipt> => {
+    const fhevm = requireBackend();
+    const [summary, marketAddress, userAddress] = await Promise.all([
+      market.getPredictionMetadata(predictionId),
+      market.getAddress(),
+      signer.getAddress(),
+    ]);
+    const collateralType = Number(summary.collateralType);
+    if (payWithValue && collateralType !== CollateralType.Native) {
+      throw new Error("Only native ETH predictions accept bets paid with the transaction value");
+    }
+
+    if (collateralType === CollateralType.ERC20 || payWithValue) {
+      if (collateralType === CollateralType.ERC20) {
+        const token = new Contract(summary.collateralToken, ERC20_ABI, signer) as unknown as IERC20;
+        if ((await token.allowance(userAddress, marketAddress)) < amount) {
+          report("Approving token transfer...");
+          await send("Approve", token.approve(marketAddress, amount));
+        }
+      }
+
+      report("Encrypting selection...");
+      const input = await fhevm.createEncryptedInput(marketAddress, userAddress).add8(choice).encrypt();
+      return collateralType === CollateralType.ERC20
+        ? send("Place bet", market.placeTokenBet(predictionId, input.handles[0], amount, input.inputProof))
+        : send(
+            "Place bet",
+            market.placeEncryptedBet(predictionId, input.handles[0], input.inputProof, { value: amount }),
+          );
+    }
+
+    if (collateralType === CollateralType.Native) {
+      // The contract stakes zero rather than revert when the balance falls short, so catch it before sending the bet.
+      report("Checking your confidential balance...");
+      const [balance] = await decryptHandles([await market.getEncryptedBalance(userAddress)]);
+      if (balance < amount) {
+        throw new Error(`Your confidential balance of ${balance} wei does not cover the stake, deposit first`);
+      }
+    } else {
+      const token = new Contract(
+        summary.collateralToken,
+        CONFIDENTIAL_TOKEN_ABI,
+        signer,
+      ) as unknown as IConfidentialToken;
+      if (!(await token.isOperator(userAddress, marketAddress))) {
+        report("Authorizing the market to move your tokens...");
+        await send("Set operator", token.setOperator(marketAddress, summary.resolutionDeadline));
+      }
+    }
+
+    report("Encrypting selection and amount...");
+    const input = await fhevm.createEncryptedInput(marketAddress, userAddress).add8(choice).add64(amount).encrypt();
+    const placeEncrypted =
+      collateralType === CollateralType.Native ? market.placeConfidentialBet : market.placeConfidentialTokenBet;
+    const receipt = await send(
+      "Place bet",
+      placeEncrypted(predictionId, input.handles[0], input.handles[1], input.inputProof),
+    );
+    const limits =
+      collateralType === CollateralType.Native
+        ? "the bet limits or the pool cap"
+        : "your token balance, the bet limits or the pool cap";
+    report(`Bet placed. Its stake counts as zero if it exceeds ${limits}, decrypt your position to check it`);
+    return receipt;
+  };
+
+  /** Publicly decrypts handles in requests of at most `PUBLIC_DECRYPT_BATCH_SIZE` handles each. */
+  const publicDecryptBatched = async (handles: string[], label: string): Promise<ClearValues> => {
+    const clearValues: ClearValues = {};
+    for (let start = 0; start < handles.length; start += PUBLIC_DECRYPT_BATCH_SIZE) {
+      const batch = handles.slice(start, start + PUBLIC_DECRYPT_BATCH_SIZE);
+      report(`Decrypting ${start + batch.length} of ${handles.length} ${label}...`);
+      Object.assign(clearValues, (await requireBackend().publicDecrypt(batch)).clearValues);
+    }
+    return clearValues;
+  };
+
+  const getTotals = async (predictionId: BigNumberish): Promise<EncryptedTotals> => {
+    const [totals, pool, revealed] = await market.getEncryptedTotals(predictionId);
+    return { pool, totals: [...totals], revealed };
+  };
+
+  /**
+   * Decrypts the totals of several predictions in as few public decryption requests as possible, returning null for
+   * the predictions whose totals are not revealed yet.
+   */
+  const decryptTotalsBatch = async (predictionIds: BigNumberish[]): Promise<(ClearTotals | null)[]> => {
+    const encrypted = await Promise.all(predictionIds.map((predictionId) => getTotals(predictionId)));
+    const handles = [
+      ...new Set(
+        encrypted
+          .filter(({ revealed }) => revealed)
+          .flatMap(({ pool, totals }) => [pool, ...totals])
+          .filter((handle) => handle !== ZERO_HANDLE),
+      ),
+    ];
+
+    const clearValues = await publicDecryptBatched(handles, "totals");
+    return encrypted.map(({ pool, totals, revealed }) =>
+      revealed
+        ? { pool: toBigInt(clearValues, pool), totals: totals.map((handle) => toBigInt(clearValues, handle)) }
+        : null,
+    );
+  };
+
+  /** Decrypts the pool and option totals, which are publicly decryptable once `revealTotals` was called. */
+  const decryptTotals = async (predictionId: BigNumberish): Promise<ClearTotals> => {
+    const [clearTotals] = await decryptTotalsBatch([predictionId]);
+    if (!clearTotals) {
+      throw new Error(`Totals of prediction #${predictionId} are not revealed yet`);
+    }
+    return clearTotals;
+  };
+
+  /** Decrypts ciphertexts the signer was granted access to, signing a user decryption permission if needed. */
+  const decryptHandles = async (handles: string[]): Promise<bigint[]> => {
+    const initialized = handles.filter((handle) => handle !== ZERO_HANDLE);
+    if (initialized.length === 0) {
+      return handles.map(() => 0n);
+    }
+
+    const clearValues = await (await getSession()).decrypt(initialized, report);
+    return handles.map((handle) => toBigInt(clearValues, handle));
+  };
+
+  /** Decrypts the signer's total stake and per-option positions, or returns null without a bet. */
+  const decryptMyBet = async (predictionId: BigNumberish): Promise<ClearBet | null> => {
+    const userAddress = await signer.getAddress();
+    const [[amount, , hasBet], [positions]] = await Promise.all([
+      market.getUserBet(predictionId, userAddress),
+      market.getUserPositions(predictionId, userAddress),
+    ]);
+    if (!hasBet) {
+      return null;
+    }
+
+    const [clearAmount, ...clearPositions] = await decryptHandles([amount, ...positions]);
+    return { amount: clearAmount, positions: clearPositions };
+  };
+
+  /** Decrypts the signer's own score, revealed or not, or returns null before their first claim. */
+  const decryptMyScore = async (): Promise<ClearScore | null> => {
+    const user = await signer.getAddress();
+    const [staked, returned, marketsClaimed] = await market.getScore(user);
+    if (marketsClaimed === 0n) {
+      return null;
+    }
+
+    const [clearStaked, clearReturned] = await decryptHandles([staked, returned]);
+    return { user, staked: clearStaked, returned: clearReturned, profit: clearReturned - clearStaked, marketsClaimed };
+  };
+
+  /** Publicly decrypts every revealed score and ranks them by profit, the highest first. */
+  const decryptLeaderboard = async (): Promise<ClearScore[]> => {
+    const scores: ClearScore[] = [];
+    for (let offset = 0n, total = 1n; offset < total; offset += LEADERBOARD_PAGE_SIZE) {
+      const [page, count] = await market.listLeaderboard(offset, LEADERBOARD_PAGE_SIZE);
+      total = count;
+      if (page.length === 0) {
+        continue;
+      }
+
+      const clearValues = await publicDecryptBatched(
+        page.flatMap(({ staked, returned }) => [staked, returned]).filter((handle) => handle !== ZERO_HANDLE),
+        "score amounts",
+      );
+      for (const { user, staked, returned, marketsClaimed } of page) {
+        const clearStaked = toBigInt(clearValues, staked);
+        const clearReturned = toBigInt(clearValues, returned);
+        scores.push({
+          user,
+          staked: clearStaked,
+          returned: clearReturned,
+          profit: clearReturned - clearStaked,
+          marketsClaimed,
+        });
+      }
+    }
+    return scores.sort((a, b) => (a.profit === b.profit ? 0 : a.profit > b.profit ? -1 : 1));
+  };
+
+  return {
+    contract: market,
+    createPrediction,
+    placeBet,
+    getTotals,
+    decryptTotals,
+    decryptTotalsBatch,
+    decryptHandles,
+    decryptMyBet,
+    decryptMyScore,
+    decryptLeaderboard,
+  };
+}
@@ -0,0 +1,31 @@
+export type {
+  ClearValues,
+  EncryptedInput,
+  EncryptedInputBuilder,
+  FhevmBackend,
+  PublicDecryption,
+  UserDecryptEIP712,
+} from "./backend";
+export { CollateralType, MarketType, ZERO_HANDLE, createPredictionMarketClient } from "./client";
+export type {
+  ClearBet,
+  ClearScore,
+  ClearTotals,
+  CreatePredictionParams,
+  EncryptedTotals,
+  PlaceBetParams,
+  PredictionMarketClient,
+  PredictionMarketClientOptions,
+} from "./client";
+export {
+  BPS_DENOMINATOR,
+  marketOdds,
+  payoutIfWins,
+  poolFee,
+  previewPayout,
+  scalarBucketOf,
+  scalarBuckets,
+} from "./marketMath";
+export type { OptionOdds, PayoutPreview, ScalarBucket } from "./marketMath";
+export { createDecryptionSession } from "./session";
+export type { DecryptionPermission, DecryptionSession, DecryptionSessionOptions, PermissionStorage } from "./session";
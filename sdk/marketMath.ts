@@ -0,0 +1,140 @@
+import type { ClearTotals } from "./client";
+
+/** Fees are expressed in basis points of the pool. */
+export const BPS_DENOMINATOR = 10_000n;
+
+// Ratios are computed on bigints scaled by this factor before converting to floating point.
+const RATIO_SCALE = 1_000_000_000n;
+
+export type OptionOdds = {
+  option: number;
+  total: bigint;
+  /** Share of the pool staked on the option, between 0 and 1. Null while the pool is empty. */
+  probability: number | null;
+  /** Payout per unit staked if the option wins, fees deducted. Null while nobody backs the option. */
+  decimalOdds: number | null;
+};
+
+export type PayoutPreview = {
+  stake: bigint;
+  /** Amount paid out if the option wins, stake included. */
+  payout: bigint;
+  profit: bigint;
+  /** Fees taken from the pool, as a whole, at resolution. */
+  fee: bigint;
+  /** `payout / stake`, null for a zero stake. */
+  decimalOdds: number | null;
+};
+
+/** Bucket of a scalar prediction. The first and last buckets also hold the values outside the range. */
+export type ScalarBucket = {
+  option: number;
+  /** Inclusive start, null for the first bucket. */
+  from: bigint | null;
+  /** Exclusive end, null for the last bucket. */
+  to: bigint | null;
+  label: string;
+};
+
+const ratio = (numerator: bigint, denominator: bigint) =>
+  Number((numerator * RATIO_SCALE) / denominator) / Number(RATIO_SCALE);
+
+const assertFee = (feeBps: bigint) => {
+  if (feeBps < 0n || feeBps > BPS_DENOMINATOR) {
+    throw new RangeError(`Fee must be between 0 and ${BPS_DENOMINATOR} basis points`);
+  }
+};
+
+/** Fee taken from `pool` at resolution, rounded down like the contract. */
+export function poolFee(pool: bigint, feeBps: bigint = 0n): bigint {
+  assertFee(feeBps);
+  return (pool * feeBps) / BPS_DENOMINATOR;
+}
+
+/**
+ * Mirrors `claimWinnings` for a bettor holding `positions` (stake per option): the position on the winning option is
+ * paid `position * (pool - fee) / winningTotal`, rounded down, and the whole stake is returned when nobody backed the
+ * winning option.
+ */
+export function payoutIfWins(
+  { pool, totals }: ClearTotals,
+  option: number,
+  positions: bigint[],
+  feeBps: bigint = 0n,
+): bigint {
+  const winningTotal = totals[option];
+  if (winningTotal === undefined) {
+    throw new RangeError(`Option ${option} does not exist`);
+  }
+  if (winningTotal === 0n) {
+    return positions.reduce((sum, position) => sum + position, 0n);
+  }
+  return ((positions[option] ?? 0n) * (pool - poolFee(pool, feeBps))) / winningTotal;
+}
+
+/** Implied probability and decimal odds of every option, as priced by the pool. */
+export function marketOdds(totals: ClearTotals, feeBps: bigint = 0n): OptionOdds[] {
+  const distributable = totals.pool - poolFee(totals.pool, feeBps);
+  return totals.totals.map((total, option) => ({
+    option,
+    total,
+    probability: totals.pool === 0n ? null : ratio(total, totals.pool),
+    decimalOdds: total === 0n ? null : ratio(distributable, total),
+  }));
+}
+
+/**
+ * Previews the payout of a new `stake` on `option` if it wins, assuming nobody else bets afterwards. The stake joins
+ * the pool and the option total, so a bet on an empty or single-sided market only gets its stake back, minus fees.
+ */
+export function previewPayout(totals: ClearTotals, option: number, stake: bigint, feeBps: bigint = 0n): PayoutPreview {
+  if (stake < 0n) {
+    throw new RangeError("Stake cannot be negative");
+  }
+  if (totals.totals[option] === undefined) {
+    throw new RangeError(`Option ${option} does not exist`);
+  }
+
+  const pool = totals.pool + stake;
+  const after = { pool, totals: totals.totals.map((total, index) => (index === option ? total + stake : total)) };
+  const positions = totals.totals.map((_, index) => (index === option ? stake : 0n));
+  const payout = payoutIfWins(after, option, positions, feeBps);
+  return {
+    stake,
+    payout,
+    profit: payout - stake,
+    fee: poolFee(pool, feeBps),
+    decimalOdds: stake === 0n ? null : ratio(payout, stake),
+  };
+}
+
+const bucketWidth = (lowerBound: bigint, upperBound: bigint, count: number) => {
+  if (count < 1 || upperBound - lowerBound < BigInt(count)) {
+    throw new RangeError("The range must hold at least one unit per bucket");
+  }
+  return (upperBound - lowerBound) / BigInt(count);
+};
+
+/**
+ * Splits `[lowerBound, upperBound)` into `count` buckets like `createScalarPrediction`, with labels to pass as the
+ * prediction options. The last bucket absorbs the remainder when the range does not divide evenly.
+ */
+export function scalarBuckets(lowerBound: bigint, upperBound: bigint, count: number): ScalarBucket[] {
+  const width = bucketWidth(lowerBound, upperBound, count);
+  return Array.from({ length: count }, (_, option) => {
+    const from = option === 0 ? null : lowerBound + BigInt(option) * width;
+    const to = option === count - 1 ? null : lowerBound + BigInt(option + 1) * width;
+    const label = from === null ? `< ${to}` : to === null ? `≥ ${from}` : `${from} to ${to}`;
+    return { option, from, to, label };
+  });
+}
+
+/** Mirrors `getScalarBucket`: the option a reported `value` resolves a scalar prediction to. */
+export function scalarBucketOf(lowerBound: bigint, upperBound: bigint, count: number, value: bigint): number {
+  const width = bucketWidth(lowerBound, upperBound, count);
+  if (value <= lowerBound) {
+    return 0;
+  }
+  const bucket = (value - lowerBound) / width;
+  return bucket < BigInt(count) ? Number(bucket) : count - 1;
+}
@@ -0,0 +1,175 @@
+import type { Signer } from "ethers";
+import type { ClearValues, FhevmBackend } from "./backend";
+
+const DEFAULT_DURATION_DAYS = 5;
+// Permissions this close to their expiry are renewed rather than reused, so a decryption never races the deadline.
+const EXPIRY_MARGIN_SECONDS = 10 * 60;
+const STORAGE_PREFIX = "fhe-prediction-market:decryption-permission";
+
+/** A signed user decryption request, reusable for every handle of `contractAddress` until it expires. */
+export type DecryptionPermission = {
+  userAddress: string;
+  contractAddress: string;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+};
+
+/** Key-value storage for permissions. The browser's `localStorage` fits as is. */
+export type PermissionStorage = {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+};
+
+export type DecryptionSessionOptions = {
+  backend: FhevmBackend;
+  signer: Signer;
+  contractAddress: string;
+  /**
+   * Where permissions are kept between sessions, in memory by default. The permission includes the private key of the
+   * decryption keypair, so only pass storage that is private to the user.
+   */
+  storage?: PermissionStorage | null;
+  /** Validity of newly signed permissions. */
+  durationDays?: number;
+};
+
+type PendingDecryption = {
+  handles: string[];
+  onStatus?: (status: string) => void;
+  resolve: (values: ClearValues) => void;
+  reject: (error: unknown) => void;
+};
+
+function createMemoryStorage(): PermissionStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+export type DecryptionSession = ReturnType<typeof createDecryptionSession>;
+
+/**
+ * Creates a user decryption session for one (account, contract) pair. The keypair and the signed EIP-712 permission
+ * are stored until they expire, so the wallet is only asked to sign once per session, and handles requested in the
+ * same tick are decrypted with a single request.
+ */
+export function createDecryptionSession({
+  backend,
+  signer,
+  contractAddress,
+  storage,
+  durationDays = DEFAULT_DURATION_DAYS,
+}: DecryptionSessionOptions) {
+  const store = storage ?? createMemoryStorage();
+  let signing: Promise<DecryptionPermission> | undefined;
+  let pending: PendingDecryption[] = [];
+
+  const storageKey = async () =>
+    `${STORAGE_PREFIX}:${(await signer.getAddress()).toLowerCase()}:${contractAddress.toLowerCase()}`;
+
+  const isValid = (permission: DecryptionPermission) => {
+    const expiresAt = permission.startTimestamp + permission.durationDays * 24 * 60 * 60;
+    return expiresAt - EXPIRY_MARGIN_SECONDS > Math.floor(Date.now() / 1000);
+  };
+
+  /** Returns the stored permission if it is still valid. */
+  const getStoredPermission = async (): Promise<DecryptionPermission | null> => {
+    const raw = store.getItem(await storageKey());
+    if (!raw) {
+      return null;
+    }
+    try {
+      const permission = JSON.parse(raw) as DecryptionPermission;
+      return isValid(permission) ? permission : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const signPermission = async (onStatus?: (status: string) => void): Promise<DecryptionPermission> => {
+    const userAddress = await signer.getAddress();
+    const keypair = backend.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const eip712 = backend.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, durationDays);
+
+    onStatus?.("Sign the decryption request in your wallet...");
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message,
+    );
+
+    const permission: DecryptionPermission = {
+      userAddress,
+      contractAddress,
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature: signature.replace("0x", ""),
+      startTimestamp,
+      durationDays,
+    };
+    store.setItem(await storageKey(), JSON.stringify(permission));
+    return permission;
+  };
+
+  /** Returns a valid permission, asking the wallet for a signature only when none is stored. */
+  const getPermission = async (onStatus?: (status: string) => void): Promise<DecryptionPermission> => {
+    const stored = await getStoredPermission();
+    if (stored) {
+      return stored;
+    }
+    signing ??= signPermission(onStatus).finally(() => {
+      signing = undefined;
+    });
+    return signing;
+  };
+
+  const flush = async () => {
+    const batch = pending;
+    pending = [];
+    try {
+      const permission = await getPermission(batch[0].onStatus);
+      const handles = [...new Set(batch.flatMap((request) => request.handles))];
+      const clearValues = await backend.userDecrypt(
+        handles.map((handle) => ({ handle, contractAddress })),
+        permission.privateKey,
+        permission.publicKey,
+        permission.signature,
+        [contractAddress],
+        permission.userAddress,
+        permission.startTimestamp,
+        permission.durationDays,
+      );
+      batch.forEach((request) => request.resolve(clearValues));
+    } catch (error) {
+      batch.forEach((request) => request.reject(error));
+    }
+  };
+
+  /** Decrypts handles the signer was granted access to. Calls made in the same tick share one request. */
+  const decrypt = (handles: string[], onStatus?: (status: string) => void): Promise<ClearValues> =>
+    new Promise((resolve, reject) => {
+      if (pending.length === 0) {
+        setTimeout(flush, 0);
+      }
+      pending.push({ handles, onStatus, resolve, reject });
+    });
+
+  /** Forgets the stored permission, the next decryption asks for a new signature. */
+  const clear = async () => {
+    store.removeItem(await storageKey());
+  };
+
+  return { decrypt, getPermission, getStoredPermission, clear };
+}
@@ -1,6 +1,116 @@
+import * as fs from "fs";
+import * as path from "path";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
-import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import type { FHEPredictionMarket } from "../types";
+import { MarketType, createPredictionMarketClient, marketOdds, scalarBuckets } from "../sdk";
+import type { ClearTotals } from "../sdk";
+
+const PREDICTION_STATES = ["Open", "Closed", "Resolved", "Cancelled"];
+const COLLATERAL_TYPES = ["native", "erc20", "confidential"];
+const COLLATERAL_NATIVE = 0;
+const REPORT_FORMATS = ["table", "json", "csv"];
+const REPORT_PAGE_SIZE = 50;
+const REPORT_COLUMNS = [
+  "prediction",
+  "name",
+  "state",
+  "category",
+  "collateral",
+  "bettors",
+  "feeBps",
+  "pool",
+  "option",
+  "label",
+  "total",
+  "probability",
+  "odds",
+] as const;
+
+// One prediction of `task:report`. Amounts are in wei or token units, and null while the totals are encrypted.
+type ReportEntry = {
+  id: number;
+  name: string;
+  state: string;
+  category: string;
+  collateral: string;
+  collateralToken: string;
+  bettors: number;
+  feeBps: number;
+  bettingClosesAt: string;
+  pool: string | null;
+  options: { option: number; label: string; total: string | null; probability: number | null; odds: number | null }[];
+};
+
+type ReportRow = Record<(typeof REPORT_COLUMNS)[number], string | number | null>;
+
+// SDK client for the deployed market, acting as the first signer and logging progress to the console.
+async function getMarketClient(hre: HardhatRuntimeEnvironment, onStatus: (status: string) => void = console.log) {
+  const { ethers, deployments, fhevm } = hre;
+  await fhevm.initializeCLIApi();
+  const deployment = await deployments.get("FHEPredictionMarket");
+  const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
+  const signer = (await ethers.getSigners())[0];
+  return createPredictionMarketClient({ contract, signer, backend: fhevm, onStatus });
+}
+
+function reportEntry(
+  summary: FHEPredictionMarket.PredictionSummaryStructOutput,
+  totals: ClearTotals | null,
+): ReportEntry {
+  const feeBps = Number(summary.protocolFeeBps + summary.creatorFeeBps);
+  const odds = totals ? marketOdds(totals, BigInt(feeBps)) : null;
+  return {
+    id: Number(summary.id),
+    name: summary.name,
+    state: PREDICTION_STATES[Number(summary.state)],
+    category: summary.details.category,
+    collateral: COLLATERAL_TYPES[Number(summary.collateralType)],
+    collateralToken: summary.collateralToken,
+    bettors: Number(summary.bettorCount),
+    feeBps,
+    bettingClosesAt: new Date(Number(summary.bettingClosesAt) * 1000).toISOString(),
+    pool: totals ? totals.pool.toString() : null,
+    options: summary.options.map((label, option) => ({
+      option,
+      label,
+      total: odds ? odds[option].total.toString() : null,
+      probability: odds ? odds[option].probability : null,
+      odds: odds ? odds[option].decimalOdds : null,
+    })),
+  };
+}
+
+// One row per option, the layout of the table and CSV formats.
+function reportRows(entries: ReportEntry[]): ReportRow[] {
+  return entries.flatMap(({ options, ...prediction }) =>
+    options.map(({ option, label, total, probability, odds }) => ({
+      prediction: prediction.id,
+      name: prediction.name,
+      state: prediction.state,
+      category: prediction.category,
+      collateral: prediction.collateral,
+      bettors: prediction.bettors,
+      feeBps: prediction.feeBps,
+      pool: prediction.pool,
+      option,
+      label,
+      total,
+      probability,
+      odds,
+    })),
+  );
+}
+
+function csvField(value: string | number | null) {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(entries: ReportEntry[]) {
+  const rows = reportRows(entries).map((row) => REPORT_COLUMNS.map((column) => csvField(row[column])).join(","));
+  return [REPORT_COLUMNS.join(","), ...rows].join("\n");
+}
 
 task("task:prediction-address", "Prints the FHEPredictionMarket deployment address").setAction(
   async (_taskArguments: TaskArguments, hre) => {
@@ -10,91 +120,753 @@ task("task:prediction-address", "Prints the FHEPredictionMarket deployment addre
   },
 );
 
-task("task:create-prediction", "Creates a prediction with 2-4 comma separated options")
+task("task:create-prediction", "Creates a prediction with 2-16 comma separated options, or a scalar prediction")
   .addParam("name", "Prediction title")
-  .addParam("options", "Comma separated option labels, e.g. 'Yes,No'")
+  .addOptionalParam("options", "Comma separated option labels, e.g. 'Yes,No'")
+  .addOptionalParam("lower", "Scalar predictions: start of the range")
+  .addOptionalParam("upper", "Scalar predictions: end of the range")
+  .addOptionalParam(
+    "buckets",
+    "Scalar predictions: number of buckets, labelled automatically unless --options is set",
+    "4",
+  )
+  .addOptionalParam("bettingDuration", "Seconds until betting closes", "86400")
+  .addOptionalParam("resolutionWindow", "Seconds after betting closes to resolve the prediction", "604800")
+  .addOptionalParam("resolver", "Address allowed to resolve the prediction (defaults to the creator)")
+  .addOptionalParam("collateral", "Collateral type: native, erc20 or confidential", "native")
+  .addOptionalParam("token", "Collateral token address for erc20 and confidential predictions")
+  .addOptionalParam("creatorFee", "Share of the pool paid to the creator at resolution, in basis points", "0")
+  .addOptionalParam("description", "What the prediction is about", "")
+  .addOptionalParam("category", "Category tag, e.g. sports", "")
+  .addOptionalParam("criteria", "Exactly what resolves the prediction", "")
+  .addOptionalParam("source", "URL or content hash (e.g. IPFS CID) of off-chain material", "")
+  .addOptionalParam("minBet", "Smallest stake of a bet, in ETH for native predictions and token units otherwise")
+  .addOptionalParam("maxBet", "Largest stake of a bet, in ETH for native predictions and token units otherwise")
+  .addOptionalParam("maxPool", "Cap on the pool, in ETH for native predictions and token units otherwise")
   .setAction(async (taskArgs: TaskArguments, hre) => {
-    const { ethers, deployments } = hre;
+    const { ethers } = hre;
+    const client = await getMarketClient(hre);
+
+    const scalar = taskArgs.lower !== undefined || taskArgs.upper !== undefined;
+    if (!scalar && !taskArgs.options) {
+      throw new Error("Pass --options, or --lower and --upper for a scalar prediction");
+    }
+    if (scalar && ![taskArgs.lower, taskArgs.upper].every((bound) => /^-?\d+$/.test(String(bound)))) {
+      throw new Error("Scalar predictions need both --lower and --upper, as whole numbers");
+    }
+    const scalarRange = scalar ? { lowerBound: BigInt(taskArgs.lower), upperBound: BigInt(taskArgs.upper) } : undefined;
+    const options = taskArgs.options
+      ? String(taskArgs.options)
+          .split(",")
+          .map((option: string) => option.trim())
+          .filter((option: string) => option.length > 0)
+      : scalarBuckets(scalarRange!.lowerBound, scalarRange!.upperBound, Number(taskArgs.buckets)).map(
+          ({ label }) => label,
+        );
+
+    const bettingDuration = Number(taskArgs.bettingDuration);
+    const resolutionWindow = Number(taskArgs.resolutionWindow);
+    if (Number.isNaN(bettingDuration) || Number.isNaN(resolutionWindow)) {
+      throw new Error("Betting duration and resolution window must be numeric");
+    }
+
+    const resolver = taskArgs.resolver ? String(taskArgs.resolver) : ethers.ZeroAddress;
+    if (!ethers.isAddress(resolver)) {
+      throw new Error("Resolver must be a valid address");
+    }
+
+    const collateralType = COLLATERAL_TYPES.indexOf(String(taskArgs.collateral));
+    if (collateralType < 0) {
+      throw new Error(`Collateral must be one of: ${COLLATERAL_TYPES.join(", ")}`);
+    }
+    const token = taskArgs.token ? String(taskArgs.token) : ethers.ZeroAddress;
+    if (!ethers.isAddress(token) || (collateralType === COLLATERAL_NATIVE) !== (token === ethers.ZeroAddress)) {
+      throw new Error("Pass --token for erc20 and confidential predictions, and only for them");
+    }
+    const creatorFeeBps = Number(taskArgs.creatorFee);
+    if (!Number.isInteger(creatorFeeBps) || creatorFeeBps < 0) {
+      throw new Error("Creator fee must be a whole number of basis points");
+    }
+    const [minBet, maxBet, maxPool] = [taskArgs.minBet, taskArgs.maxBet, taskArgs.maxPool].map((limit) =>
+      limit === undefined
+        ? undefined
+        : collateralType === COLLATERAL_NATIVE
+          ? ethers.parseEther(String(limit))
+          : BigInt(limit),
+    );
+
+    const latestBlock = await ethers.provider.getBlock("latest");
+    const bettingClosesAt = (latestBlock?.timestamp ?? Math.floor(Date.now() / 1000)) + bettingDuration;
+    const resolutionDeadline = bettingClosesAt + resolutionWindow;
+
+    console.log(`Creating "${taskArgs.name}" with options: ${options.join(", ")}`);
+    const { predictionId, receipt } = await client.createPrediction({
+      name: taskArgs.name,
+      options,
+      bettingClosesAt,
+      resolutionDeadline,
+      resolver,
+      collateralType,
+      collateralToken: token,
+      creatorFeeBps,
+      scalarRange,
+      description: taskArgs.description,
+      category: taskArgs.category,
+      resolutionCriteria: taskArgs.criteria,
+      source: taskArgs.source,
+      minBet,
+      maxBet,
+      maxPool,
+    });
+    console.log(`Created prediction #${predictionId} in block ${receipt.blockNumber}`);
+  });
+
+task("task:list-predictions", "Lists predictions one page at a time")
+  .addOptionalParam("offset", "Number of predictions to skip", "0")
+  .addOptionalParam("limit", "Maximum number of predictions to print", "20")
+  .addOptionalParam("creator", "Only list predictions created by this address")
+  .addOptionalParam("bettor", "Only list predictions this address bet on")
+  .addOptionalParam("category", "Only list predictions tagged with this category")
+  .addOptionalParam("state", `Only list predictions in this state: ${PREDICTION_STATES.join(", ")}`)
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { deployments, ethers } = hre;
     const deployment = await deployments.get("FHEPredictionMarket");
-    const signer = (await ethers.getSigners())[0];
     const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
 
-    const options = String(taskArgs.options)
-      .split(",")
-      .map((option: string) => option.trim())
-      .filter((option: string) => option.length > 0);
+    const offset = Number(taskArgs.offset);
+    const limit = Number(taskArgs.limit);
+    if (Number.isNaN(offset) || Number.isNaN(limit) || offset < 0 || limit <= 0) {
+      throw new Error("Offset and limit must be positive numbers");
+    }
+    for (const address of [taskArgs.creator, taskArgs.bettor]) {
+      if (address && !ethers.isAddress(address)) {
+        throw new Error(`${address} is not a valid address`);
+      }
+    }
 
-    console.log(`Creating "${taskArgs.name}" with options: ${options.join(", ")}`);
-    const tx = await contract.connect(signer).createPrediction(taskArgs.name, options);
-    const receipt = await tx.wait();
-    console.log(`Transaction mined in block ${receipt?.blockNumber}`);
+    let summaries: FHEPredictionMarket.PredictionSummaryStructOutput[];
+    let total: bigint;
+    if (taskArgs.state) {
+      const state = PREDICTION_STATES.findIndex(
+        (name: string) => name.toLowerCase() === String(taskArgs.state).toLowerCase(),
+      );
+      if (state < 0) {
+        throw new Error(`State must be one of: ${PREDICTION_STATES.join(", ")}`);
+      }
+      // Prediction states depend on the block time, so matches are collected by scanning from the offset.
+      total = await contract.getPredictionCount();
+      summaries = [];
+      let cursor = BigInt(offset);
+      while (summaries.length < limit && cursor < total) {
+        const [page, nextCursor] = await contract.listPredictionsByState(state, cursor, limit - summaries.length, 100);
+        summaries.push(...page);
+        cursor = nextCursor;
+      }
+      console.log(`Scanned up to prediction #${cursor.toString()} of ${total.toString()}`);
+    } else if (taskArgs.creator) {
+      [summaries, total] = await contract.listPredictionsByCreator(taskArgs.creator, offset, limit);
+    } else if (taskArgs.bettor) {
+      [summaries, total] = await contract.listPredictionsByBettor(taskArgs.bettor, offset, limit);
+    } else if (taskArgs.category) {
+      [summaries, total] = await contract.listPredictionsByCategory(taskArgs.category, offset, limit);
+    } else {
+      [summaries, total] = await contract.listPredictionsPaged(offset, limit);
+    }
+
+    // Rounds of a series are listed together under the series, where its first listed round would be.
+    const seriesDeployment = await deployments.getOrNull("PredictionSeries");
+    const seriesContract = seriesDeployment
+      ? await ethers.getContractAt("PredictionSeries", seriesDeployment.address)
+      : undefined;
+    type ListedRound = { summary: FHEPredictionMarket.PredictionSummaryStructOutput; round: bigint };
+    const groups = new Map<string, { seriesId: bigint; rounds: ListedRound[] }>();
+    for (const summary of summaries) {
+      const [seriesId, round] = seriesContract ? await seriesContract.seriesOf(summary.id) : [0n, 0n];
+      const key = seriesId === 0n ? `prediction:${summary.id}` : `series:${seriesId}`;
+      const group = groups.get(key) ?? { seriesId, rounds: [] };
+      group.rounds.push({ summary, round });
+      groups.set(key, group);
+    }
+
+    const printSummary = (summary: FHEPredictionMarket.PredictionSummaryStructOutput, indent = "", label = "") => {
+      console.log(
+        `${indent}- ${label}#${summary.id.toString()} ${summary.name} [${PREDICTION_STATES[Number(summary.state)]}]${
+          summary.marketType === BigInt(MarketType.Scalar) ? " [scalar]" : ""
+        }${summary.hidden ? " [hidden]" : ""}${summary.details.category ? ` in ${summary.details.category}` : ""} (${
+          summary.options.length
+        } options, ${summary.bettorCount.toString()} bettor(s), ${COLLATERAL_TYPES[Number(summary.collateralType)]} collateral, fees ${summary.protocolFeeBps.toString()}+${summary.creatorFeeBps.toString()} bps, resolver ${summary.resolver}, created ${new Date(Number(summary.createdAt) * 1000).toISOString()}, betting closes ${new Date(
+          Number(summary.bettingClosesAt) * 1000,
+        ).toISOString()}, resolve by ${new Date(Number(summary.resolutionDeadline) * 1000).toISOString()})`,
+      );
+      if (summary.details.resolutionCriteria) {
+        console.log(`${indent}  Resolves on: ${summary.details.resolutionCriteria}`);
+      }
+    };
+
+    console.log(`Showing ${summaries.length} of ${total.toString()} prediction(s) from offset ${offset}`);
+    for (const { seriesId, rounds: listed } of groups.values()) {
+      if (seriesId === 0n) {
+        printSummary(listed[0].summary);
+        continue;
+      }
+      const { template, roundCount, ended } = await seriesContract!.getSeries(seriesId);
+      console.log(
+        `- Series #${seriesId.toString()} ${template.name}${ended ? " [ended]" : ""} (${roundCount} round(s))`,
+      );
+      listed.forEach(({ summary, round }) => printSummary(summary, "  ", `round ${round}: `));
+    }
   });
 
-task("task:list-predictions", "Lists every prediction created").setAction(async (_: TaskArguments, hre) => {
-  const { deployments, ethers } = hre;
-  const deployment = await deployments.get("FHEPredictionMarket");
-  const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
-  const summaries = await contract.listPredictions();
-  console.log(`Found ${summaries.length} prediction(s)`);
-  summaries.forEach((summary: any) => {
-    console.log(
-      `- #${summary.id.toString()} ${summary.name} (${summary.options.length} options, created ${new Date(
-        Number(summary.createdAt) * 1000,
-      ).toISOString()})`,
-    );
+task("task:deposit", "Deposits ETH into the caller's confidential balance")
+  .addParam("eth", "ETH amount to deposit, e.g. 1")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("FHEPredictionMarket");
+    const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
+    const signer = (await ethers.getSigners())[0];
+
+    const tx = await contract.connect(signer).deposit({ value: ethers.parseEther(String(taskArgs.eth)) });
+    console.log(`Deposit tx=${tx.hash}`);
+    await tx.wait();
   });
-});
 
-task("task:place-bet", "Places an encrypted bet on a prediction")
+task("task:place-bet", "Places a bet with an encrypted choice, funded according to the prediction's collateral")
   .addParam("prediction", "Prediction id")
   .addParam("choice", "0-based option index to bet on")
-  .addParam("eth", "ETH amount to send, e.g. 0.1")
+  .addOptionalParam("eth", "ETH amount to stake from the confidential balance, e.g. 0.1")
+  .addOptionalParam("amount", "Stake in token units for erc20 and confidential predictions")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers } = hre;
+    const client = await getMarketClient(hre);
+
+    const predictionId = Number(taskArgs.prediction);
+    const choice = Number(taskArgs.choice);
+    if (Number.isNaN(predictionId) || Number.isNaN(choice)) {
+      throw new Error("Prediction id and choice must be numeric");
+    }
+
+    const summary = await client.contract.getPredictionMetadata(predictionId);
+    const collateralType = Number(summary.collateralType);
+    const amountArg = collateralType === COLLATERAL_NATIVE ? taskArgs.eth : taskArgs.amount;
+    if (amountArg === undefined) {
+      throw new Error(collateralType === COLLATERAL_NATIVE ? "Pass --eth" : "Pass --amount");
+    }
+    const amount = collateralType === COLLATERAL_NATIVE ? ethers.parseEther(String(amountArg)) : BigInt(amountArg);
+
+    await client.placeBet({ predictionId, choice, amount });
+  });
+
+task("task:mint-test-tokens", "Mints mock collateral tokens to the caller (local networks only)")
+  .addParam("amount", "Amount in token units")
+  .addOptionalParam("collateral", "Token to mint: erc20 or confidential", "confidential")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const signer = (await ethers.getSigners())[0];
+    const amount = BigInt(taskArgs.amount);
+
+    if (taskArgs.collateral === "erc20") {
+      const deployment = await deployments.get("MockERC20");
+      const token = await ethers.getContractAt("MockERC20", deployment.address);
+      const tx = await token.connect(signer).mint(signer.address, amount);
+      console.log(`Mint tx=${tx.hash} token=${deployment.address}`);
+      await tx.wait();
+      return;
+    }
+
+    const deployment = await deployments.get("MockConfidentialToken");
+    const token = await ethers.getContractAt("MockConfidentialToken", deployment.address);
+    const tx = await token.connect(signer).mint(signer.address, amount);
+    console.log(`Mint tx=${tx.hash} token=${deployment.address}`);
+    await tx.wait();
+  });
+
+task("task:decrypt-position", "Decrypts the caller's stake on every option of a prediction")
+  .addParam("prediction", "Prediction id")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const client = await getMarketClient(hre);
+
+    const predictionId = Number(taskArgs.prediction);
+    if (Number.isNaN(predictionId)) {
+      throw new Error("Prediction id must be numeric");
+    }
+
+    const bet = await client.decryptMyBet(predictionId);
+    if (!bet) {
+      console.log("No bet placed on this prediction");
+      return;
+    }
+    const summary = await client.contract.getPredictionMetadata(predictionId);
+    for (let i = 0; i < bet.positions.length; i++) {
+      console.log(`${summary.options[i]} (wei): ${bet.positions[i].toString()}`);
+    }
+  });
+
+task("task:decrypt-balance", "Decrypts the caller's confidential balance").setAction(async (_: TaskArguments, hre) => {
+  const { ethers } = hre;
+  const client = await getMarketClient(hre);
+  const signer = (await ethers.getSigners())[0];
+
+  const balance = await client.contract.getEncryptedBalance(signer.address);
+  const [clearBalance] = await client.decryptHandles([balance]);
+  console.log(`Confidential balance (wei): ${clearBalance.toString()}`);
+});
+
+task("task:withdraw", "Withdraws ETH from the caller's confidential balance")
+  .addOptionalParam("eth", "ETH amount to withdraw, e.g. 0.5")
+  .addFlag("finalize", "Complete the caller's pending withdrawal instead of requesting a new one")
   .setAction(async (taskArgs: TaskArguments, hre) => {
     const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
     const deployment = await deployments.get("FHEPredictionMarket");
     const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
     const contractAddress = await contract.getAddress();
     const signer = (await ethers.getSigners())[0];
 
+    const [pendingHandle, pending] = await contract.getPendingWithdrawal(signer.address);
+    if (pending && !taskArgs.finalize) {
+      const { clearValues } = await fhevm.publicDecrypt([pendingHandle]);
+      const amount = clearValues[pendingHandle as `0x${string}`] as bigint;
+      console.log(`A withdrawal of ${ethers.formatEther(amount)} ETH is pending for ${signer.address}`);
+      console.log("Pass --finalize to complete it before requesting another");
+      return;
+    }
+    if (!pending) {
+      if (taskArgs.finalize) {
+        throw new Error(`No pending withdrawal for ${signer.address}`);
+      }
+      if (taskArgs.eth === undefined) {
+        throw new Error("Pass --eth with the amount to withdraw");
+      }
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .add64(ethers.parseEther(String(taskArgs.eth)))
+        .encrypt();
+      const requestTx = await contract
+        .connect(signer)
+        .requestWithdrawal(encryptedAmount.handles[0], encryptedAmount.inputProof);
+      console.log(`Withdrawal request tx=${requestTx.hash}`);
+      await requestTx.wait();
+    }
+
+    const [amountHandle] = await contract.getPendingWithdrawal(signer.address);
+    const decryption = await fhevm.publicDecrypt([amountHandle]);
+    const tx = await contract
+      .connect(signer)
+      .finalizeWithdrawal(decryption.abiEncodedClearValues, decryption.decryptionProof);
+    console.log(`Finalize withdrawal tx=${tx.hash}`);
+    await tx.wait();
+    console.log(`Withdrawn (wei): ${decryption.clearValues[amountHandle as `0x${string}`]?.toString()}`);
+  });
+
+task("task:resolve-prediction", "Declares the winning option of a prediction (resolver only)")
+  .addParam("prediction", "Prediction id")
+  .addParam("winner", "0-based index of the winning option")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("FHEPredictionMarket");
+    const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
+    const signer = (await ethers.getSigners())[0];
+
     const predictionId = Number(taskArgs.prediction);
-    const choice = Number(taskArgs.choice);
-    if (Number.isNaN(predictionId) || Number.isNaN(choice)) {
-      throw new Error("Prediction id and choice must be numeric");
+    const winner = Number(taskArgs.winner);
+    if (Number.isNaN(predictionId) || Number.isNaN(winner)) {
+      throw new Error("Prediction id and winner must be numeric");
     }
 
-    const encryptedChoice = await fhevm
-      .createEncryptedInput(contractAddress, signer.address)
-      .add8(choice)
-      .encrypt();
+    const tx = await contract.connect(signer).resolvePrediction(predictionId, winner);
+    console.log(`Resolve tx=${tx.hash}`);
+    await tx.wait();
+  });
 
+task("task:resolve-scalar", "Resolves a scalar prediction with the observed value (resolver only)")
+  .addParam("prediction", "Prediction id")
+  .addParam("value", "Observed value, resolved to the bucket it falls in")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("FHEPredictionMarket");
+    const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
+    const signer = (await ethers.getSigners())[0];
+
+    const predictionId = Number(taskArgs.prediction);
+    if (Number.isNaN(predictionId)) {
+      throw new Error("Prediction id must be numeric");
+    }
+    const value = BigInt(taskArgs.value);
+    const [lowerBound, upperBound] = await contract.getScalarRange(predictionId);
+    const bucket = await contract.getScalarBucket(predictionId, value);
+    console.log(`Value ${value} falls in bucket ${bucket} of [${lowerBound}, ${upperBound})`);
+
+    const tx = await contract.connect(signer).resolveScalarPrediction(predictionId, value);
+    console.log(`Resolve tx=${tx.hash}`);
+    await tx.wait();
+  });
+
+task("task:resolve-from-oracle", "Resolves a prediction with the outcome reported by its resolver contract")
+  .addParam("prediction", "Prediction id")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("FHEPredictionMarket");
+    const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
+    const signer = (await ethers.getSigners())[0];
+
+    const predictionId = Number(taskArgs.prediction);
+    if (Number.isNaN(predictionId)) {
+      throw new Error("Prediction id must be numeric");
+    }
+
+    const tx = await contract.connect(signer).resolveFromOracle(predictionId);
+    console.log(`Resolve from oracle tx=${tx.hash}`);
+    await tx.wait();
+  });
+
+task("task:oracle-report", "Reports an outcome through the mock oracle (local networks only)")
+  .addParam("prediction", "Prediction id")
+  .addParam("winner", "0-based index of the winning option")
+  .addFlag("push", "Also resolve the prediction by having the oracle call resolvePrediction")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const marketDeployment = await deployments.get("FHEPredictionMarket");
+    const oracleDeployment = await deployments.get("MockPredictionOracle");
+    const oracle = await ethers.getContractAt("MockPredictionOracle", oracleDeployment.address);
+    const signer = (await ethers.getSigners())[0];
+
+    const predictionId = Number(taskArgs.prediction);
+    const winner = Number(taskArgs.winner);
+    if (Number.isNaN(predictionId) || Number.isNaN(winner)) {
+      throw new Error("Prediction id and winner must be numeric");
+    }
+
+    const tx = await oracle.connect(signer).setOutcome(marketDeployment.address, predictionId, winner);
+    console.log(`Report outcome tx=${tx.hash}`);
+    await tx.wait();
+
+    if (taskArgs.push) {
+      const pushTx = await oracle.connect(signer).pushOutcome(marketDeployment.address, predictionId);
+      console.log(`Push outcome tx=${pushTx.hash}`);
+      await pushTx.wait();
+    }
+  });
+
+task("task:publish-totals", "Publicly decrypts and publishes the pool and winning total of a resolved prediction")
+  .addParam("prediction", "Prediction id")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const deployment = await deployments.get("FHEPredictionMarket");
+    const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
+    const signer = (await ethers.getSigners())[0];
+    const predictionId = Number(taskArgs.prediction);
+
+    const [totals, pool] = await contract.getEncryptedTotals(predictionId);
+    const resolution = await contract.getResolution(predictionId);
+    if (!resolution.resolved) {
+      throw new Error(`Prediction #${predictionId} is not resolved yet`);
+    }
+
+    const decryption = await fhevm.publicDecrypt([pool, totals[Number(resolution.winningOption)]]);
+    const tx = await contract
+      .connect(signer)
+      .publishResolutionTotals(predictionId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    console.log(`Publish totals tx=${tx.hash}`);
+    await tx.wait();
+
+    const published = await contract.getResolution(predictionId);
+    console.log(`Total pool (wei): ${published.pool.toString()}`);
+    console.log(`Winning option #${published.winningOption} total (wei): ${published.winningTotal.toString()}`);
+    const fees = await contract.getPredictionFees(predictionId);
+    console.log(`Protocol fee (wei): ${fees.protocolFee.toString()}, creator fee (wei): ${fees.creatorFee.toString()}`);
+  });
+
+task("task:claim-winnings", "Claims and releases the payout of a resolved prediction")
+  .addParam("prediction", "Prediction id")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const deployment = await deployments.get("FHEPredictionMarket");
+    const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
+    const signer = (await ethers.getSigners())[0];
+    const predictionId = Number(taskArgs.prediction);
+
+    const claimState = await contract.getClaim(predictionId, signer.address);
+    if (!claimState.claimed) {
+      const claimTx = await contract.connect(signer).claimWinnings(predictionId);
+      console.log(`Claim tx=${claimTx.hash}`);
+      await claimTx.wait();
+    }
+
+    const [payoutHandle, , paidOut] = await contract.getClaim(predictionId, signer.address);
+    if (paidOut) {
+      console.log("Payout settled confidentially; decrypt your balance to see it");
+      return;
+    }
+    const decryption = await fhevm.publicDecrypt([payoutHandle]);
     const tx = await contract
       .connect(signer)
-      .placeEncryptedBet(predictionId, encryptedChoice.handles[0], encryptedChoice.inputProof, {
-        value: ethers.parseEther(String(taskArgs.eth)),
-      });
+      .finalizeClaim(predictionId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    console.log(`Finalize claim tx=${tx.hash}`);
+    await tx.wait();
+    console.log(`Payout (wei): ${decryption.clearValues[payoutHandle as `0x${string}`]?.toString()}`);
+  });
 
-    console.log(`Placed bet tx=${tx.hash}`);
+task("task:cancel-prediction", "Cancels a prediction while betting is open (creator only)")
+  .addParam("prediction", "Prediction id")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("FHEPredictionMarket");
+    const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
+    const signer = (await ethers.getSigners())[0];
+    const predictionId = Number(taskArgs.prediction);
+
+    const tx = await contract.connect(signer).cancelPrediction(predictionId);
+    console.log(`Cancel tx=${tx.hash}`);
     await tx.wait();
   });
 
-task("task:decrypt-totals", "Decrypts option totals for a prediction")
+task("task:refund", "Claims and releases the refund of a cancelled prediction")
   .addParam("prediction", "Prediction id")
   .setAction(async (taskArgs: TaskArguments, hre) => {
     const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
     const deployment = await deployments.get("FHEPredictionMarket");
     const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
-    const contractAddress = await contract.getAddress();
     const signer = (await ethers.getSigners())[0];
     const predictionId = Number(taskArgs.prediction);
 
-    const [totals, pool] = await contract.getEncryptedTotals(predictionId);
+    const claimState = await contract.getClaim(predictionId, signer.address);
+    if (!claimState.claimed) {
+      const refundTx = await contract.connect(signer).refund(predictionId);
+      console.log(`Refund tx=${refundTx.hash}`);
+      await refundTx.wait();
+    }
+
+    const [payoutHandle, , paidOut] = await contract.getClaim(predictionId, signer.address);
+    if (paidOut) {
+      console.log("Refund settled confidentially; decrypt your balance to see it");
+      return;
+    }
+    const decryption = await fhevm.publicDecrypt([payoutHandle]);
+    const tx = await contract
+      .connect(signer)
+      .finalizeClaim(predictionId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    console.log(`Finalize refund tx=${tx.hash}`);
+    await tx.wait();
+    console.log(`Refunded (wei): ${decryption.clearValues[payoutHandle as `0x${string}`]?.toString()}`);
+  });
+
+task("task:reveal-totals", "Makes the totals of a prediction publicly decryptable once betting has closed")
+  .addParam("prediction", "Prediction id")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("FHEPredictionMarket");
+    const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
+    const signer = (await ethers.getSigners())[0];
+    const predictionId = Number(taskArgs.prediction);
+
+    const tx = await contract.connect(signer).revealTotals(predictionId);
+    console.log(`Reveal tx=${tx.hash}`);
+    await tx.wait();
+  });
+
+task("task:decrypt-totals", "Decrypts option totals for a prediction once they have been revealed")
+  .addParam("prediction", "Prediction id")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const client = await getMarketClient(hre);
+    const predictionId = Number(taskArgs.prediction);
+
+    const { pool, revealed } = await client.getTotals(predictionId);
     console.log(`Prediction #${predictionId} pool handle: ${pool}`);
+    if (!revealed) {
+      const state = PREDICTION_STATES[Number(await client.contract.getPredictionState(predictionId))];
+      console.log(
+        state === "Open"
+          ? "Totals stay encrypted until betting closes."
+          : `Totals are not revealed yet, run task:reveal-totals --prediction ${predictionId} first.`,
+      );
+      return;
+    }
 
-    const clearPool = await fhevm.userDecryptEuint(FhevmType.euint64, pool, contractAddress, signer);
-    console.log(`Total pool (wei): ${clearPool.toString()}`);
+    const clearTotals = await client.decryptTotals(predictionId);
+    console.log(`Total pool (wei): ${clearTotals.pool.toString()}`);
 
-    for (let i = 0; i < totals.length; i++) {
-      const decrypted = await fhevm.userDecryptEuint(FhevmType.euint64, totals[i], contractAddress, signer);
-      console.log(`Option #${i} total (wei): ${decrypted.toString()}`);
+    for (let i = 0; i < clearTotals.totals.length; i++) {
+      console.log(`Option #${i} total (wei): ${clearTotals.totals[i].toString()}`);
+    }
+  });
+
+task("task:report", "Exports the pool, option totals and implied odds of many predictions")
+  .addOptionalParam("from", "First prediction id", "1")
+  .addOptionalParam("to", "Last prediction id, defaults to the latest one")
+  .addOptionalParam("state", `Only report predictions in this state: ${PREDICTION_STATES.join(", ")}`)
+  .addOptionalParam("category", "Only report predictions tagged with this category")
+  .addOptionalParam("format", `Output format: ${REPORT_FORMATS.join(", ")}`, "table")
+  .addOptionalParam("out", "Write the report to this file, relative to the project root, instead of printing it")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    // Progress goes to stderr, so that a JSON or CSV report printed to stdout can be piped as is.
+    const client = await getMarketClient(hre, console.error);
+
+    const format = String(taskArgs.format).toLowerCase();
+    if (!REPORT_FORMATS.includes(format)) {
+      throw new Error(`Format must be one of: ${REPORT_FORMATS.join(", ")}`);
+    }
+    if (format === "table" && taskArgs.out) {
+      throw new Error("Pass --format json or --format csv to write the report to a file");
+    }
+    const count = Number(await client.contract.getPredictionCount());
+    const from = Number(taskArgs.from);
+    const to = taskArgs.to === undefined ? count : Number(taskArgs.to);
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || (taskArgs.to !== undefined && to < from)) {
+      throw new Error("Pass prediction ids with --from at least 1 and --to at least --from");
+    }
+    const state = taskArgs.state
+      ? PREDICTION_STATES.findIndex((name: string) => name.toLowerCase() === String(taskArgs.state).toLowerCase())
+      : undefined;
+    if (state === -1) {
+      throw new Error(`State must be one of: ${PREDICTION_STATES.join(", ")}`);
     }
+
+    // Positions in the listing are prediction ids minus one; hidden predictions are left out of it.
+    const summaries: FHEPredictionMarket.PredictionSummaryStructOutput[] = [];
+    for (let offset = from - 1; offset < Math.min(to, count); offset += REPORT_PAGE_SIZE) {
+      const [page] = await client.contract.listPredictionsPaged(offset, Math.min(REPORT_PAGE_SIZE, to - offset));
+      summaries.push(
+        ...page.filter(
+          (summary) =>
+            (state === undefined || Number(summary.state) === state) &&
+            (!taskArgs.category || summary.details.category === taskArgs.category),
+        ),
+      );
+    }
+
+    const totals = await client.decryptTotalsBatch(summaries.map((summary) => summary.id));
+    const entries = summaries.map((summary, index) => reportEntry(summary, totals[index]));
+    const encrypted = entries.filter((entry) => entry.pool === null).length;
+    console.error(
+      `Reporting ${entries.length} prediction(s)` +
+        (encrypted > 0 ? `, ${encrypted} with totals still encrypted (see task:reveal-totals)` : ""),
+    );
+
+    if (format === "table") {
+      console.table(
+        reportRows(entries).map(({ probability, odds, ...row }) => ({
+          ...row,
+          pool: row.pool ?? "encrypted",
+          total: row.total ?? "encrypted",
+          probability: probability === null ? "" : `${(Number(probability) * 100).toFixed(2)}%`,
+          odds: odds === null ? "" : Number(odds).toFixed(2),
+        })),
+      );
+      return;
+    }
+
+    const report = format === "json" ? JSON.stringify(entries, null, 2) : toCsv(entries);
+    if (taskArgs.out) {
+      const output = path.resolve(hre.config.paths.root, String(taskArgs.out));
+      fs.mkdirSync(path.dirname(output), { recursive: true });
+      fs.writeFileSync(output, `${report}\n`);
+      console.error(`Wrote the report to ${path.relative(hre.config.paths.root, output)}`);
+    } else {
+      console.log(report);
+    }
+  });
+
+task("task:reveal-score", "Makes the caller's score publicly decryptable (irreversible)").setAction(
+  async (_: TaskArguments, hre) => {
+    const { ethers } = hre;
+    const client = await getMarketClient(hre);
+
+    const score = await client.decryptMyScore();
+    if (!score) {
+      console.log("No claimed ETH bets yet, claim a resolved prediction first.");
+      return;
+    }
+    console.log(`Profit: ${ethers.formatEther(score.profit)} ETH over ${score.marketsClaimed} market(s)`);
+    if ((await client.contract.getScore(score.user)).revealed) {
+      console.log("Score already revealed");
+      return;
+    }
+
+    const tx = await client.contract.revealScore();
+    console.log(`Reveal score tx=${tx.hash}`);
+    await tx.wait();
+  },
+);
+
+task("task:leaderboard", "Decrypts the revealed scores and ranks bettors by profit")
+  .addOptionalParam("limit", "Number of bettors to show", "10")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers } = hre;
+    const client = await getMarketClient(hre);
+
+    const scores = await client.decryptLeaderboard();
+    if (scores.length === 0) {
+      console.log("No bettor has revealed their score yet");
+      return;
+    }
+    for (const [index, score] of scores.slice(0, Number(taskArgs.limit)).entries()) {
+      console.log(
+        `#${index + 1} ${score.user}: ${ethers.formatEther(score.profit)} ETH profit ` +
+          `(staked ${ethers.formatEther(score.staked)}, returned ${ethers.formatEther(score.returned)}, ` +
+          `${score.marketsClaimed} market(s))`,
+      );
+    }
+    console.log(`${scores.length} revealed score(s)`);
+  });
+
+task("task:set-protocol-fee", "Sets the protocol fee of new predictions and optionally its recipient (admin only)")
+  .addParam("bps", "Fee in basis points of the pool")
+  .addOptionalParam("recipient", "Address protocol fees accrue to from now on (owner only)")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("FHEPredictionMarket");
+    const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
+    const signer = (await ethers.getSigners())[0];
+    const feeBps = Number(taskArgs.bps);
+    if (!Number.isInteger(feeBps) || feeBps < 0) {
+      throw new Error("Fee must be a whole number of basis points");
+    }
+
+    const tx = await contract.connect(signer).setProtocolFee(feeBps);
+    console.log(`Set protocol fee tx=${tx.hash}`);
+    await tx.wait();
+
+    if (taskArgs.recipient) {
+      if (!ethers.isAddress(taskArgs.recipient)) {
+        throw new Error(`${taskArgs.recipient} is not a valid address`);
+      }
+      const recipientTx = await contract.connect(signer).setFeeRecipient(taskArgs.recipient);
+      console.log(`Set fee recipient tx=${recipientTx.hash}`);
+      await recipientTx.wait();
+    }
+
+    const [protocolFeeBps, feeRecipient] = await contract.getFeeConfig();
+    console.log(`Protocol fee: ${protocolFeeBps.toString()} bps, paid to ${feeRecipient}`);
+  });
+
+task("task:withdraw-fees", "Withdraws the protocol or creator fees accrued to the caller in one collateral")
+  .addOptionalParam("collateral", "Collateral type: native, erc20 or confidential", "native")
+  .addOptionalParam("token", "Collateral token address for erc20 and confidential fees")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("FHEPredictionMarket");
+    const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
+    const signer = (await ethers.getSigners())[0];
+
+    const collateralType = COLLATERAL_TYPES.indexOf(String(taskArgs.collateral));
+    if (collateralType < 0) {
+      throw new Error(`Collateral must be one of: ${COLLATERAL_TYPES.join(", ")}`);
+    }
+    const token = taskArgs.token ? String(taskArgs.token) : ethers.ZeroAddress;
+    if (!ethers.isAddress(token) || (collateralType === COLLATERAL_NATIVE) !== (token === ethers.ZeroAddress)) {
+      throw new Error("Pass --token for erc20 and confidential fees, and only for them");
+    }
+
+    const accrued = await contract.getAccruedFees(signer.address, collateralType, token);
+    if (accrued === 0n) {
+      console.log(`No ${taskArgs.collateral} fees to withdraw for ${signer.address}`);
+      return;
+    }
+    const tx = await contract.connect(signer).withdrawFees(collateralType, token);
+    console.log(`Withdraw fees tx=${tx.hash}`);
+    await tx.wait();
+    console.log(`Withdrew ${accrued.toString()} ${collateralType === COLLATERAL_NATIVE ? "wei" : "token units"}`);
   });
@@ -0,0 +1,119 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+const PROPOSAL_STATES = ["None", "Proposed", "Disputed", "Settled"];
+
+task("task:resolver-address", "Prints the OptimisticResolver deployment address and settings").setAction(
+  async (_taskArguments: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("OptimisticResolver");
+    const resolver = await ethers.getContractAt("OptimisticResolver", deployment.address);
+    console.log(`OptimisticResolver address: ${deployment.address}`);
+    console.log(`Arbitrator: ${await resolver.arbitrator()}`);
+    console.log(`Bond: ${ethers.formatEther(await resolver.bond())} ETH`);
+    console.log(`Challenge window: ${(await resolver.challengeWindow()).toString()}s`);
+  },
+);
+
+task("task:propose-outcome", "Proposes the winning option of a prediction by posting the resolver bond")
+  .addParam("prediction", "Prediction id")
+  .addParam("winner", "0-based index of the proposed winning option")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("OptimisticResolver");
+    const resolver = await ethers.getContractAt("OptimisticResolver", deployment.address);
+    const signer = (await ethers.getSigners())[0];
+
+    const predictionId = Number(taskArgs.prediction);
+    const winner = Number(taskArgs.winner);
+    if (Number.isNaN(predictionId) || Number.isNaN(winner)) {
+      throw new Error("Prediction id and winner must be numeric");
+    }
+
+    const bond = await resolver.bond();
+    const tx = await resolver.connect(signer).proposeOutcome(predictionId, winner, { value: bond });
+    console.log(`Propose tx=${tx.hash}`);
+    await tx.wait();
+  });
+
+task("task:dispute-outcome", "Disputes a pending proposal by matching the resolver bond")
+  .addParam("prediction", "Prediction id")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("OptimisticResolver");
+    const resolver = await ethers.getContractAt("OptimisticResolver", deployment.address);
+    const signer = (await ethers.getSigners())[0];
+
+    const predictionId = Number(taskArgs.prediction);
+    if (Number.isNaN(predictionId)) {
+      throw new Error("Prediction id must be numeric");
+    }
+
+    const bond = await resolver.bond();
+    const tx = await resolver.connect(signer).disputeOutcome(predictionId, { value: bond });
+    console.log(`Dispute tx=${tx.hash}`);
+    await tx.wait();
+  });
+
+task("task:finalize-outcome", "Finalizes an undisputed proposal once its challenge window has passed")
+  .addParam("prediction", "Prediction id")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("OptimisticResolver");
+    const resolver = await ethers.getContractAt("OptimisticResolver", deployment.address);
+    const signer = (await ethers.getSigners())[0];
+
+    const predictionId = Number(taskArgs.prediction);
+    if (Number.isNaN(predictionId)) {
+      throw new Error("Prediction id must be numeric");
+    }
+
+    const tx = await resolver.connect(signer).finalizeOutcome(predictionId);
+    console.log(`Finalize tx=${tx.hash}`);
+    await tx.wait();
+  });
+
+task("task:arbitrate", "Settles a disputed proposal (arbitrator only)")
+  .addParam("prediction", "Prediction id")
+  .addParam("winner", "0-based index of the winning option")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("OptimisticResolver");
+    const resolver = await ethers.getContractAt("OptimisticResolver", deployment.address);
+    const signer = (await ethers.getSigners())[0];
+
+    const predictionId = Number(taskArgs.prediction);
+    const winner = Number(taskArgs.winner);
+    if (Number.isNaN(predictionId) || Number.isNaN(winner)) {
+      throw new Error("Prediction id and winner must be numeric");
+    }
+
+    const tx = await resolver.connect(signer).resolveDispute(predictionId, winner);
+    console.log(`Arbitrate tx=${tx.hash}`);
+    await tx.wait();
+  });
+
+task("task:get-proposal", "Prints the optimistic proposal of a prediction")
+  .addParam("prediction", "Prediction id")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("OptimisticResolver");
+    const resolver = await ethers.getContractAt("OptimisticResolver", deployment.address);
+
+    const predictionId = Number(taskArgs.prediction);
+    if (Number.isNaN(predictionId)) {
+      throw new Error("Prediction id must be numeric");
+    }
+
+    const proposal = await resolver.getProposal(predictionId);
+    const challengeEndsAt = proposal.proposedAt + (await resolver.challengeWindow());
+    console.log(`State: ${PROPOSAL_STATES[Number(proposal.state)]}`);
+    if (Number(proposal.state) === 0) {
+      return;
+    }
+    console.log(`Proposer: ${proposal.proposer} (outcome ${proposal.outcome.toString()})`);
+    console.log(`Challenge window ends: ${new Date(Number(challengeEndsAt) * 1000).toISOString()}`);
+    if (proposal.disputer !== ethers.ZeroAddress) {
+      console.log(`Disputer: ${proposal.disputer}`);
+    }
+  });
@@ -0,0 +1,192 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+const COLLATERAL_TYPES = ["native", "erc20", "confidential"];
+const COLLATERAL_NATIVE = 0;
+
+async function getSeriesContract(hre: HardhatRuntimeEnvironment) {
+  const { ethers, deployments } = hre;
+  const deployment = await deployments.get("PredictionSeries");
+  return ethers.getContractAt("PredictionSeries", deployment.address);
+}
+
+function parseSeriesId(value: unknown) {
+  const seriesId = Number(value);
+  if (!Number.isInteger(seriesId) || seriesId <= 0) {
+    throw new Error("Series id must be a positive number");
+  }
+  return seriesId;
+}
+
+task("task:create-series", "Creates a recurring series of predictions from a template and spawns its first round")
+  .addParam("name", "Title shared by every round")
+  .addParam("options", "Comma separated option labels, e.g. 'Yes,No'")
+  .addOptionalParam("bettingDuration", "Seconds each round accepts bets", "604800")
+  .addOptionalParam("resolutionWindow", "Seconds after a round closes to resolve it", "604800")
+  .addOptionalParam("resolver", "Address allowed to resolve the rounds (defaults to the series owner)")
+  .addOptionalParam("keeper", "Only address besides the owner allowed to spawn rounds (defaults to anyone)")
+  .addOptionalParam("collateral", "Collateral type: native, erc20 or confidential", "native")
+  .addOptionalParam("token", "Collateral token address for erc20 and confidential series")
+  .addOptionalParam("description", "What the rounds are about", "")
+  .addOptionalParam("category", "Category tag, e.g. releases", "")
+  .addOptionalParam("criteria", "Exactly what resolves a round", "")
+  .addOptionalParam("source", "URL or content hash (e.g. IPFS CID) of off-chain material", "")
+  .addOptionalParam("minBet", "Smallest stake of a bet, in ETH for native series and token units otherwise")
+  .addOptionalParam("maxBet", "Largest stake of a bet, in ETH for native series and token units otherwise")
+  .addOptionalParam("maxPool", "Cap on the pool of a round, in ETH for native series and token units otherwise")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers } = hre;
+    const series = await getSeriesContract(hre);
+
+    const options = String(taskArgs.options)
+      .split(",")
+      .map((option: string) => option.trim())
+      .filter((option: string) => option.length > 0);
+    const bettingDuration = Number(taskArgs.bettingDuration);
+    const resolutionWindow = Number(taskArgs.resolutionWindow);
+    if (Number.isNaN(bettingDuration) || Number.isNaN(resolutionWindow)) {
+      throw new Error("Betting duration and resolution window must be numeric");
+    }
+
+    const resolver = taskArgs.resolver ? String(taskArgs.resolver) : ethers.ZeroAddress;
+    const keeper = taskArgs.keeper ? String(taskArgs.keeper) : ethers.ZeroAddress;
+    if (!ethers.isAddress(resolver) || !ethers.isAddress(keeper)) {
+      throw new Error("Resolver and keeper must be valid addresses");
+    }
+    const collateralType = COLLATERAL_TYPES.indexOf(String(taskArgs.collateral));
+    if (collateralType < 0) {
+      throw new Error(`Collateral must be one of: ${COLLATERAL_TYPES.join(", ")}`);
+    }
+    const token = taskArgs.token ? String(taskArgs.token) : ethers.ZeroAddress;
+    if (!ethers.isAddress(token) || (collateralType === COLLATERAL_NATIVE) !== (token === ethers.ZeroAddress)) {
+      throw new Error("Pass --token for erc20 and confidential series, and only for them");
+    }
+    const [minBet, maxBet, maxPool] = [taskArgs.minBet, taskArgs.maxBet, taskArgs.maxPool].map((limit) =>
+      limit === undefined
+        ? 0n
+        : collateralType === COLLATERAL_NATIVE
+          ? ethers.parseEther(String(limit))
+          : BigInt(limit),
+    );
+
+    console.log(`Creating series "${taskArgs.name}" with options: ${options.join(", ")}`);
+    const tx = await series.createSeries(
+      {
+        name: taskArgs.name,
+        options,
+        resolver,
+        collateralType,
+        collateralToken: token,
+        bettingDuration,
+        resolutionWindow,
+        details: {
+          description: taskArgs.description,
+          category: taskArgs.category,
+          resolutionCriteria: taskArgs.criteria,
+          source: taskArgs.source,
+        },
+        limits: { minBet, maxBet, maxPool },
+      },
+      keeper,
+    );
+    console.log(`Create series tx=${tx.hash}`);
+    const receipt = await tx.wait();
+
+    for (const log of receipt?.logs ?? []) {
+      const event = series.interface.parseLog(log);
+      if (event?.name === "RoundSpawned") {
+        console.log(
+          `Created series #${event.args.seriesId.toString()}, round 1 is prediction #${event.args.predictionId.toString()}`,
+        );
+      }
+    }
+  });
+
+task("task:spawn-round", "Spawns the next round of a series once betting on the previous round has closed")
+  .addParam("series", "Series id")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const series = await getSeriesContract(hre);
+    const seriesId = parseSeriesId(taskArgs.series);
+
+    const { nextRoundAt, ended } = await series.getSeries(seriesId);
+    const latestBlock = await hre.ethers.provider.getBlock("latest");
+    if (ended) {
+      throw new Error(`Series #${seriesId} has ended`);
+    }
+    if (latestBlock && BigInt(latestBlock.timestamp) < nextRoundAt) {
+      throw new Error(
+        `The current round of series #${seriesId} accepts bets until ${new Date(Number(nextRoundAt) * 1000).toISOString()}`,
+      );
+    }
+
+    const tx = await series.spawnRound(seriesId);
+    console.log(`Spawn round tx=${tx.hash}`);
+    const receipt = await tx.wait();
+
+    for (const log of receipt?.logs ?? []) {
+      const event = series.interface.parseLog(log);
+      if (event?.name === "RoundSpawned") {
+        console.log(
+          `Spawned round ${event.args.round.toString()} of series #${seriesId} as prediction #${event.args.predictionId.toString()}`,
+        );
+      }
+    }
+  });
+
+task("task:list-series", "Lists prediction series one page at a time, with their latest rounds")
+  .addOptionalParam("offset", "Number of series to skip", "0")
+  .addOptionalParam("limit", "Maximum number of series to print", "20")
+  .addOptionalParam("rounds", "Maximum number of latest rounds to print per series", "10")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const series = await getSeriesContract(hre);
+
+    const [offset, limit, roundLimit] = [taskArgs.offset, taskArgs.limit, taskArgs.rounds].map(Number);
+    if ([offset, limit, roundLimit].some((value) => Number.isNaN(value) || value < 0) || limit === 0) {
+      throw new Error("Offset, limit and rounds must be positive numbers");
+    }
+
+    const [page, total] = await series.listSeries(offset, limit);
+    console.log(`Showing ${page.length} of ${total.toString()} series from offset ${offset}`);
+    for (const { id, template, owner, keeper, roundCount, nextRoundAt, ended } of page) {
+      console.log(
+        `- #${id.toString()} ${template.name}${ended ? " [ended]" : ""} (${template.options.join(" / ")}, ${
+          roundCount
+        } round(s), owner ${owner}, keeper ${keeper === hre.ethers.ZeroAddress ? "anyone" : keeper}, next round from ${new Date(
+          Number(nextRoundAt) * 1000,
+        ).toISOString()})`,
+      );
+      const from = roundCount > BigInt(roundLimit) ? roundCount - BigInt(roundLimit) : 0n;
+      const [rounds] = await series.getSeriesRounds(id, from, roundLimit);
+      console.log(
+        `  Rounds${from > 0n ? ` ${from + 1n} to ${roundCount}` : ""}: ${rounds
+          .map((predictionId) => `#${predictionId.toString()}`)
+          .join(", ")}`,
+      );
+    }
+  });
+
+task("task:set-series-keeper", "Sets the keeper of a series, or lets anyone spawn rounds (owner only)")
+  .addParam("series", "Series id")
+  .addOptionalParam("keeper", "Keeper address, omit to let anyone spawn rounds")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const series = await getSeriesContract(hre);
+    const seriesId = parseSeriesId(taskArgs.series);
+    const keeper = taskArgs.keeper ? String(taskArgs.keeper) : hre.ethers.ZeroAddress;
+    if (!hre.ethers.isAddress(keeper)) {
+      throw new Error("Keeper must be a valid address");
+    }
+
+    const tx = await series.setKeeper(seriesId, keeper);
+    console.log(`Set keeper tx=${tx.hash}`);
+    await tx.wait();
+  });
+
+task("task:end-series", "Stops a series from spawning new rounds (owner only)")
+  .addParam("series", "Series id")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const series = await getSeriesContract(hre);
+
+    const tx = await series.endSeries(parseSeriesId(taskArgs.series));
+    console.log(`End series tx=${tx.hash}`);
+    await tx.wait();
+  });
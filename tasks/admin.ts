@@ -0,0 +1,107 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+// Deployed market connected to the first signer, which must hold the role the task needs.
+async function getAdminContract(hre: HardhatRuntimeEnvironment) {
+  const { ethers, deployments } = hre;
+  const deployment = await deployments.get("FHEPredictionMarket");
+  const contract = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
+  const signer = (await ethers.getSigners())[0];
+  return contract.connect(signer);
+}
+
+task("task:admin-status", "Prints the owner, pause state and fee settings of the market").setAction(
+  async (_taskArguments: TaskArguments, hre) => {
+    const contract = await getAdminContract(hre);
+    const [protocolFeeBps, feeRecipient] = await contract.getFeeConfig();
+    console.log(`Owner: ${await contract.owner()}`);
+    console.log(`Pending owner: ${await contract.pendingOwner()}`);
+    console.log(`Paused: ${await contract.paused()}`);
+    console.log(`Protocol fee: ${protocolFeeBps.toString()} bps, paid to ${feeRecipient}`);
+  },
+);
+
+task("task:set-admin", "Grants or revokes the admin role (owner only)")
+  .addParam("account", "Address to update")
+  .addOptionalParam("enabled", "true to grant the role, false to revoke it", "true")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const contract = await getAdminContract(hre);
+    if (!hre.ethers.isAddress(taskArgs.account)) {
+      throw new Error(`${taskArgs.account} is not a valid address`);
+    }
+
+    const tx = await contract.setAdmin(taskArgs.account, taskArgs.enabled !== "false");
+    console.log(`Set admin tx=${tx.hash}`);
+    await tx.wait();
+  });
+
+task("task:pause", "Stops prediction creation and betting (admin only)").setAction(
+  async (_taskArguments: TaskArguments, hre) => {
+    const contract = await getAdminContract(hre);
+    const tx = await contract.pause();
+    console.log(`Pause tx=${tx.hash}`);
+    await tx.wait();
+  },
+);
+
+task("task:unpause", "Resumes prediction creation and betting (admin only)").setAction(
+  async (_taskArguments: TaskArguments, hre) => {
+    const contract = await getAdminContract(hre);
+    const tx = await contract.unpause();
+    console.log(`Unpause tx=${tx.hash}`);
+    await tx.wait();
+  },
+);
+
+task("task:hide-prediction", "Hides a prediction from the public listings without cancelling it (admin only)")
+  .addParam("prediction", "Prediction id")
+  .addOptionalParam("hidden", "false to show the prediction again", "true")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const contract = await getAdminContract(hre);
+    const predictionId = Number(taskArgs.prediction);
+    if (Number.isNaN(predictionId)) {
+      throw new Error("Prediction id must be numeric");
+    }
+
+    const tx = await contract.setPredictionHidden(predictionId, taskArgs.hidden !== "false");
+    console.log(`Moderation tx=${tx.hash}`);
+    await tx.wait();
+  });
+
+task("task:admin-cancel-prediction", "Cancels an unresolved prediction so its bettors can be refunded (admin only)")
+  .addParam("prediction", "Prediction id")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const contract = await getAdminContract(hre);
+    const predictionId = Number(taskArgs.prediction);
+    if (Number.isNaN(predictionId)) {
+      throw new Error("Prediction id must be numeric");
+    }
+
+    const tx = await contract.adminCancelPrediction(predictionId);
+    console.log(`Cancel tx=${tx.hash}`);
+    await tx.wait();
+  });
+
+task("task:transfer-ownership", "Starts an ownership transfer the new owner has to accept (owner only)")
+  .addParam("to", "Address of the new owner, or the zero address to cancel a pending transfer")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const contract = await getAdminContract(hre);
+    if (!hre.ethers.isAddress(taskArgs.to)) {
+      throw new Error(`${taskArgs.to} is not a valid address`);
+    }
+
+    const tx = await contract.transferOwnership(taskArgs.to);
+    console.log(`Transfer ownership tx=${tx.hash}`);
+    await tx.wait();
+    console.log(`Pending owner: ${await contract.pendingOwner()}, who must run task:accept-ownership`);
+  });
+
+task("task:accept-ownership", "Accepts a pending ownership transfer (pending owner only)").setAction(
+  async (_taskArguments: TaskArguments, hre) => {
+    const contract = await getAdminContract(hre);
+    const tx = await contract.acceptOwnership();
+    console.log(`Accept ownership tx=${tx.hash}`);
+    await tx.wait();
+    console.log(`Owner: ${await contract.owner()}`);
+  },
+);
@@ -0,0 +1,95 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import * as prettier from "prettier";
+
+const DEFAULT_OUTPUT = "ui/src/config/contracts.ts";
+// Entries of the generated chainId maps: quoted addresses, or bare block numbers.
+const MAP_ENTRY = /^\s*(\d+): "?(0x[0-9a-fA-F]{40}|\d+)"?,$/gm;
+
+// Reads a chainId map of a previously generated file, so exporting one network keeps the others.
+function readChainMap(file: string, name: string): Map<number, string> {
+  const entries = new Map<number, string>();
+  if (!fs.existsSync(file)) {
+    return entries;
+  }
+
+  const source = fs.readFileSync(file, "utf8");
+  const start = source.indexOf(`${name}: Record`);
+  if (start < 0) {
+    return entries;
+  }
+  for (const match of source.slice(start, source.indexOf("};", start)).matchAll(MAP_ENTRY)) {
+    entries.set(Number(match[1]), match[2]);
+  }
+  return entries;
+}
+
+function chainMapEntries(entries: Map<number, string>, quoted: boolean) {
+  return [...entries.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([chainId, value]) => `  ${chainId}: ${quoted ? `"${value}"` : value},`);
+}
+
+task(
+  "task:export-frontend",
+  "Writes the FHEPredictionMarket and PredictionSeries ABIs and per-chain addresses and blocks used by the frontend",
+)
+  .addOptionalParam("out", "Output file, relative to the project root", DEFAULT_OUTPUT)
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { deployments, network, getChainId } = hre;
+    const deployment = await deployments.get("FHEPredictionMarket");
+    const seriesDeployment = await deployments.getOrNull("PredictionSeries");
+    const output = path.resolve(hre.config.paths.root, String(taskArgs.out));
+
+    const addresses = readChainMap(output, "CONTRACT_ADDRESSES");
+    const deploymentBlocks = readChainMap(output, "DEPLOYMENT_BLOCKS");
+    const seriesAddresses = readChainMap(output, "SERIES_ADDRESSES");
+    if (network.name === "hardhat") {
+      // The in-process network is gone once the command exits, so only its ABI is worth exporting.
+      console.log("Skipping the address of the in-process hardhat network, deploy to localhost to export it");
+    } else {
+      const chainId = Number(await getChainId());
+      addresses.set(chainId, deployment.address);
+      deploymentBlocks.set(chainId, String(deployment.receipt?.blockNumber ?? 0));
+      if (seriesDeployment) {
+        seriesAddresses.set(chainId, seriesDeployment.address);
+      }
+    }
+    const seriesAbi = seriesDeployment?.abi ?? (await hre.artifacts.readArtifact("PredictionSeries")).abi;
+
+    const source = await prettier.format(
+      [
+        "// Generated by `npx hardhat task:export-frontend` from the hardhat-deploy artifacts. Do not edit by hand.",
+        `export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";`,
+        "",
+        "// FHEPredictionMarket deployments by chain id.",
+        "export const CONTRACT_ADDRESSES: Record<number, `0x${string}`> = {",
+        ...chainMapEntries(addresses, true),
+        "};",
+        "",
+        "// Block each FHEPredictionMarket was deployed in, the first one worth scanning for its events.",
+        "export const DEPLOYMENT_BLOCKS: Record<number, number> = {",
+        ...chainMapEntries(deploymentBlocks, false),
+        "};",
+        "",
+        "// PredictionSeries deployments by chain id.",
+        "export const SERIES_ADDRESSES: Record<number, `0x${string}`> = {",
+        ...chainMapEntries(seriesAddresses, true),
+        "};",
+        "",
+        `export const CONTRACT_ABI = ${JSON.stringify(deployment.abi, null, 2)} as const;`,
+        "",
+        `export const SERIES_ABI = ${JSON.stringify(seriesAbi, null, 2)} as const;`,
+      ].join("\n"),
+      // Formatted like the rest of the repository, so the generated file passes `npm run prettier:check`.
+      { ...(await prettier.resolveConfig(output)), filepath: output },
+    );
+
+    fs.mkdirSync(path.dirname(output), { recursive: true });
+    fs.writeFileSync(output, source);
+    console.log(
+      `Wrote the contract ABIs and ${addresses.size + seriesAddresses.size} address(es) to ${path.relative(process.cwd(), output)}`,
+    );
+  });
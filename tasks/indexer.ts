@@ -0,0 +1,61 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { createApiServer, createIndexer, createIndexerStore } from "../indexer";
+
+task("task:indexer", "Indexes FHEPredictionMarket events into SQLite and serves them over a JSON API")
+  .addOptionalParam("db", "SQLite database file, relative to the project root", "indexer.sqlite")
+  .addOptionalParam("port", "Port of the HTTP API", "4000")
+  .addOptionalParam("address", "Market address, defaults to the deployment of the selected network")
+  .addOptionalParam("fromBlock", "First block to index when the database is empty, defaults to the deployment block")
+  .addOptionalParam("confirmations", "Blocks to stay behind the chain head", "0")
+  .addOptionalParam("interval", "Polling interval in milliseconds", "2000")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+
+    let contractAddress = taskArgs.address ? String(taskArgs.address) : undefined;
+    let startBlock = taskArgs.fromBlock === undefined ? undefined : Number(taskArgs.fromBlock);
+    const { abi } = await hre.artifacts.readArtifact("FHEPredictionMarket");
+    if (!contractAddress) {
+      const deployment = await deployments.get("FHEPredictionMarket");
+      contractAddress = deployment.address;
+      startBlock ??= deployment.receipt?.blockNumber;
+    }
+    if (!ethers.isAddress(contractAddress)) {
+      throw new Error("Market address must be a valid address");
+    }
+    const port = Number(taskArgs.port);
+    const confirmations = Number(taskArgs.confirmations);
+    const interval = Number(taskArgs.interval);
+    if ([port, confirmations, interval, startBlock ?? 0].some(Number.isNaN)) {
+      throw new Error("Port, confirmations, interval and from block must be numeric");
+    }
+
+    const dbFile = path.resolve(hre.config.paths.root, String(taskArgs.db));
+    fs.mkdirSync(path.dirname(dbFile), { recursive: true });
+    const store = createIndexerStore(dbFile);
+    const indexer = createIndexer({
+      provider: ethers.provider,
+      contractAddress,
+      abi,
+      store,
+      startBlock,
+      confirmations,
+    });
+    const server = createApiServer(store);
+
+    console.log(`Indexing ${contractAddress} into ${path.relative(process.cwd(), dbFile)}...`);
+    console.log(`Synced up to block ${await indexer.sync()}`);
+    indexer.start(interval);
+    await new Promise<void>((resolve) => server.listen(port, resolve));
+    console.log(`API listening on http://localhost:${port} (Ctrl+C to stop)`);
+
+    await new Promise<void>((resolve) => {
+      process.once("SIGINT", resolve);
+      process.once("SIGTERM", resolve);
+    });
+    indexer.stop();
+    server.close();
+    store.close();
+  });
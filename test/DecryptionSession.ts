@@ -0,0 +1,138 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FHEPredictionMarket } from "../types";
+import { FhevmBackend, PermissionStorage, createDecryptionSession, createPredictionMarketClient } from "../sdk";
+
+// Delegates to the mock and counts the signature requests (one EIP-712 payload each) and decryption requests.
+function countingBackend() {
+  const calls = { signatures: 0, decryptions: 0 };
+  const backend: FhevmBackend = {
+    createEncryptedInput: (contractAddress, userAddress) => fhevm.createEncryptedInput(contractAddress, userAddress),
+    generateKeypair: () => fhevm.generateKeypair(),
+    createEIP712: (...args: Parameters<FhevmBackend["createEIP712"]>) => {
+      calls.signatures++;
+      return fhevm.createEIP712(...args);
+    },
+    userDecrypt: (...args: Parameters<FhevmBackend["userDecrypt"]>) => {
+      calls.decryptions++;
+      return fhevm.userDecrypt(...args);
+    },
+    publicDecrypt: (handles) => fhevm.publicDecrypt(handles),
+  };
+  return { backend, calls };
+}
+
+function memoryStorage(): PermissionStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+describe("DecryptionSession", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let market: FHEPredictionMarket;
+  let marketAddress: string;
+
+  before(async function () {
+    [, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This test suite only runs inside the FHEVM mock");
+      this.skip();
+    }
+
+    const ledger = await (await ethers.getContractFactory("PredictionLedger")).deploy();
+    market = (await (
+      await ethers.getContractFactory("FHEPredictionMarket", {
+        libraries: { PredictionLedger: await ledger.getAddress() },
+      })
+    ).deploy()) as FHEPredictionMarket;
+    marketAddress = await market.getAddress();
+    await market.connect(alice).deposit({ value: ethers.parseEther("1") });
+    await market.connect(bob).deposit({ value: ethers.parseEther("2") });
+  });
+
+  it("signs once and reuses the stored permission across sessions", async function () {
+    const { backend, calls } = countingBackend();
+    const storage = memoryStorage();
+    const balance = await market.getEncryptedBalance(alice.address);
+
+    const session = createDecryptionSession({ backend, signer: alice, contractAddress: marketAddress, storage });
+    expect(await session.getStoredPermission()).to.eq(null);
+    expect((await session.decrypt([balance]))[balance]).to.eq(ethers.parseEther("1"));
+    expect((await session.decrypt([balance]))[balance]).to.eq(ethers.parseEther("1"));
+
+    // A new session over the same storage, e.g. after a page reload, picks the permission up.
+    const reloaded = createDecryptionSession({ backend, signer: alice, contractAddress: marketAddress, storage });
+    expect((await reloaded.decrypt([balance]))[balance]).to.eq(ethers.parseEther("1"));
+    expect(calls).to.deep.eq({ signatures: 1, decryptions: 3 });
+
+    const permission = await reloaded.getStoredPermission();
+    expect(permission).to.include({ userAddress: alice.address, contractAddress: marketAddress, durationDays: 5 });
+  });
+
+  it("keeps one permission per account and renews expired ones", async function () {
+    const { backend, calls } = countingBackend();
+    const storage = memoryStorage();
+    const aliceSession = createDecryptionSession({ backend, signer: alice, contractAddress: marketAddress, storage });
+    const bobSession = createDecryptionSession({ backend, signer: bob, contractAddress: marketAddress, storage });
+
+    await aliceSession.getPermission();
+    const bobBalance = await market.getEncryptedBalance(bob.address);
+    expect((await bobSession.decrypt([bobBalance]))[bobBalance]).to.eq(ethers.parseEther("2"));
+    expect(calls.signatures).to.eq(2);
+    expect(storage.items.size).to.eq(2);
+
+    const [key] = [...storage.items.keys()].filter((item) => item.includes(alice.address.toLowerCase()));
+    // Permissions expire in wall-clock time, which the relayer checks them against.
+    const startTimestamp = Math.floor(Date.now() / 1000) - 5 * 24 * 60 * 60;
+    const stale = { ...JSON.parse(storage.items.get(key)!), startTimestamp };
+    storage.setItem(key, JSON.stringify(stale));
+    expect(await aliceSession.getStoredPermission()).to.eq(null);
+    await aliceSession.getPermission();
+    expect(calls.signatures).to.eq(3);
+
+    await aliceSession.clear();
+    expect(await aliceSession.getStoredPermission()).to.eq(null);
+    expect(await bobSession.getStoredPermission()).to.not.eq(null);
+  });
+
+  it("batches handles requested in the same tick", async function () {
+    const { backend, calls } = countingBackend();
+    const session = createDecryptionSession({ backend, signer: alice, contractAddress: marketAddress });
+    const client = createPredictionMarketClient({ contract: market, signer: alice, backend, session });
+
+    const bettingClosesAt = (await time.latest()) + 60 * 60;
+    const { predictionId } = await client.createPrediction({
+      name: "Batch",
+      options: ["Yes", "No"],
+      bettingClosesAt,
+      resolutionDeadline: bettingClosesAt + 60 * 60,
+    });
+    await client.placeBet({ predictionId, choice: 1, amount: ethers.parseEther("0.25") });
+
+    const balance = await market.getEncryptedBalance(alice.address);
+    const [positions] = await market.getUserPositions(predictionId, alice.address);
+    const [clearPositions, [clearBalance]] = await Promise.all([
+      client.decryptHandles([...positions]),
+      client.decryptHandles([balance]),
+    ]);
+    expect(clearPositions).to.deep.eq([0n, ethers.parseEther("0.25")]);
+    expect(clearBalance).to.eq(ethers.parseEther("0.75"));
+    // The bet decrypts the balance it stakes from, both requests above share the second decryption.
+    expect(calls).to.deep.eq({ signatures: 1, decryptions: 2 });
+  });
+});
@@ -1,7 +1,15 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import { ethers, fhevm } from "hardhat";
 import { expect } from "chai";
-import { FHEPredictionMarket, FHEPredictionMarket__factory } from "../types";
+import {
+  FHEPredictionMarket,
+  FHEPredictionMarket__factory,
+  MockConfidentialToken,
+  MockERC20,
+  MockPredictionOracle,
+} from "../types";
 import { FhevmType } from "@fhevm/hardhat-plugin";
 
 type Signers = {
@@ -10,8 +18,22 @@ type Signers = {
   bob: HardhatEthersSigner;
 };
 
+const BETTING_DURATION = 60 * 60;
+const RESOLUTION_WINDOW = 7 * 24 * 60 * 60;
+const NATIVE_COLLATERAL = [0, ethers.ZeroAddress] as const;
+const NO_DETAILS = { description: "", category: "", resolutionCriteria: "", source: "" };
+const NO_LIMITS = { minBet: 0, maxBet: 0, maxPool: 0 };
+
+async function bettingWindow(): Promise<[number, number]> {
+  const closesAt = (await time.latest()) + BETTING_DURATION;
+  return [closesAt, closesAt + RESOLUTION_WINDOW];
+}
+
 async function deployFixture() {
-  const factory = (await ethers.getContractFactory("FHEPredictionMarket")) as FHEPredictionMarket__factory;
+  const ledger = await (await ethers.getContractFactory("PredictionLedger")).deploy();
+  const factory = (await ethers.getContractFactory("FHEPredictionMarket", {
+    libraries: { PredictionLedger: await ledger.getAddress() },
+  })) as FHEPredictionMarket__factory;
   const contract = (await factory.deploy()) as FHEPredictionMarket;
   return contract;
 }
@@ -37,30 +59,187 @@ describe("FHEPredictionMarket", function () {
   });
 
   it("creates predictions with valid option counts", async function () {
-    await expect(predictionMarket.createPrediction("", ["Yes", "No"])).to.be.revertedWithCustomError(
-      predictionMarket,
-      "EmptyName",
-    );
+    await expect(
+      predictionMarket.createPrediction(
+        "",
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      ),
+    ).to.be.revertedWithCustomError(predictionMarket, "EmptyName");
 
-    await expect(predictionMarket.createPrediction("Invalid", ["OnlyOne"])).to.be.revertedWithCustomError(
-      predictionMarket,
-      "InvalidOptionsCount",
-    );
+    await expect(
+      predictionMarket.createPrediction(
+        "Invalid",
+        ["OnlyOne"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      ),
+    ).to.be.revertedWithCustomError(predictionMarket, "InvalidOptionsCount");
 
-    await expect(predictionMarket.createPrediction("Full", ["A", "B", "C", "D", "E"])).to.be.revertedWithCustomError(
-      predictionMarket,
-      "InvalidOptionsCount",
-    );
+    await expect(
+      predictionMarket.createPrediction(
+        "Full",
+        Array.from({ length: 17 }, (_, index) => `Option ${index}`),
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      ),
+    ).to.be.revertedWithCustomError(predictionMarket, "InvalidOptionsCount");
 
-    await predictionMarket.createPrediction("Weather", ["Sunny", "Rainy"]);
+    await predictionMarket.createPrediction(
+      "Weather",
+      ["Sunny", "Rainy"],
+      ...(await bettingWindow()),
+      ethers.ZeroAddress,
+      ...NATIVE_COLLATERAL,
+      0,
+      NO_DETAILS,
+      NO_LIMITS,
+    );
     const summaries = await predictionMarket.listPredictions();
     expect(summaries.length).to.eq(1);
     expect(summaries[0].name).to.eq("Weather");
     expect(summaries[0].options.length).to.eq(2);
   });
 
+  it("stores prediction details within their length limits", async function () {
+    const details = {
+      description: "Total rainfall measured in Paris on the first of July.",
+      category: "weather",
+      resolutionCriteria: "Resolves Yes if Météo-France reports more than 5 mm at Paris-Montsouris.",
+      source: "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi",
+    };
+    const create = (overrides: Partial<typeof details>) =>
+      bettingWindow().then((window) =>
+        predictionMarket.createPrediction(
+          "Rain in Paris",
+          ["Yes", "No"],
+          ...window,
+          ethers.ZeroAddress,
+          ...NATIVE_COLLATERAL,
+          0,
+          { ...details, ...overrides },
+          NO_LIMITS,
+        ),
+      );
+
+    await expect(create({ description: "x".repeat(1001) })).to.be.revertedWithCustomError(
+      predictionMarket,
+      "DescriptionTooLong",
+    );
+    await expect(create({ category: "x".repeat(33) })).to.be.revertedWithCustomError(
+      predictionMarket,
+      "CategoryTooLong",
+    );
+    await expect(create({ resolutionCriteria: "x".repeat(1001) })).to.be.revertedWithCustomError(
+      predictionMarket,
+      "ResolutionCriteriaTooLong",
+    );
+    await expect(create({ source: "x".repeat(257) })).to.be.revertedWithCustomError(predictionMarket, "SourceTooLong");
+
+    await create({ description: "x".repeat(1000) });
+    await create({});
+    const summary = await predictionMarket.getPredictionMetadata(2);
+    expect([...summary.details]).to.deep.eq(Object.values(details));
+    expect((await predictionMarket.getPredictionMetadata(1)).details.description).to.have.lengthOf(1000);
+  });
+
+  it("validates betting close time and resolution deadline", async function () {
+    const now = await time.latest();
+    await expect(
+      predictionMarket.createPrediction(
+        "Past",
+        ["Yes", "No"],
+        now,
+        now + RESOLUTION_WINDOW,
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      ),
+    ).to.be.revertedWithCustomError(predictionMarket, "InvalidBettingCloseTime");
+
+    await expect(
+      predictionMarket.createPrediction(
+        "Backwards",
+        ["Yes", "No"],
+        now + BETTING_DURATION,
+        now + 60,
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      ),
+    ).to.be.revertedWithCustomError(predictionMarket, "InvalidResolutionDeadline");
+
+    const [closesAt, deadline] = await bettingWindow();
+    await predictionMarket.createPrediction(
+      "Window",
+      ["Yes", "No"],
+      closesAt,
+      deadline,
+      ethers.ZeroAddress,
+      ...NATIVE_COLLATERAL,
+      0,
+      NO_DETAILS,
+      NO_LIMITS,
+    );
+    const summary = await predictionMarket.getPredictionMetadata(1);
+    expect(summary.bettingClosesAt).to.eq(closesAt);
+    expect(summary.resolutionDeadline).to.eq(deadline);
+    expect(summary.state).to.eq(0);
+  });
+
+  it("stops accepting bets once betting has closed", async function () {
+    await predictionMarket.createPrediction(
+      "Deadline",
+      ["Yes", "No"],
+      ...(await bettingWindow()),
+      ethers.ZeroAddress,
+      ...NATIVE_COLLATERAL,
+      0,
+      NO_DETAILS,
+      NO_LIMITS,
+    );
+    expect(await predictionMarket.getPredictionState(1)).to.eq(0);
+
+    await time.increase(BETTING_DURATION);
+    expect(await predictionMarket.getPredictionState(1)).to.eq(1);
+    expect((await predictionMarket.listPredictions())[0].state).to.eq(1);
+
+    const encryptedChoice = await fhevm.createEncryptedInput(contractAddress, signers.alice.address).add8(0).encrypt();
+    await expect(
+      predictionMarket
+        .connect(signers.alice)
+        .placeEncryptedBet(1, encryptedChoice.handles[0], encryptedChoice.inputProof, { value: 1 }),
+    ).to.be.revertedWithCustomError(predictionMarket, "BettingClosed");
+  });
+
   it("stores encrypted bets and aggregates option totals", async function () {
-    await predictionMarket.createPrediction("Winner", ["Team A", "Team B", "Draw"]);
+    await predictionMarket.createPrediction(
+      "Winner",
+      ["Team A", "Team B", "Draw"],
+      ...(await bettingWindow()),
+      ethers.ZeroAddress,
+      ...NATIVE_COLLATERAL,
+      0,
+      NO_DETAILS,
+      NO_LIMITS,
+    );
 
     const encryptedChoice = await fhevm
       .createEncryptedInput(contractAddress, signers.alice.address)
@@ -91,13 +270,16 @@ describe("FHEPredictionMarket", function () {
     );
     expect(decryptedChoice).to.eq(1);
 
+    await time.increase(BETTING_DURATION);
+    await predictionMarket.revealTotals(1);
+
     const [optionTotals, pool] = await predictionMarket.getEncryptedTotals(1);
-    const decryptedPool = await fhevm.userDecryptEuint(FhevmType.euint64, pool, contractAddress, signers.alice);
+    const decryptedPool = await fhevm.publicDecryptEuint(FhevmType.euint64, pool);
     expect(decryptedPool).to.eq(stake);
 
     const decryptedOptionTotals = [];
     for (const total of optionTotals) {
-      const value = await fhevm.userDecryptEuint(FhevmType.euint64, total, contractAddress, signers.alice);
+      const value = await fhevm.publicDecryptEuint(FhevmType.euint64, total);
       decryptedOptionTotals.push(value);
     }
 
@@ -105,4 +287,1668 @@ describe("FHEPredictionMarket", function () {
     expect(decryptedOptionTotals[0]).to.eq(0);
     expect(decryptedOptionTotals[2]).to.eq(0);
   });
+
+  it("accumulates top-ups and positions on several options", async function () {
+    await predictionMarket.createPrediction(
+      "Positions",
+      ["Yes", "No"],
+      ...(await bettingWindow()),
+      ethers.ZeroAddress,
+      ...NATIVE_COLLATERAL,
+      0,
+      NO_DETAILS,
+      NO_LIMITS,
+    );
+
+    await placeBet(signers.alice, 0, "0.1");
+    await placeBet(signers.alice, 1, "0.2");
+    await placeBet(signers.alice, 0, "0.3");
+    expect((await predictionMarket.getPredictionMetadata(1)).bettorCount).to.eq(1);
+
+    const [positions, hasBet] = await predictionMarket.getUserPositions(1, signers.alice.address);
+    expect(hasBet).to.eq(true);
+    const decryptedPositions = [];
+    for (const position of positions) {
+      decryptedPositions.push(
+        await fhevm.userDecryptEuint(FhevmType.euint64, position, contractAddress, signers.alice),
+      );
+    }
+    expect(decryptedPositions).to.deep.eq([ethers.parseEther("0.4"), ethers.parseEther("0.2")]);
+
+    const [amountHandle, selectionHandle] = await predictionMarket.getUserBet(1, signers.alice.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, amountHandle, contractAddress, signers.alice)).to.eq(
+      ethers.parseEther("0.6"),
+    );
+    expect(await fhevm.userDecryptEuint(FhevmType.euint8, selectionHandle, contractAddress, signers.alice)).to.eq(0);
+
+    await predictionMarket.connect(signers.alice).deposit({ value: ethers.parseEther("1") });
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add8(1)
+      .add64(ethers.parseEther("0.1"))
+      .encrypt();
+    await expect(
+      predictionMarket
+        .connect(signers.alice)
+        .placeConfidentialBet(1, encryptedInput.handles[0], encryptedInput.handles[1], encryptedInput.inputProof),
+    ).to.be.revertedWithCustomError(predictionMarket, "BetFundingMismatch");
+
+    await time.increase(BETTING_DURATION);
+    await predictionMarket.revealTotals(1);
+    const [optionTotals, pool] = await predictionMarket.getEncryptedTotals(1);
+    const decryption = await fhevm.publicDecrypt([pool, ...optionTotals]);
+    expect(Object.values(decryption.clearValues)).to.deep.eq([
+      ethers.parseEther("0.6"),
+      ethers.parseEther("0.4"),
+      ethers.parseEther("0.2"),
+    ]);
+  });
+
+  async function placeBet(signer: HardhatEthersSigner, choice: number, eth: string) {
+    const encryptedChoice = await fhevm.createEncryptedInput(contractAddress, signer.address).add8(choice).encrypt();
+    await predictionMarket
+      .connect(signer)
+      .placeEncryptedBet(1, encryptedChoice.handles[0], encryptedChoice.inputProof, {
+        value: ethers.parseEther(eth),
+      });
+  }
+
+  // Publicly decrypts the pending payout of `signer` and returns the ETH it received, net of gas.
+  async function releasePayout(signer: HardhatEthersSigner) {
+    const [payoutHandle] = await predictionMarket.getClaim(1, signer.address);
+    const decryption = await fhevm.publicDecrypt([payoutHandle]);
+    const balanceBefore = await ethers.provider.getBalance(signer.address);
+    const tx = await predictionMarket
+      .connect(signer)
+      .finalizeClaim(1, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    const receipt = await tx.wait();
+    const gasCost = receipt!.gasUsed * receipt!.gasPrice;
+    const balanceAfter = await ethers.provider.getBalance(signer.address);
+    return balanceAfter - balanceBefore + gasCost;
+  }
+
+  it("keeps option totals private until betting closes", async function () {
+    await predictionMarket.createPrediction(
+      "Hidden",
+      ["Yes", "No"],
+      ...(await bettingWindow()),
+      ethers.ZeroAddress,
+      ...NATIVE_COLLATERAL,
+      0,
+      NO_DETAILS,
+      NO_LIMITS,
+    );
+    await placeBet(signers.alice, 0, "0.3");
+
+    const [optionTotals, pool, revealed] = await predictionMarket.getEncryptedTotals(1);
+    expect(revealed).to.eq(false);
+    await expect(fhevm.publicDecrypt([pool])).to.be.rejected;
+    await expect(fhevm.userDecryptEuint(FhevmType.euint64, optionTotals[0], contractAddress, signers.alice)).to.be
+      .rejected;
+    await expect(predictionMarket.revealTotals(1)).to.be.revertedWithCustomError(predictionMarket, "BettingStillOpen");
+
+    await time.increase(BETTING_DURATION);
+    await expect(predictionMarket.connect(signers.bob).revealTotals(1))
+      .to.emit(predictionMarket, "TotalsRevealed")
+      .withArgs(1);
+    await expect(predictionMarket.revealTotals(1)).to.be.revertedWithCustomError(
+      predictionMarket,
+      "TotalsAlreadyRevealed",
+    );
+
+    const [, , revealedAfterClose] = await predictionMarket.getEncryptedTotals(1);
+    expect(revealedAfterClose).to.eq(true);
+    const decryption = await fhevm.publicDecrypt([pool, ...optionTotals]);
+    expect(Object.values(decryption.clearValues)).to.deep.eq([ethers.parseEther("0.3"), ethers.parseEther("0.3"), 0n]);
+  });
+
+  describe("resolution and claims", function () {
+    async function publishTotals() {
+      const [totals, pool] = await predictionMarket.getEncryptedTotals(1);
+      const [, winningOption] = await predictionMarket.getResolution(1);
+      const decryption = await fhevm.publicDecrypt([pool, totals[Number(winningOption)]]);
+      await predictionMarket.publishResolutionTotals(1, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    }
+
+    async function claim(signer: HardhatEthersSigner) {
+      await predictionMarket.connect(signer).claimWinnings(1);
+      return releasePayout(signer);
+    }
+
+    beforeEach(async function () {
+      await predictionMarket.createPrediction(
+        "Final",
+        ["Home", "Away"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+    });
+
+    it("only lets the resolver resolve once with a valid option", async function () {
+      await expect(predictionMarket.connect(signers.alice).resolvePrediction(1, 0)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "NotPredictionResolver",
+      );
+      await expect(predictionMarket.resolvePrediction(1, 0)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "BettingStillOpen",
+      );
+
+      await time.increase(BETTING_DURATION);
+      await expect(predictionMarket.resolvePrediction(1, 2)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "InvalidWinningOption",
+      );
+
+      await expect(predictionMarket.resolvePrediction(1, 1))
+        .to.emit(predictionMarket, "PredictionResolved")
+        .withArgs(1, 1);
+      expect(await predictionMarket.getPredictionState(1)).to.eq(2);
+      await expect(predictionMarket.resolvePrediction(1, 0)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "PredictionAlreadyResolved",
+      );
+
+      const encryptedChoice = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add8(0)
+        .encrypt();
+      await expect(
+        predictionMarket
+          .connect(signers.alice)
+          .placeEncryptedBet(1, encryptedChoice.handles[0], encryptedChoice.inputProof, { value: 1 }),
+      ).to.be.revertedWithCustomError(predictionMarket, "BettingClosed");
+    });
+
+    it("pays winners their pro-rata share and losers nothing", async function () {
+      await placeBet(signers.alice, 0, "1");
+      await placeBet(signers.bob, 1, "3");
+      await placeBet(signers.deployer, 0, "2");
+      expect((await predictionMarket.getPredictionMetadata(1)).bettorCount).to.eq(3);
+
+      await expect(predictionMarket.connect(signers.alice).claimWinnings(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "PredictionNotResolved",
+      );
+
+      await time.increase(BETTING_DURATION);
+      await predictionMarket.resolvePrediction(1, 0);
+      await expect(predictionMarket.connect(signers.alice).claimWinnings(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "ResolutionTotalsNotPublished",
+      );
+
+      await publishTotals();
+      const resolution = await predictionMarket.getResolution(1);
+      expect(resolution.pool).to.eq(ethers.parseEther("6"));
+      expect(resolution.winningTotal).to.eq(ethers.parseEther("3"));
+
+      expect(await claim(signers.alice)).to.eq(ethers.parseEther("2"));
+      expect(await claim(signers.deployer)).to.eq(ethers.parseEther("4"));
+      expect(await claim(signers.bob)).to.eq(0n);
+      expect(await ethers.provider.getBalance(contractAddress)).to.eq(0n);
+    });
+
+    it("pays only the position held on the winning option", async function () {
+      await placeBet(signers.alice, 0, "1");
+      await placeBet(signers.alice, 1, "1");
+      await placeBet(signers.bob, 1, "2");
+      await time.increase(BETTING_DURATION);
+      await predictionMarket.resolvePrediction(1, 1);
+      await publishTotals();
+
+      expect(await claim(signers.alice)).to.eq(ethers.parseEther("4") / 3n);
+      expect(await claim(signers.bob)).to.eq(
+        (ethers.parseEther("2") * ethers.parseEther("4")) / ethers.parseEther("3"),
+      );
+    });
+
+    it("rejects double claims and claims without a bet", async function () {
+      await placeBet(signers.alice, 1, "1");
+      await time.increase(BETTING_DURATION);
+      await predictionMarket.resolvePrediction(1, 1);
+      await publishTotals();
+
+      await expect(predictionMarket.connect(signers.bob).claimWinnings(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "NoBetPlaced",
+      );
+      await expect(predictionMarket.connect(signers.alice).finalizeClaim(1, "0x", "0x")).to.be.revertedWithCustomError(
+        predictionMarket,
+        "ClaimNotStarted",
+      );
+
+      expect(await claim(signers.alice)).to.eq(ethers.parseEther("1"));
+
+      await expect(predictionMarket.connect(signers.alice).claimWinnings(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "AlreadyClaimed",
+      );
+      const [payoutHandle] = await predictionMarket.getClaim(1, signers.alice.address);
+      const decryption = await fhevm.publicDecrypt([payoutHandle]);
+      await expect(
+        predictionMarket
+          .connect(signers.alice)
+          .finalizeClaim(1, decryption.abiEncodedClearValues, decryption.decryptionProof),
+      ).to.be.revertedWithCustomError(predictionMarket, "AlreadyClaimed");
+    });
+
+    it("returns stakes when nobody picked the winning option", async function () {
+      await placeBet(signers.alice, 0, "1.5");
+      await time.increase(BETTING_DURATION);
+      await predictionMarket.resolvePrediction(1, 1);
+      await publishTotals();
+
+      expect(await claim(signers.alice)).to.eq(ethers.parseEther("1.5"));
+    });
+  });
+
+  describe("large and scalar markets", function () {
+    async function createScalar(lowerBound: bigint, upperBound: bigint, buckets = ["Low", "Mid", "High"]) {
+      return predictionMarket.createScalarPrediction(
+        "Rainfall (mm)",
+        buckets,
+        lowerBound,
+        upperBound,
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+    }
+
+    it("records bets on any of up to 16 options", async function () {
+      const options = Array.from({ length: 16 }, (_, index) => `Option ${index}`);
+      await predictionMarket.createPrediction(
+        "Tournament",
+        options,
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+      await placeBet(signers.alice, 15, "1");
+      await placeBet(signers.bob, 7, "2");
+
+      await time.increase(BETTING_DURATION);
+      await predictionMarket.resolvePrediction(1, 15);
+      const [totals, pool] = await predictionMarket.getEncryptedTotals(1);
+      const clearTotals: bigint[] = [];
+      for (const total of totals) {
+        clearTotals.push(await fhevm.publicDecryptEuint(FhevmType.euint64, total));
+      }
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint64, pool)).to.eq(ethers.parseEther("3"));
+      expect(clearTotals[15]).to.eq(ethers.parseEther("1"));
+      expect(clearTotals[7]).to.eq(ethers.parseEther("2"));
+      expect(clearTotals.filter((total) => total === 0n).length).to.eq(14);
+    });
+
+    it("validates the scalar range", async function () {
+      await expect(createScalar(100n, 100n)).to.be.revertedWithCustomError(predictionMarket, "InvalidScalarRange");
+      // Every bucket must be at least one unit wide.
+      await expect(createScalar(0n, 2n)).to.be.revertedWithCustomError(predictionMarket, "InvalidScalarRange");
+      await expect(createScalar(0n, 3n, ["Only"])).to.be.revertedWithCustomError(
+        predictionMarket,
+        "InvalidOptionsCount",
+      );
+      // The width of the range must fit in an int256.
+      await expect(createScalar(ethers.MinInt256, ethers.MaxInt256)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "InvalidScalarRange",
+      );
+      await expect(createScalar(-1n, ethers.MaxInt256)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "InvalidScalarRange",
+      );
+
+      await createScalar(-30n, 30n);
+      expect((await predictionMarket.getPredictionMetadata(1)).marketType).to.eq(1);
+      expect(await predictionMarket.getScalarRange(1)).to.deep.eq([-30n, 30n, false, 0n]);
+    });
+
+    it("maps reported values to buckets, clamping values outside the range", async function () {
+      // Buckets are [0, 33), [33, 66) and [66, 100], the last one absorbing the rounding remainder.
+      await createScalar(0n, 100n);
+      const bucketOf = (value: bigint) => predictionMarket.getScalarBucket(1, value);
+      expect(await bucketOf(-5n)).to.eq(0);
+      expect(await bucketOf(32n)).to.eq(0);
+      expect(await bucketOf(33n)).to.eq(1);
+      expect(await bucketOf(98n)).to.eq(2);
+      expect(await bucketOf(1_000n)).to.eq(2);
+
+      await predictionMarket.createPrediction(
+        "Categorical",
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+      await expect(predictionMarket.getScalarBucket(2, 0n)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "NotScalarPrediction",
+      );
+      await expect(predictionMarket.resolveScalarPrediction(2, 0n)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "NotScalarPrediction",
+      );
+    });
+
+    it("buckets and resolves extreme values of the widest ranges", async function () {
+      await createScalar(ethers.MinInt256, -1n);
+      await createScalar(0n, ethers.MaxInt256);
+      for (const predictionId of [1, 2]) {
+        expect(await predictionMarket.getScalarBucket(predictionId, ethers.MinInt256)).to.eq(0);
+        expect(await predictionMarket.getScalarBucket(predictionId, ethers.MaxInt256)).to.eq(2);
+      }
+      expect(await predictionMarket.getScalarBucket(1, -2n)).to.eq(2);
+      expect(await predictionMarket.getScalarBucket(2, 1n)).to.eq(0);
+
+      await time.increase(BETTING_DURATION);
+      await expect(predictionMarket.resolveScalarPrediction(1, ethers.MaxInt256))
+        .to.emit(predictionMarket, "PredictionResolved")
+        .withArgs(1, 2);
+      await expect(predictionMarket.resolveScalarPrediction(2, ethers.MinInt256))
+        .to.emit(predictionMarket, "PredictionResolved")
+        .withArgs(2, 0);
+    });
+
+    it("resolves to the bucket of the reported value and pays its backers", async function () {
+      await createScalar(0n, 300n);
+      await placeBet(signers.alice, 1, "1");
+      await placeBet(signers.bob, 2, "3");
+
+      await time.increase(BETTING_DURATION);
+      await expect(
+        predictionMarket.connect(signers.alice).resolveScalarPrediction(1, 150n),
+      ).to.be.revertedWithCustomError(predictionMarket, "NotPredictionResolver");
+      await expect(predictionMarket.resolveScalarPrediction(1, 150n))
+        .to.emit(predictionMarket, "PredictionResolved")
+        .withArgs(1, 1)
+        .and.to.emit(predictionMarket, "ScalarValueReported")
+        .withArgs(1, 150n);
+      expect(await predictionMarket.getScalarRange(1)).to.deep.eq([0n, 300n, true, 150n]);
+
+      const [totals, pool] = await predictionMarket.getEncryptedTotals(1);
+      const decryption = await fhevm.publicDecrypt([pool, totals[1]]);
+      await predictionMarket.publishResolutionTotals(1, decryption.abiEncodedClearValues, decryption.decryptionProof);
+      await predictionMarket.connect(signers.alice).claimWinnings(1);
+      expect(await releasePayout(signers.alice)).to.eq(ethers.parseEther("4"));
+    });
+  });
+
+  describe("resolvers", function () {
+    let oracle: MockPredictionOracle;
+
+    beforeEach(async function () {
+      oracle = (await (await ethers.getContractFactory("MockPredictionOracle")).deploy()) as MockPredictionOracle;
+    });
+
+    it("defaults the resolver to the creator and honours a delegated address", async function () {
+      await predictionMarket.createPrediction(
+        "Default",
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+      await expect(
+        predictionMarket.createPrediction(
+          "Delegated",
+          ["Yes", "No"],
+          ...(await bettingWindow()),
+          signers.bob.address,
+          ...NATIVE_COLLATERAL,
+          0,
+          NO_DETAILS,
+          NO_LIMITS,
+        ),
+      )
+        .to.emit(predictionMarket, "PredictionCreated")
+        .withArgs(2, signers.deployer.address, signers.bob.address, "Delegated", 2, anyValue, anyValue);
+      expect((await predictionMarket.getPredictionMetadata(1)).resolver).to.eq(signers.deployer.address);
+      expect((await predictionMarket.getPredictionMetadata(2)).resolver).to.eq(signers.bob.address);
+
+      await time.increase(BETTING_DURATION);
+      await expect(predictionMarket.resolvePrediction(2, 0)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "NotPredictionResolver",
+      );
+      await expect(predictionMarket.connect(signers.bob).resolvePrediction(2, 0))
+        .to.emit(predictionMarket, "PredictionResolved")
+        .withArgs(2, 0);
+    });
+
+    it("resolves from an oracle's reported outcome", async function () {
+      const oracleAddress = await oracle.getAddress();
+      await predictionMarket.createPrediction(
+        "Oracle",
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        oracleAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+      await time.increase(BETTING_DURATION);
+
+      await expect(predictionMarket.resolveFromOracle(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "OutcomeNotAvailable",
+      );
+      await expect(oracle.connect(signers.alice).setOutcome(contractAddress, 1, 1)).to.be.revertedWithCustomError(
+        oracle,
+        "NotOwner",
+      );
+      await oracle.setOutcome(contractAddress, 1, 1);
+
+      await expect(predictionMarket.connect(signers.alice).resolveFromOracle(1))
+        .to.emit(predictionMarket, "PredictionResolved")
+        .withArgs(1, 1);
+      expect(await predictionMarket.getPredictionState(1)).to.eq(2);
+    });
+
+    it("lets an oracle push its outcome as the resolver", async function () {
+      await predictionMarket.createPrediction(
+        "Push",
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        await oracle.getAddress(),
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+      await time.increase(BETTING_DURATION);
+      await oracle.setOutcome(contractAddress, 1, 0);
+
+      await expect(oracle.pushOutcome(contractAddress, 1))
+        .to.emit(predictionMarket, "PredictionResolved")
+        .withArgs(1, 0);
+      await expect(predictionMarket.resolveFromOracle(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "PredictionAlreadyResolved",
+      );
+    });
+
+    it("rejects oracle resolution for externally owned resolvers", async function () {
+      await predictionMarket.createPrediction(
+        "Manual",
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+      await time.increase(BETTING_DURATION);
+
+      await expect(predictionMarket.resolveFromOracle(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "OutcomeNotAvailable",
+      );
+    });
+  });
+
+  describe("listing", function () {
+    beforeEach(async function () {
+      const creators = [signers.deployer, signers.alice, signers.deployer, signers.alice, signers.deployer];
+      for (const [index, creator] of creators.entries()) {
+        const closesAt = (await time.latest()) + BETTING_DURATION * (index + 1);
+        await predictionMarket
+          .connect(creator)
+          .createPrediction(
+            `Market ${index + 1}`,
+            ["Yes", "No"],
+            closesAt,
+            closesAt + RESOLUTION_WINDOW,
+            ethers.ZeroAddress,
+            ...NATIVE_COLLATERAL,
+            0,
+            { ...NO_DETAILS, category: index % 2 === 0 ? "sports" : "crypto" },
+            NO_LIMITS,
+          );
+      }
+    });
+
+    it("pages through predictions in creation order", async function () {
+      const [firstPage, total] = await predictionMarket.listPredictionsPaged(0, 2);
+      expect(total).to.eq(5);
+      expect(firstPage.map((summary) => summary.id)).to.deep.eq([1n, 2n]);
+
+      const [lastPage] = await predictionMarket.listPredictionsPaged(4, 2);
+      expect(lastPage.map((summary) => summary.name)).to.deep.eq(["Market 5"]);
+      expect((await predictionMarket.listPredictionsPaged(5, 2))[0]).to.have.lengthOf(0);
+      expect((await predictionMarket.listPredictionsPaged(1, ethers.MaxUint256))[0].length).to.eq(4);
+    });
+
+    it("filters predictions by creator and by bettor", async function () {
+      const [created, createdCount] = await predictionMarket.listPredictionsByCreator(signers.alice.address, 0, 10);
+      expect(createdCount).to.eq(2);
+      expect(created.map((summary) => summary.id)).to.deep.eq([2n, 4n]);
+      expect((await predictionMarket.listPredictionsByCreator(signers.alice.address, 1, 10))[0][0].id).to.eq(4);
+
+      for (const predictionId of [3, 1, 3]) {
+        const encryptedChoice = await fhevm
+          .createEncryptedInput(contractAddress, signers.bob.address)
+          .add8(0)
+          .encrypt();
+        await predictionMarket
+          .connect(signers.bob)
+          .placeEncryptedBet(predictionId, encryptedChoice.handles[0], encryptedChoice.inputProof, {
+            value: ethers.parseEther("0.1"),
+          });
+      }
+
+      const [betOn, betCount] = await predictionMarket.listPredictionsByBettor(signers.bob.address, 0, 10);
+      expect(betCount).to.eq(2);
+      expect(betOn.map((summary) => summary.id)).to.deep.eq([3n, 1n]);
+      expect((await predictionMarket.listPredictionsByBettor(signers.alice.address, 0, 10))[1]).to.eq(0);
+    });
+
+    it("filters predictions by category", async function () {
+      const [sports, sportsCount] = await predictionMarket.listPredictionsByCategory("sports", 0, 10);
+      expect(sportsCount).to.eq(3);
+      expect(sports.map((summary) => summary.id)).to.deep.eq([1n, 3n, 5n]);
+      expect(sports[0].details.category).to.eq("sports");
+
+      const [crypto] = await predictionMarket.listPredictionsByCategory("crypto", 1, 10);
+      expect(crypto.map((summary) => summary.id)).to.deep.eq([4n]);
+      // Categories are matched exactly and uncategorized predictions are not indexed.
+      expect((await predictionMarket.listPredictionsByCategory("Sports", 0, 10))[1]).to.eq(0);
+      expect((await predictionMarket.listPredictionsByCategory("", 0, 10))[1]).to.eq(0);
+    });
+
+    it("filters predictions by state with a resumable cursor", async function () {
+      await time.increase(BETTING_DURATION * 2);
+
+      const [closed, closedCursor] = await predictionMarket.listPredictionsByState(1, 0, 10, 10);
+      expect(closed.map((summary) => summary.id)).to.deep.eq([1n, 2n]);
+      expect(closedCursor).to.eq(5);
+
+      const [open, openCursor] = await predictionMarket.listPredictionsByState(0, 0, 1, 10);
+      expect(open.map((summary) => summary.id)).to.deep.eq([3n]);
+      expect(openCursor).to.eq(3);
+      const [nextOpen] = await predictionMarket.listPredictionsByState(0, openCursor, 10, 10);
+      expect(nextOpen.map((summary) => summary.id)).to.deep.eq([4n, 5n]);
+
+      const [scanned, scanCursor] = await predictionMarket.listPredictionsByState(0, 0, 10, 2);
+      expect(scanned).to.have.lengthOf(0);
+      expect(scanCursor).to.eq(2);
+    });
+  });
+
+  describe("cancellation and refunds", function () {
+    async function claimRefund(signer: HardhatEthersSigner) {
+      await predictionMarket.connect(signer).refund(1);
+      return releasePayout(signer);
+    }
+
+    beforeEach(async function () {
+      await predictionMarket.createPrediction(
+        "Abandoned",
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+    });
+
+    it("lets only the creator cancel an unresolved prediction", async function () {
+      await expect(predictionMarket.connect(signers.alice).cancelPrediction(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "NotPredictionCreator",
+      );
+
+      await expect(predictionMarket.cancelPrediction(1)).to.emit(predictionMarket, "PredictionCancelled").withArgs(1);
+      expect(await predictionMarket.getPredictionState(1)).to.eq(3);
+
+      await expect(predictionMarket.cancelPrediction(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "PredictionIsCancelled",
+      );
+      const encryptedChoice = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add8(0)
+        .encrypt();
+      await expect(
+        predictionMarket
+          .connect(signers.alice)
+          .placeEncryptedBet(1, encryptedChoice.handles[0], encryptedChoice.inputProof, { value: 1 }),
+      ).to.be.revertedWithCustomError(predictionMarket, "BettingClosed");
+
+      await time.increase(BETTING_DURATION);
+      await expect(predictionMarket.resolvePrediction(1, 0)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "PredictionIsCancelled",
+      );
+    });
+
+    it("stops the creator from cancelling once betting has closed", async function () {
+      await placeBet(signers.alice, 0, "0.4");
+      await time.increase(BETTING_DURATION);
+      await predictionMarket.revealTotals(1);
+
+      await expect(predictionMarket.cancelPrediction(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "BettingClosed",
+      );
+      await expect(predictionMarket.adminCancelPrediction(1))
+        .to.emit(predictionMarket, "PredictionCancelled")
+        .withArgs(1);
+    });
+
+    it("refuses to cancel a resolved prediction", async function () {
+      await time.increase(BETTING_DURATION);
+      await predictionMarket.resolvePrediction(1, 0);
+
+      await expect(predictionMarket.cancelPrediction(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "PredictionAlreadyResolved",
+      );
+    });
+
+    it("refunds every bettor's stake once", async function () {
+      await placeBet(signers.alice, 0, "0.4");
+      await placeBet(signers.bob, 1, "1.1");
+
+      await expect(predictionMarket.connect(signers.alice).refund(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "PredictionNotCancelled",
+      );
+
+      await predictionMarket.cancelPrediction(1);
+      await expect(predictionMarket.connect(signers.deployer).refund(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "NoBetPlaced",
+      );
+      await expect(predictionMarket.connect(signers.alice).claimWinnings(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "PredictionNotResolved",
+      );
+
+      expect(await claimRefund(signers.alice)).to.eq(ethers.parseEther("0.4"));
+      expect(await claimRefund(signers.bob)).to.eq(ethers.parseEther("1.1"));
+      expect(await ethers.provider.getBalance(contractAddress)).to.eq(0n);
+
+      await expect(predictionMarket.connect(signers.alice).refund(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "AlreadyClaimed",
+      );
+    });
+
+    it("cancels automatically once the resolution deadline passes", async function () {
+      await placeBet(signers.alice, 1, "0.25");
+      await time.increase(BETTING_DURATION + RESOLUTION_WINDOW + 1);
+
+      expect(await predictionMarket.getPredictionState(1)).to.eq(3);
+      await expect(predictionMarket.resolvePrediction(1, 1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "PredictionIsCancelled",
+      );
+      expect(await claimRefund(signers.alice)).to.eq(ethers.parseEther("0.25"));
+    });
+  });
+
+  describe("confidential staking", function () {
+    async function placeConfidentialBet(signer: HardhatEthersSigner, choice: number, eth: string) {
+      const encryptedInput = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .add8(choice)
+        .add64(ethers.parseEther(eth))
+        .encrypt();
+      return predictionMarket
+        .connect(signer)
+        .placeConfidentialBet(1, encryptedInput.handles[0], encryptedInput.handles[1], encryptedInput.inputProof);
+    }
+
+    async function decryptBalance(signer: HardhatEthersSigner) {
+      const balance = await predictionMarket.getEncryptedBalance(signer.address);
+      return fhevm.userDecryptEuint(FhevmType.euint64, balance, contractAddress, signer);
+    }
+
+    beforeEach(async function () {
+      await predictionMarket.createPrediction(
+        "Private",
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+    });
+
+    it("funds encrypted bets from the deposited balance without revealing the amount", async function () {
+      await expect(predictionMarket.connect(signers.alice).deposit()).to.be.revertedWithCustomError(
+        predictionMarket,
+        "InvalidDepositAmount",
+      );
+      await expect(predictionMarket.connect(signers.alice).deposit({ value: ethers.parseEther("2") }))
+        .to.emit(predictionMarket, "Deposited")
+        .withArgs(signers.alice.address, ethers.parseEther("2"));
+
+      const tx = await placeConfidentialBet(signers.alice, 1, "0.75");
+      expect(tx.value).to.eq(0n);
+      await expect(tx).to.emit(predictionMarket, "BetPlaced");
+
+      expect(await decryptBalance(signers.alice)).to.eq(ethers.parseEther("1.25"));
+
+      const [amountHandle, selectionHandle, hasBet] = await predictionMarket.getUserBet(1, signers.alice.address);
+      expect(hasBet).to.eq(true);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, amountHandle, contractAddress, signers.alice)).to.eq(
+        ethers.parseEther("0.75"),
+      );
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, selectionHandle, contractAddress, signers.alice)).to.eq(1);
+
+      await time.increase(BETTING_DURATION);
+      await predictionMarket.revealTotals(1);
+      const [optionTotals, pool] = await predictionMarket.getEncryptedTotals(1);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint64, pool)).to.eq(ethers.parseEther("0.75"));
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint64, optionTotals[1])).to.eq(ethers.parseEther("0.75"));
+    });
+
+    it("stakes zero when the encrypted amount exceeds the balance", async function () {
+      await predictionMarket.connect(signers.alice).deposit({ value: ethers.parseEther("0.5") });
+      await placeConfidentialBet(signers.alice, 0, "1");
+
+      expect(await decryptBalance(signers.alice)).to.eq(ethers.parseEther("0.5"));
+      const [amountHandle] = await predictionMarket.getUserBet(1, signers.alice.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, amountHandle, contractAddress, signers.alice)).to.eq(0n);
+    });
+
+    it("credits confidential winnings and refunds to the balance", async function () {
+      await predictionMarket.connect(signers.alice).deposit({ value: ethers.parseEther("1") });
+      await predictionMarket.connect(signers.bob).deposit({ value: ethers.parseEther("1") });
+      await placeConfidentialBet(signers.alice, 0, "1");
+      await placeConfidentialBet(signers.bob, 1, "1");
+
+      await time.increase(BETTING_DURATION);
+      await predictionMarket.resolvePrediction(1, 0);
+      const [totals, pool] = await predictionMarket.getEncryptedTotals(1);
+      const decryption = await fhevm.publicDecrypt([pool, totals[0]]);
+      await predictionMarket.publishResolutionTotals(1, decryption.abiEncodedClearValues, decryption.decryptionProof);
+
+      await predictionMarket.connect(signers.alice).claimWinnings(1);
+      await predictionMarket.connect(signers.bob).claimWinnings(1);
+      const claim = await predictionMarket.getClaim(1, signers.alice.address);
+      expect(claim.paidOut).to.eq(true);
+      expect(await decryptBalance(signers.alice)).to.eq(ethers.parseEther("2"));
+      expect(await decryptBalance(signers.bob)).to.eq(0n);
+
+      await predictionMarket.createPrediction(
+        "Voided",
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+      const encryptedInput = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add8(1)
+        .add64(ethers.parseEther("0.5"))
+        .encrypt();
+      await predictionMarket
+        .connect(signers.alice)
+        .placeConfidentialBet(2, encryptedInput.handles[0], encryptedInput.handles[1], encryptedInput.inputProof);
+      expect(await decryptBalance(signers.alice)).to.eq(ethers.parseEther("1.5"));
+
+      await predictionMarket.cancelPrediction(2);
+      await predictionMarket.connect(signers.alice).refund(2);
+      expect(await decryptBalance(signers.alice)).to.eq(ethers.parseEther("2"));
+    });
+
+    it("withdraws an encrypted amount after public decryption", async function () {
+      await predictionMarket.connect(signers.alice).deposit({ value: ethers.parseEther("1") });
+      await expect(
+        predictionMarket.connect(signers.alice).finalizeWithdrawal("0x", "0x"),
+      ).to.be.revertedWithCustomError(predictionMarket, "NoPendingWithdrawal");
+
+      const encryptedInput = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add64(ethers.parseEther("0.6"))
+        .encrypt();
+      await predictionMarket
+        .connect(signers.alice)
+        .requestWithdrawal(encryptedInput.handles[0], encryptedInput.inputProof);
+      await expect(
+        predictionMarket.connect(signers.alice).requestWithdrawal(encryptedInput.handles[0], encryptedInput.inputProof),
+      ).to.be.revertedWithCustomError(predictionMarket, "WithdrawalPending");
+      expect(await decryptBalance(signers.alice)).to.eq(ethers.parseEther("0.4"));
+
+      const [pendingHandle] = await predictionMarket.getPendingWithdrawal(signers.alice.address);
+      const decryption = await fhevm.publicDecrypt([pendingHandle]);
+      await expect(
+        predictionMarket
+          .connect(signers.alice)
+          .finalizeWithdrawal(decryption.abiEncodedClearValues, decryption.decryptionProof),
+      ).to.changeEtherBalances(
+        [signers.alice, predictionMarket],
+        [ethers.parseEther("0.6"), -ethers.parseEther("0.6")],
+      );
+
+      const [, pending] = await predictionMarket.getPendingWithdrawal(signers.alice.address);
+      expect(pending).to.eq(false);
+    });
+  });
+
+  describe("bet limits", function () {
+    const LIMITS = {
+      minBet: ethers.parseEther("0.1"),
+      maxBet: ethers.parseEther("1"),
+      maxPool: ethers.parseEther("1.5"),
+    };
+
+    async function createLimitedPrediction(limits: FHEPredictionMarket.BetLimitsStruct = LIMITS) {
+      return predictionMarket.createPrediction(
+        "Limited",
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        limits,
+      );
+    }
+
+    async function placeEncryptedBet(signer: HardhatEthersSigner, eth: string) {
+      const encryptedChoice = await fhevm.createEncryptedInput(contractAddress, signer.address).add8(0).encrypt();
+      return predictionMarket
+        .connect(signer)
+        .placeEncryptedBet(1, encryptedChoice.handles[0], encryptedChoice.inputProof, {
+          value: ethers.parseEther(eth),
+        });
+    }
+
+    async function placeConfidentialBet(signer: HardhatEthersSigner, eth: string) {
+      const encryptedInput = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .add8(1)
+        .add64(ethers.parseEther(eth))
+        .encrypt();
+      await predictionMarket
+        .connect(signer)
+        .placeConfidentialBet(1, encryptedInput.handles[0], encryptedInput.handles[1], encryptedInput.inputProof);
+    }
+
+    async function decryptStake(signer: HardhatEthersSigner) {
+      const [amountHandle] = await predictionMarket.getUserBet(1, signer.address);
+      return fhevm.userDecryptEuint(FhevmType.euint64, amountHandle, contractAddress, signer);
+    }
+
+    async function decryptBalance(signer: HardhatEthersSigner) {
+      const balance = await predictionMarket.getEncryptedBalance(signer.address);
+      return fhevm.userDecryptEuint(FhevmType.euint64, balance, contractAddress, signer);
+    }
+
+    async function decryptPool() {
+      await time.increase(BETTING_DURATION);
+      await predictionMarket.revealTotals(1);
+      const [, pool] = await predictionMarket.getEncryptedTotals(1);
+      return fhevm.publicDecryptEuint(FhevmType.euint64, pool);
+    }
+
+    it("validates and exposes the limits of a prediction", async function () {
+      await expect(
+        createLimitedPrediction({ ...LIMITS, minBet: ethers.parseEther("2") }),
+      ).to.be.revertedWithCustomError(predictionMarket, "InvalidBetLimits");
+      await expect(
+        createLimitedPrediction({ minBet: ethers.parseEther("2"), maxBet: 0n, maxPool: ethers.parseEther("1.5") }),
+      ).to.be.revertedWithCustomError(predictionMarket, "InvalidBetLimits");
+      await expect(predictionMarket.getBetLimits(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "InvalidPrediction",
+      );
+
+      await createLimitedPrediction();
+      await createLimitedPrediction({ minBet: ethers.parseEther("2"), maxBet: 0n, maxPool: 0n });
+      expect(await predictionMarket.getBetLimits(1)).to.deep.eq([LIMITS.minBet, LIMITS.maxBet, LIMITS.maxPool]);
+      expect(await predictionMarket.getBetLimits(2)).to.deep.eq([ethers.parseEther("2"), 0n, 0n]);
+    });
+
+    it("rejects public stakes outside the bet limits", async function () {
+      await createLimitedPrediction();
+
+      await expect(placeEncryptedBet(signers.alice, "0.05")).to.be.revertedWithCustomError(
+        predictionMarket,
+        "InvalidBetAmount",
+      );
+      await expect(placeEncryptedBet(signers.alice, "1.01")).to.be.revertedWithCustomError(
+        predictionMarket,
+        "InvalidBetAmount",
+      );
+      await expect(placeEncryptedBet(signers.alice, "0.1")).to.emit(predictionMarket, "BetPlaced");
+      await expect(placeEncryptedBet(signers.alice, "1")).to.emit(predictionMarket, "BetPlaced");
+      expect(await decryptStake(signers.alice)).to.eq(ethers.parseEther("1.1"));
+    });
+
+    it("stakes zero for encrypted amounts outside the bet limits", async function () {
+      await createLimitedPrediction();
+      for (const signer of [signers.alice, signers.bob, signers.deployer]) {
+        await predictionMarket.connect(signer).deposit({ value: ethers.parseEther("2") });
+      }
+
+      await placeConfidentialBet(signers.alice, "1.25");
+      await placeConfidentialBet(signers.bob, "0.05");
+      await placeConfidentialBet(signers.deployer, "0.65");
+
+      expect(await decryptStake(signers.alice)).to.eq(0n);
+      expect(await decryptBalance(signers.alice)).to.eq(ethers.parseEther("2"));
+      expect(await decryptStake(signers.bob)).to.eq(0n);
+      expect(await decryptBalance(signers.bob)).to.eq(ethers.parseEther("2"));
+      expect(await decryptStake(signers.deployer)).to.eq(ethers.parseEther("0.65"));
+      expect(await decryptBalance(signers.deployer)).to.eq(ethers.parseEther("1.35"));
+      expect(await decryptPool()).to.eq(ethers.parseEther("0.65"));
+    });
+
+    it("keeps the pool under its cap without revealing which bet hit it", async function () {
+      await createLimitedPrediction();
+      await predictionMarket.connect(signers.alice).deposit({ value: ethers.parseEther("1") });
+
+      await placeEncryptedBet(signers.deployer, "0.95");
+      // Over the 1.5 ETH cap: the ETH is credited to the bettor's confidential balance instead of being staked.
+      await expect(placeEncryptedBet(signers.bob, "0.7")).to.emit(predictionMarket, "BetPlaced");
+      expect(await decryptStake(signers.bob)).to.eq(0n);
+      expect(await decryptBalance(signers.bob)).to.eq(ethers.parseEther("0.7"));
+
+      await placeConfidentialBet(signers.alice, "0.55");
+      expect(await decryptStake(signers.alice)).to.eq(ethers.parseEther("0.55"));
+      expect(await decryptPool()).to.eq(ethers.parseEther("1.5"));
+    });
+  });
+
+  describe("leaderboard", function () {
+    // Runs a native prediction where every bettor stakes on one option, resolves it to `winningOption` and returns
+    // its id once claims are open.
+    async function playMarket(bets: [HardhatEthersSigner, number, string][], winningOption: number) {
+      await predictionMarket.createPrediction(
+        "Round",
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+      const predictionId = await predictionMarket.getPredictionCount();
+      for (const [signer, choice, eth] of bets) {
+        const encryptedChoice = await fhevm
+          .createEncryptedInput(contractAddress, signer.address)
+          .add8(choice)
+          .encrypt();
+        await predictionMarket
+          .connect(signer)
+          .placeEncryptedBet(predictionId, encryptedChoice.handles[0], encryptedChoice.inputProof, {
+            value: ethers.parseEther(eth),
+          });
+      }
+
+      await time.increase(BETTING_DURATION);
+      await predictionMarket.resolvePrediction(predictionId, winningOption);
+      const [totals, pool] = await predictionMarket.getEncryptedTotals(predictionId);
+      const decryption = await fhevm.publicDecrypt([pool, totals[winningOption]]);
+      await predictionMarket.publishResolutionTotals(
+        predictionId,
+        decryption.abiEncodedClearValues,
+        decryption.decryptionProof,
+      );
+      return predictionId;
+    }
+
+    async function decryptScore(signer: HardhatEthersSigner) {
+      const [staked, returned] = await predictionMarket.getScore(signer.address);
+      return [
+        await fhevm.userDecryptEuint(FhevmType.euint64, staked, contractAddress, signer),
+        await fhevm.userDecryptEuint(FhevmType.euint64, returned, contractAddress, signer),
+      ];
+    }
+
+    it("keeps scores private until their owner reveals them", async function () {
+      const predictionId = await playMarket(
+        [
+          [signers.alice, 0, "1.23"],
+          [signers.bob, 1, "3.21"],
+        ],
+        0,
+      );
+      await predictionMarket.connect(signers.alice).claimWinnings(predictionId);
+      await predictionMarket.connect(signers.bob).claimWinnings(predictionId);
+
+      const [staked, , marketsClaimed, revealed] = await predictionMarket.getScore(signers.alice.address);
+      expect(marketsClaimed).to.eq(1);
+      expect(revealed).to.eq(false);
+      expect(await decryptScore(signers.alice)).to.deep.eq([ethers.parseEther("1.23"), ethers.parseEther("4.44")]);
+      expect(await decryptScore(signers.bob)).to.deep.eq([ethers.parseEther("3.21"), 0n]);
+      await expect(fhevm.publicDecrypt([staked])).to.be.rejected;
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, staked, contractAddress, signers.bob)).to.be.rejected;
+
+      await expect(predictionMarket.revealScore()).to.be.revertedWithCustomError(predictionMarket, "NoScore");
+      await expect(predictionMarket.connect(signers.bob).revealScore())
+        .to.emit(predictionMarket, "ScoreRevealed")
+        .withArgs(signers.bob.address);
+      await expect(predictionMarket.connect(signers.bob).revealScore()).to.be.revertedWithCustomError(
+        predictionMarket,
+        "ScoreAlreadyRevealed",
+      );
+
+      const [page, total] = await predictionMarket.listLeaderboard(0, 10);
+      expect(total).to.eq(1);
+      expect(page.map((entry) => entry.user)).to.deep.eq([signers.bob.address]);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint64, page[0].staked)).to.eq(ethers.parseEther("3.21"));
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint64, page[0].returned)).to.eq(0n);
+    });
+
+    it("accumulates claims across markets and keeps revealed scores public", async function () {
+      const first = await playMarket([[signers.alice, 0, "1"]], 0);
+      await predictionMarket.connect(signers.alice).claimWinnings(first);
+      await predictionMarket.connect(signers.alice).revealScore();
+
+      const second = await playMarket(
+        [
+          [signers.alice, 1, "2"],
+          [signers.bob, 0, "2"],
+        ],
+        1,
+      );
+      await predictionMarket.connect(signers.alice).claimWinnings(second);
+
+      const [[entry]] = await predictionMarket.listLeaderboard(0, 10);
+      expect(entry.marketsClaimed).to.eq(2);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint64, entry.staked)).to.eq(ethers.parseEther("3"));
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint64, entry.returned)).to.eq(ethers.parseEther("5"));
+
+      // Refunds of cancelled predictions leave scores unchanged.
+      await predictionMarket.createPrediction(
+        "Void",
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+      await predictionMarket.connect(signers.alice).deposit({ value: ethers.parseEther("1") });
+      const encryptedInput = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add8(0)
+        .add64(ethers.parseEther("1"))
+        .encrypt();
+      await predictionMarket
+        .connect(signers.alice)
+        .placeConfidentialBet(3, encryptedInput.handles[0], encryptedInput.handles[1], encryptedInput.inputProof);
+      await predictionMarket.cancelPrediction(3);
+      await predictionMarket.connect(signers.alice).refund(3);
+      expect((await predictionMarket.getScore(signers.alice.address)).marketsClaimed).to.eq(2);
+    });
+  });
+
+  describe("fees", function () {
+    async function publishTotals() {
+      const [totals, pool] = await predictionMarket.getEncryptedTotals(1);
+      const [, winningOption] = await predictionMarket.getResolution(1);
+      const decryption = await fhevm.publicDecrypt([pool, totals[Number(winningOption)]]);
+      await predictionMarket.publishResolutionTotals(1, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    }
+
+    // Withdraws the ETH fees accrued to `signer` and returns what it received, net of gas.
+    async function withdrawFees(signer: HardhatEthersSigner) {
+      const balanceBefore = await ethers.provider.getBalance(signer.address);
+      const receipt = await (await predictionMarket.connect(signer).withdrawFees(...NATIVE_COLLATERAL)).wait();
+      const balanceAfter = await ethers.provider.getBalance(signer.address);
+      return balanceAfter - balanceBefore + receipt!.gasUsed * receipt!.gasPrice;
+    }
+
+    it("restricts roles and caps fees", async function () {
+      expect(await predictionMarket.owner()).to.eq(signers.deployer.address);
+      expect(await predictionMarket.getFeeConfig()).to.deep.eq([0n, signers.deployer.address]);
+
+      await expect(predictionMarket.connect(signers.alice).setProtocolFee(100)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "NotAdmin",
+      );
+      await expect(
+        predictionMarket.connect(signers.alice).setAdmin(signers.alice.address, true),
+      ).to.be.revertedWithCustomError(predictionMarket, "NotOwner");
+      await expect(predictionMarket.setAdmin(signers.alice.address, true))
+        .to.emit(predictionMarket, "AdminUpdated")
+        .withArgs(signers.alice.address, true);
+
+      await expect(predictionMarket.connect(signers.alice).setProtocolFee(501)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "FeeTooHigh",
+      );
+      await expect(predictionMarket.connect(signers.alice).setProtocolFee(500))
+        .to.emit(predictionMarket, "ProtocolFeeUpdated")
+        .withArgs(500);
+      await expect(
+        predictionMarket.connect(signers.alice).setFeeRecipient(signers.alice.address),
+      ).to.be.revertedWithCustomError(predictionMarket, "NotOwner");
+      await expect(predictionMarket.setFeeRecipient(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "InvalidAddress",
+      );
+
+      await expect(
+        predictionMarket.createPrediction(
+          "Greedy",
+          ["Yes", "No"],
+          ...(await bettingWindow()),
+          ethers.ZeroAddress,
+          ...NATIVE_COLLATERAL,
+          501,
+          NO_DETAILS,
+          NO_LIMITS,
+        ),
+      ).to.be.revertedWithCustomError(predictionMarket, "FeeTooHigh");
+
+      await predictionMarket.setAdmin(signers.alice.address, false);
+      expect(await predictionMarket.isAdmin(signers.alice.address)).to.eq(false);
+    });
+
+    it("splits the pool between winners, the protocol and the creator", async function () {
+      await predictionMarket.setProtocolFee(250);
+      await predictionMarket
+        .connect(signers.bob)
+        .createPrediction(
+          "Derby",
+          ["Home", "Away"],
+          ...(await bettingWindow()),
+          ethers.ZeroAddress,
+          ...NATIVE_COLLATERAL,
+          100,
+          NO_DETAILS,
+          NO_LIMITS,
+        );
+      // Predictions keep the protocol fee they were created with.
+      await predictionMarket.setProtocolFee(0);
+      const summary = await predictionMarket.getPredictionMetadata(1);
+      expect([summary.protocolFeeBps, summary.creatorFeeBps]).to.deep.eq([250n, 100n]);
+
+      await placeBet(signers.alice, 0, "1");
+      await placeBet(signers.bob, 1, "3");
+      await placeBet(signers.deployer, 0, "2");
+      await time.increase(BETTING_DURATION);
+      await predictionMarket.connect(signers.bob).resolvePrediction(1, 0);
+      await publishTotals();
+
+      // 3.5% of the 6 ETH pool: 2.5% to the protocol, 1% to the creator, the rest to the winners.
+      const fees = await predictionMarket.getPredictionFees(1);
+      expect(fees.protocolFee).to.eq(ethers.parseEther("0.15"));
+      expect(fees.creatorFee).to.eq(ethers.parseEther("0.06"));
+      expect(await predictionMarket.getAccruedFees(signers.deployer.address, ...NATIVE_COLLATERAL)).to.eq(
+        ethers.parseEther("0.15"),
+      );
+      expect(await predictionMarket.getAccruedFees(signers.bob.address, ...NATIVE_COLLATERAL)).to.eq(
+        ethers.parseEther("0.06"),
+      );
+
+      await predictionMarket.connect(signers.alice).claimWinnings(1);
+      expect(await releasePayout(signers.alice)).to.eq(ethers.parseEther("1.93"));
+      await predictionMarket.connect(signers.deployer).claimWinnings(1);
+      expect(await releasePayout(signers.deployer)).to.eq(ethers.parseEther("3.86"));
+
+      expect(await withdrawFees(signers.deployer)).to.eq(ethers.parseEther("0.15"));
+      expect(await withdrawFees(signers.bob)).to.eq(ethers.parseEther("0.06"));
+      await expect(
+        predictionMarket.connect(signers.bob).withdrawFees(...NATIVE_COLLATERAL),
+      ).to.be.revertedWithCustomError(predictionMarket, "NoFeesToWithdraw");
+      expect(await ethers.provider.getBalance(contractAddress)).to.eq(0n);
+    });
+
+    it("takes no fee when every stake is refunded", async function () {
+      await predictionMarket.setProtocolFee(250);
+      await predictionMarket.createPrediction(
+        "Upset",
+        ["Favourite", "Outsider"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        100,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+      await placeBet(signers.alice, 0, "1");
+      await time.increase(BETTING_DURATION);
+      await predictionMarket.resolvePrediction(1, 1);
+      await publishTotals();
+
+      expect(await predictionMarket.getPredictionFees(1)).to.deep.eq([250n, 100n, 0n, 0n]);
+      await predictionMarket.connect(signers.alice).claimWinnings(1);
+      expect(await releasePayout(signers.alice)).to.eq(ethers.parseEther("1"));
+      await expect(predictionMarket.withdrawFees(...NATIVE_COLLATERAL)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "NoFeesToWithdraw",
+      );
+    });
+  });
+
+  describe("admin controls", function () {
+    async function createPrediction(name: string) {
+      await predictionMarket.createPrediction(
+        name,
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+    }
+
+    it("transfers ownership in two steps", async function () {
+      await expect(
+        predictionMarket.connect(signers.alice).transferOwnership(signers.alice.address),
+      ).to.be.revertedWithCustomError(predictionMarket, "NotOwner");
+      await expect(predictionMarket.transferOwnership(signers.alice.address))
+        .to.emit(predictionMarket, "OwnershipTransferStarted")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await predictionMarket.owner()).to.eq(signers.deployer.address);
+      expect(await predictionMarket.pendingOwner()).to.eq(signers.alice.address);
+
+      // A new transfer replaces the pending one.
+      await predictionMarket.transferOwnership(signers.bob.address);
+      await expect(predictionMarket.connect(signers.alice).acceptOwnership()).to.be.revertedWithCustomError(
+        predictionMarket,
+        "NotPendingOwner",
+      );
+      await expect(predictionMarket.connect(signers.bob).acceptOwnership())
+        .to.emit(predictionMarket, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.bob.address);
+      expect(await predictionMarket.owner()).to.eq(signers.bob.address);
+      expect(await predictionMarket.pendingOwner()).to.eq(ethers.ZeroAddress);
+      expect(await predictionMarket.isAdmin(signers.deployer.address)).to.eq(false);
+      await expect(predictionMarket.setAdmin(signers.alice.address, true)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "NotOwner",
+      );
+    });
+
+    it("pauses creation and betting but not refunds", async function () {
+      await createPrediction("Paused");
+      await placeBet(signers.alice, 0, "1");
+
+      await expect(predictionMarket.connect(signers.alice).pause()).to.be.revertedWithCustomError(
+        predictionMarket,
+        "NotAdmin",
+      );
+      await expect(predictionMarket.pause()).to.emit(predictionMarket, "Paused").withArgs(signers.deployer.address);
+      expect(await predictionMarket.paused()).to.eq(true);
+      await expect(predictionMarket.pause()).to.be.revertedWithCustomError(predictionMarket, "MarketPaused");
+
+      await expect(createPrediction("Blocked")).to.be.revertedWithCustomError(predictionMarket, "MarketPaused");
+      await expect(placeBet(signers.bob, 1, "1")).to.be.revertedWithCustomError(predictionMarket, "MarketPaused");
+
+      await predictionMarket.cancelPrediction(1);
+      await predictionMarket.connect(signers.alice).refund(1);
+      expect(await releasePayout(signers.alice)).to.eq(ethers.parseEther("1"));
+
+      await predictionMarket.setAdmin(signers.alice.address, true);
+      await expect(predictionMarket.connect(signers.alice).unpause())
+        .to.emit(predictionMarket, "Unpaused")
+        .withArgs(signers.alice.address);
+      await expect(predictionMarket.unpause()).to.be.revertedWithCustomError(predictionMarket, "MarketNotPaused");
+      await createPrediction("Resumed");
+    });
+
+    it("hides moderated predictions from public listings without cancelling them", async function () {
+      await createPrediction("Spam");
+      await createPrediction("Weather");
+      await createPrediction("Match");
+      await placeBet(signers.alice, 0, "0.5");
+
+      await expect(predictionMarket.connect(signers.alice).setPredictionHidden(1, true)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "NotAdmin",
+      );
+      await expect(predictionMarket.setPredictionHidden(1, true))
+        .to.emit(predictionMarket, "PredictionHidden")
+        .withArgs(1, true)
+        .and.not.to.emit(predictionMarket, "PredictionCancelled");
+
+      const names = (summaries: FHEPredictionMarket.PredictionSummaryStructOutput[]) =>
+        summaries.map((summary) => summary.name);
+      expect(names(await predictionMarket.listPredictions())).to.deep.eq(["Weather", "Match"]);
+      const [page, total] = await predictionMarket.listPredictionsPaged(0, 2);
+      expect(names(page)).to.deep.eq(["Weather"]);
+      expect(total).to.eq(3);
+      const [open] = await predictionMarket.listPredictionsByState(0, 0, 10, 10);
+      expect(names(open)).to.deep.eq(["Weather", "Match"]);
+
+      // Bettors still find the prediction, which keeps taking bets.
+      const [bets] = await predictionMarket.listPredictionsByBettor(signers.alice.address, 0, 10);
+      expect(names(bets)).to.deep.eq(["Spam"]);
+      expect(bets[0].hidden).to.eq(true);
+      expect(bets[0].state).to.eq(0);
+      await placeBet(signers.bob, 1, "0.5");
+
+      await predictionMarket.setPredictionHidden(1, false);
+      expect(names(await predictionMarket.listPredictions())).to.deep.eq(["Spam", "Weather", "Match"]);
+      expect(await predictionMarket.getPredictionState(1)).to.eq(0);
+    });
+
+    it("lets admins cancel unresolved predictions so their bettors can refund", async function () {
+      await createPrediction("Spam");
+      await placeBet(signers.alice, 0, "0.5");
+
+      await expect(predictionMarket.connect(signers.alice).adminCancelPrediction(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "NotAdmin",
+      );
+      await expect(predictionMarket.adminCancelPrediction(2)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "InvalidPrediction",
+      );
+      await expect(predictionMarket.adminCancelPrediction(1))
+        .to.emit(predictionMarket, "PredictionCancelled")
+        .withArgs(1);
+      await expect(predictionMarket.adminCancelPrediction(1)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "PredictionIsCancelled",
+      );
+      expect((await predictionMarket.getPredictionMetadata(1)).hidden).to.eq(false);
+
+      await predictionMarket.connect(signers.alice).refund(1);
+      expect(await releasePayout(signers.alice)).to.eq(ethers.parseEther("0.5"));
+    });
+  });
+
+  describe("token collateral", function () {
+    const ERC20_COLLATERAL = 1;
+    const CONFIDENTIAL_COLLATERAL = 2;
+
+    async function createTokenPrediction(collateralType: number, token: string, creatorFeeBps = 0) {
+      await predictionMarket.createPrediction(
+        "Token",
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        collateralType,
+        token,
+        creatorFeeBps,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+    }
+
+    async function resolveAndPublish(winningOption: number) {
+      await time.increase(BETTING_DURATION);
+      await predictionMarket.resolvePrediction(1, winningOption);
+      const [totals, pool] = await predictionMarket.getEncryptedTotals(1);
+      const decryption = await fhevm.publicDecrypt([pool, totals[winningOption]]);
+      await predictionMarket.publishResolutionTotals(1, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    }
+
+    it("validates the collateral configuration", async function () {
+      const token = (await (await ethers.getContractFactory("MockERC20")).deploy("Stable", "STB")) as MockERC20;
+      await expect(
+        predictionMarket.createPrediction(
+          "Native with token",
+          ["Yes", "No"],
+          ...(await bettingWindow()),
+          ethers.ZeroAddress,
+          0,
+          await token.getAddress(),
+          0,
+          NO_DETAILS,
+          NO_LIMITS,
+        ),
+      ).to.be.revertedWithCustomError(predictionMarket, "InvalidCollateral");
+      await expect(
+        predictionMarket.createPrediction(
+          "Token without address",
+          ["Yes", "No"],
+          ...(await bettingWindow()),
+          ethers.ZeroAddress,
+          ERC20_COLLATERAL,
+          ethers.ZeroAddress,
+          0,
+          NO_DETAILS,
+          NO_LIMITS,
+        ),
+      ).to.be.revertedWithCustomError(predictionMarket, "InvalidCollateral");
+
+      await createTokenPrediction(ERC20_COLLATERAL, await token.getAddress());
+      const summary = await predictionMarket.getPredictionMetadata(1);
+      expect(summary.collateralType).to.eq(ERC20_COLLATERAL);
+      expect(summary.collateralToken).to.eq(await token.getAddress());
+
+      const encryptedChoice = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add8(0)
+        .encrypt();
+      await expect(
+        predictionMarket
+          .connect(signers.alice)
+          .placeEncryptedBet(1, encryptedChoice.handles[0], encryptedChoice.inputProof, { value: 1 }),
+      ).to.be.revertedWithCustomError(predictionMarket, "WrongCollateral");
+    });
+
+    it("settles ERC-20 stakes through public decryption", async function () {
+      const token = (await (await ethers.getContractFactory("MockERC20")).deploy("Stable", "STB")) as MockERC20;
+      await createTokenPrediction(ERC20_COLLATERAL, await token.getAddress());
+
+      for (const [signer, choice, amount] of [
+        [signers.alice, 0, 100_000n],
+        [signers.bob, 1, 300_000n],
+      ] as const) {
+        await token.mint(signer.address, amount);
+        await token.connect(signer).approve(contractAddress, amount);
+        const encryptedChoice = await fhevm
+          .createEncryptedInput(contractAddress, signer.address)
+          .add8(choice)
+          .encrypt();
+        await predictionMarket
+          .connect(signer)
+          .placeTokenBet(1, encryptedChoice.handles[0], amount, encryptedChoice.inputProof);
+      }
+      expect(await token.balanceOf(contractAddress)).to.eq(400_000n);
+
+      await resolveAndPublish(0);
+      await predictionMarket.connect(signers.alice).claimWinnings(1);
+      const [payoutHandle] = await predictionMarket.getClaim(1, signers.alice.address);
+      const decryption = await fhevm.publicDecrypt([payoutHandle]);
+      await predictionMarket
+        .connect(signers.alice)
+        .finalizeClaim(1, decryption.abiEncodedClearValues, decryption.decryptionProof);
+
+      expect(await token.balanceOf(signers.alice.address)).to.eq(400_000n);
+      expect(await token.balanceOf(contractAddress)).to.eq(0n);
+    });
+
+    it("caps the public pool of ERC-20 predictions", async function () {
+      const token = (await (await ethers.getContractFactory("MockERC20")).deploy("Stable", "STB")) as MockERC20;
+      await predictionMarket.createPrediction(
+        "Capped",
+        ["Yes", "No"],
+        ...(await bettingWindow()),
+        ethers.ZeroAddress,
+        ERC20_COLLATERAL,
+        await token.getAddress(),
+        0,
+        NO_DETAILS,
+        { minBet: 1_000n, maxBet: 0n, maxPool: 500_000n },
+      );
+
+      async function placeTokenBet(signer: HardhatEthersSigner, amount: bigint) {
+        await token.mint(signer.address, amount);
+        await token.connect(signer).approve(contractAddress, amount);
+        const encryptedChoice = await fhevm.createEncryptedInput(contractAddress, signer.address).add8(0).encrypt();
+        return predictionMarket
+          .connect(signer)
+          .placeTokenBet(1, encryptedChoice.handles[0], amount, encryptedChoice.inputProof);
+      }
+
+      await expect(placeTokenBet(signers.alice, 999n)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "InvalidBetAmount",
+      );
+      await placeTokenBet(signers.alice, 300_000n);
+      await expect(placeTokenBet(signers.bob, 200_001n)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "PoolCapExceeded",
+      );
+      await placeTokenBet(signers.bob, 200_000n);
+      expect(await token.balanceOf(contractAddress)).to.eq(500_000n);
+    });
+
+    it("takes fees in the collateral token", async function () {
+      const token = (await (await ethers.getContractFactory("MockERC20")).deploy("Stable", "STB")) as MockERC20;
+      const tokenAddress = await token.getAddress();
+      await predictionMarket.setProtocolFee(100);
+      await predictionMarket.setFeeRecipient(signers.bob.address);
+      await createTokenPrediction(ERC20_COLLATERAL, tokenAddress, 50);
+
+      await token.mint(signers.alice.address, 400_001n);
+      await token.connect(signers.alice).approve(contractAddress, 400_001n);
+      const encryptedChoice = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add8(0)
+        .encrypt();
+      await predictionMarket
+        .connect(signers.alice)
+        .placeTokenBet(1, encryptedChoice.handles[0], 400_001n, encryptedChoice.inputProof);
+      await resolveAndPublish(0);
+
+      // 1.5% of 400,001 rounds down to 6,000: 4,000 for the protocol and the remainder for the creator.
+      expect(await predictionMarket.getAccruedFees(signers.bob.address, ERC20_COLLATERAL, tokenAddress)).to.eq(4_000n);
+      expect(await predictionMarket.getAccruedFees(signers.deployer.address, ERC20_COLLATERAL, tokenAddress)).to.eq(
+        2_000n,
+      );
+      await expect(predictionMarket.withdrawFees(ERC20_COLLATERAL, ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        predictionMarket,
+        "InvalidCollateral",
+      );
+      await expect(predictionMarket.connect(signers.bob).withdrawFees(ERC20_COLLATERAL, tokenAddress))
+        .to.emit(predictionMarket, "FeesWithdrawn")
+        .withArgs(signers.bob.address, ERC20_COLLATERAL, tokenAddress, 4_000n);
+      await predictionMarket.withdrawFees(ERC20_COLLATERAL, tokenAddress);
+
+      await predictionMarket.connect(signers.alice).claimWinnings(1);
+      const [payoutHandle] = await predictionMarket.getClaim(1, signers.alice.address);
+      const decryption = await fhevm.publicDecrypt([payoutHandle]);
+      await predictionMarket
+        .connect(signers.alice)
+        .finalizeClaim(1, decryption.abiEncodedClearValues, decryption.decryptionProof);
+      expect(await token.balanceOf(signers.alice.address)).to.eq(394_001n);
+      expect(await token.balanceOf(signers.bob.address)).to.eq(4_000n);
+      expect(await token.balanceOf(signers.deployer.address)).to.eq(2_000n);
+      expect(await token.balanceOf(contractAddress)).to.eq(0n);
+    });
+
+    it("keeps ERC-7984 stakes and payouts encrypted end to end", async function () {
+      const token = (await (
+        await ethers.getContractFactory("MockConfidentialToken")
+      ).deploy("Confidential", "cTKN")) as MockConfidentialToken;
+      const tokenAddress = await token.getAddress();
+      await createTokenPrediction(CONFIDENTIAL_COLLATERAL, tokenAddress);
+
+      async function placeTokenBet(signer: HardhatEthersSigner, choice: number, amount: bigint) {
+        const encryptedInput = await fhevm
+          .createEncryptedInput(contractAddress, signer.address)
+          .add8(choice)
+          .add64(amount)
+          .encrypt();
+        return predictionMarket
+          .connect(signer)
+          .placeConfidentialTokenBet(
+            1,
+            encryptedInput.handles[0],
+            encryptedInput.handles[1],
+            encryptedInput.inputProof,
+          );
+      }
+
+      async function decryptTokenBalance(signer: HardhatEthersSigner) {
+        const balance = await token.confidentialBalanceOf(signer.address);
+        return fhevm.userDecryptEuint(FhevmType.euint64, balance, tokenAddress, signer);
+      }
+
+      const until = (await time.latest()) + RESOLUTION_WINDOW;
+      for (const signer of [signers.alice, signers.bob]) {
+        await token.mint(signer.address, 500_000n);
+      }
+      await expect(placeTokenBet(signers.alice, 0, 200_000n)).to.be.revertedWithCustomError(
+        token,
+        "UnauthorizedSpender",
+      );
+      await token.connect(signers.alice).setOperator(contractAddress, until);
+      await token.connect(signers.bob).setOperator(contractAddress, until);
+
+      await placeTokenBet(signers.alice, 0, 200_000n);
+      await placeTokenBet(signers.bob, 1, 300_000n);
+      // Exceeds Bob's remaining balance, so nothing is transferred or staked.
+      await placeTokenBet(signers.bob, 1, 900_000n);
+      expect(await decryptTokenBalance(signers.alice)).to.eq(300_000n);
+      expect(await decryptTokenBalance(signers.bob)).to.eq(200_000n);
+
+      await resolveAndPublish(0);
+      const resolution = await predictionMarket.getResolution(1);
+      expect(resolution.pool).to.eq(500_000n);
+
+      await expect(predictionMarket.connect(signers.alice).claimWinnings(1)).to.emit(token, "ConfidentialTransfer");
+      await predictionMarket.connect(signers.bob).claimWinnings(1);
+      const [, claimed, paidOut] = await predictionMarket.getClaim(1, signers.alice.address);
+      expect(claimed && paidOut).to.eq(true);
+
+      expect(await decryptTokenBalance(signers.alice)).to.eq(800_000n);
+      expect(await decryptTokenBalance(signers.bob)).to.eq(200_000n);
+    });
+
+    it("withdraws ERC-7984 fees as a confidential transfer", async function () {
+      const token = (await (
+        await ethers.getContractFactory("MockConfidentialToken")
+      ).deploy("Confidential", "cTKN")) as MockConfidentialToken;
+      const tokenAddress = await token.getAddress();
+      await predictionMarket.setProtocolFee(200);
+      await createTokenPrediction(CONFIDENTIAL_COLLATERAL, tokenAddress);
+
+      await token.mint(signers.alice.address, 500_000n);
+      await token.connect(signers.alice).setOperator(contractAddress, (await time.latest()) + RESOLUTION_WINDOW);
+      const encryptedInput = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add8(1)
+        .add64(500_000n)
+        .encrypt();
+      await predictionMarket
+        .connect(signers.alice)
+        .placeConfidentialTokenBet(1, encryptedInput.handles[0], encryptedInput.handles[1], encryptedInput.inputProof);
+      await resolveAndPublish(1);
+
+      expect(
+        await predictionMarket.getAccruedFees(signers.deployer.address, CONFIDENTIAL_COLLATERAL, tokenAddress),
+      ).to.eq(10_000n);
+      await expect(predictionMarket.withdrawFees(CONFIDENTIAL_COLLATERAL, tokenAddress)).to.emit(
+        token,
+        "ConfidentialTransfer",
+      );
+      const balance = await token.confidentialBalanceOf(signers.deployer.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, balance, tokenAddress, signers.deployer)).to.eq(10_000n);
+    });
+  });
 });
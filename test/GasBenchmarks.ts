@@ -0,0 +1,112 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { ContractTransactionResponse } from "ethers";
+import { FHEPredictionMarket } from "../types";
+
+const OPTION_COUNTS = [2, 4, 8, 16];
+const BETTING_DURATION = 60 * 60;
+const NATIVE_COLLATERAL = [0, ethers.ZeroAddress] as const;
+const NO_DETAILS = { description: "", category: "", resolutionCriteria: "", source: "" };
+const NO_LIMITS = { minBet: 0, maxBet: 0, maxPool: 0 };
+
+type BetGas = { options: number; firstBet: bigint; topUp: bigint; confidentialBet: bigint };
+
+// Measures how the cost of a bet grows with the number of options, each of which costs a comparison, a select
+// and additions on encrypted values. Only runs with `npm run test:gas`, which adds the gas reporter's per-method table.
+(process.env.REPORT_GAS ? describe : describe.skip)("GasBenchmarks", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let market: FHEPredictionMarket;
+  let marketAddress: string;
+
+  before(async function () {
+    [, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This test suite only runs inside the FHEVM mock");
+      this.skip();
+    }
+
+    const ledger = await (await ethers.getContractFactory("PredictionLedger")).deploy();
+    market = (await (
+      await ethers.getContractFactory("FHEPredictionMarket", {
+        libraries: { PredictionLedger: await ledger.getAddress() },
+      })
+    ).deploy()) as FHEPredictionMarket;
+    marketAddress = await market.getAddress();
+    await market.connect(bob).deposit({ value: ethers.parseEther("10") });
+  });
+
+  async function gasUsed(tx: Promise<ContractTransactionResponse>) {
+    return (await (await tx).wait())!.gasUsed;
+  }
+
+  async function encryptedChoice(signer: HardhatEthersSigner, choice: number) {
+    return fhevm.createEncryptedInput(marketAddress, signer.address).add8(choice).encrypt();
+  }
+
+  async function benchmark(predictionId: number, options: number): Promise<BetGas> {
+    const last = options - 1;
+    const first = await encryptedChoice(alice, last);
+    const firstBet = await gasUsed(
+      market.connect(alice).placeEncryptedBet(predictionId, first.handles[0], first.inputProof, { value: 1_000n }),
+    );
+    const again = await encryptedChoice(alice, 0);
+    const topUp = await gasUsed(
+      market.connect(alice).placeEncryptedBet(predictionId, again.handles[0], again.inputProof, { value: 1_000n }),
+    );
+
+    const confidential = await fhevm
+      .createEncryptedInput(marketAddress, bob.address)
+      .add8(last)
+      .add64(ethers.parseEther("0.5"))
+      .encrypt();
+    const confidentialBet = await gasUsed(
+      market
+        .connect(bob)
+        .placeConfidentialBet(predictionId, confidential.handles[0], confidential.handles[1], confidential.inputProof),
+    );
+    return { options, firstBet, topUp, confidentialBet };
+  }
+
+  it("grows the cost of a bet linearly with the number of options", async function () {
+    const results: BetGas[] = [];
+    for (const [index, options] of OPTION_COUNTS.entries()) {
+      const closesAt = (await time.latest()) + BETTING_DURATION;
+      await market.createPrediction(
+        `Benchmark ${options}`,
+        Array.from({ length: options }, (_, option) => `Option ${option}`),
+        closesAt,
+        closesAt + BETTING_DURATION,
+        ethers.ZeroAddress,
+        ...NATIVE_COLLATERAL,
+        0,
+        NO_DETAILS,
+        NO_LIMITS,
+      );
+      results.push(await benchmark(index + 1, options));
+    }
+
+    console.table(
+      results.map(({ options, firstBet, topUp, confidentialBet }) => ({
+        options,
+        placeEncryptedBet: Number(firstBet),
+        "placeEncryptedBet (top-up)": Number(topUp),
+        placeConfidentialBet: Number(confidentialBet),
+      })),
+    );
+
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i].firstBet).to.be.gt(results[i - 1].firstBet);
+      expect(results[i].topUp).to.be.gt(results[i - 1].topUp);
+    }
+    // Every additional option costs about the same, whatever the size of the market.
+    const perOption = (from: BetGas, to: BetGas) => (to.firstBet - from.firstBet) / BigInt(to.options - from.options);
+    const [small, , medium, large] = results;
+    expect(perOption(medium, large)).to.be.closeTo(perOption(small, medium), perOption(small, medium) / 5n);
+  });
+});
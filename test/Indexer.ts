@@ -0,0 +1,170 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { AddressInfo } from "net";
+import { deployments, ethers, fhevm, run } from "hardhat";
+import { expect } from "chai";
+import { FHEPredictionMarket } from "../types";
+import {
+  IndexedEvent,
+  IndexedMarket,
+  Indexer,
+  IndexerStore,
+  createApiServer,
+  createIndexer,
+  createIndexerStore,
+} from "../indexer";
+import { createPredictionMarketClient } from "../sdk";
+
+describe("Indexer", function () {
+  let deployer: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let market: FHEPredictionMarket;
+  let store: IndexerStore;
+  let indexer: Indexer;
+
+  before(async function () {
+    [deployer, , bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This test suite only runs inside the FHEVM mock");
+      this.skip();
+    }
+
+    // Redeploy instead of reverting to a fixture snapshot, which the mock coprocessor cannot follow back.
+    await deployments.run(["FHEPredictionMarket"]);
+    const deployment = await deployments.get("FHEPredictionMarket");
+    market = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
+    store = createIndexerStore(":memory:");
+    indexer = createIndexer({
+      provider: ethers.provider,
+      contractAddress: deployment.address,
+      abi: deployment.abi,
+      store,
+      startBlock: deployment.receipt?.blockNumber,
+      batchSize: 3,
+    });
+
+    // The tasks act as the first signer, bob bets through the SDK.
+    await run("task:create-prediction", { name: "Weather", options: "Sunny,Rainy" });
+    await run("task:create-prediction", { name: "Match", options: "Home,Draw,Away" });
+    await run("task:deposit", { eth: "1" });
+    await run("task:place-bet", { prediction: "1", choice: "1", eth: "0.2" });
+    await run("task:place-bet", { prediction: "1", choice: "0", eth: "0.1" });
+    const bobClient = createPredictionMarketClient({ contract: market, signer: bob, backend: fhevm });
+    await bobClient.placeBet({ predictionId: 1, choice: 0, amount: ethers.parseEther("0.3"), payWithValue: true });
+  });
+
+  afterEach(function () {
+    store?.close();
+  });
+
+  it("indexes predictions, bet counts and per-address activity", async function () {
+    const head = await ethers.provider.getBlockNumber();
+    expect(await indexer.sync()).to.eq(head);
+    expect(store.lastBlock()).to.eq(head);
+
+    const { markets, total } = store.listMarkets(0, 10);
+    expect(total).to.eq(2);
+    expect(markets.map((indexed) => indexed.name)).to.deep.eq(["Weather", "Match"]);
+    expect(markets[0]).to.include({
+      id: 1,
+      creator: deployer.address,
+      resolver: deployer.address,
+      optionCount: 2,
+      status: "open",
+      betCount: 3,
+      bettorCount: 2,
+    });
+    expect(markets[1]).to.include({ optionCount: 3, betCount: 0, bettorCount: 0 });
+
+    const activity = store.getActivity(deployer.address, 10);
+    expect(activity.map((event) => event.name)).to.deep.eq([
+      "BetPlaced",
+      "BetPlaced",
+      "Deposited",
+      "PredictionCreated",
+      "PredictionCreated",
+    ]);
+    expect(activity[0]).to.deep.include({ predictionId: 1, account: deployer.address.toLowerCase() });
+    expect(activity[0].args.confidential).to.eq(true);
+    expect(activity[2].args.amount).to.eq(ethers.parseEther("1").toString());
+    expect(store.getActivity(bob.address, 10).map((event) => event.name)).to.deep.eq(["BetPlaced"]);
+  });
+
+  it("resumes from the last indexed block and tracks resolution", async function () {
+    await indexer.sync();
+    expect(store.getMarket(1)?.status).to.eq("open");
+
+    await time.increase(24 * 60 * 60);
+    await run("task:reveal-totals", { prediction: "1" });
+    await run("task:resolve-prediction", { prediction: "1", winner: "0" });
+    await run("task:admin-cancel-prediction", { prediction: "2" });
+    await indexer.sync();
+
+    expect(store.getMarket(1)).to.include({ totalsRevealed: true, winningOption: 0, status: "resolved", betCount: 3 });
+    expect(store.getMarket(2)?.status).to.eq("cancelled");
+    expect(store.getActivity(deployer.address, 2).map((event) => event.name)).to.deep.eq(["BetPlaced", "BetPlaced"]);
+  });
+
+  it("works out closed and lapsed markets from their timestamps", async function () {
+    await indexer.sync();
+
+    // Statuses follow the timestamp of the last indexed block, not the wall clock.
+    await time.increase(24 * 60 * 60);
+    expect(store.getMarket(1)?.status).to.eq("open");
+    await indexer.sync();
+    expect(store.getMarket(1)?.status).to.eq("closed");
+    // Unresolved past the resolution deadline, the market counts as cancelled although no event says so.
+    await time.increase(7 * 24 * 60 * 60);
+    await indexer.sync();
+    expect(store.getMarket(1)?.status).to.eq("cancelled");
+    expect(store.listMarkets(0, 10).markets.map((indexed) => indexed.status)).to.deep.eq(["cancelled", "cancelled"]);
+  });
+
+  it("leaves out markets hidden by moderators", async function () {
+    await run("task:hide-prediction", { prediction: "2" });
+    await indexer.sync();
+
+    expect(store.listMarkets(0, 10)).to.deep.include({ total: 1 });
+    expect(store.getMarket(2)).to.eq(null);
+
+    await run("task:hide-prediction", { prediction: "2", hidden: "false" });
+    await indexer.sync();
+    expect(store.getMarket(2)?.name).to.eq("Match");
+  });
+
+  it("serves the indexed data over HTTP", async function () {
+    await indexer.sync();
+    const server = createApiServer(store);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const get = async <T = unknown>(route: string) => {
+      const response = await fetch(`${baseUrl}${route}`);
+      return { status: response.status, body: (await response.json()) as T };
+    };
+
+    try {
+      const markets = await get<{ markets: IndexedMarket[]; total: number }>("/markets?limit=1&offset=1");
+      expect(markets.status).to.eq(200);
+      expect(markets.body.total).to.eq(2);
+      expect(markets.body.markets.map((indexed) => indexed.name)).to.deep.eq(["Match"]);
+
+      expect((await get("/markets/1")).body).to.include({ name: "Weather", betCount: 3 });
+      expect((await get("/markets/1/bets")).body).to.deep.eq({ predictionId: 1, betCount: 3, bettorCount: 2 });
+      expect((await get("/markets/9")).status).to.eq(404);
+
+      const activity = await get<{ activity: IndexedEvent[] }>(`/activity/${bob.address}`);
+      expect(activity.body.activity).to.have.lengthOf(1);
+      expect(activity.body.activity[0]).to.include({ name: "BetPlaced", predictionId: 1 });
+      expect((await get("/activity/bob")).status).to.eq(400);
+      expect((await get("/markets?limit=-1")).status).to.eq(400);
+      expect((await get<{ lastBlock: number }>("/status")).body.lastBlock).to.eq(
+        await ethers.provider.getBlockNumber(),
+      );
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
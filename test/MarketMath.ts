@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import { ClearTotals, marketOdds, payoutIfWins, poolFee, previewPayout, scalarBucketOf, scalarBuckets } from "../sdk";
+
+const totalsOf = (...totals: bigint[]): ClearTotals => ({
+  pool: totals.reduce((sum, total) => sum + total, 0n),
+  totals,
+});
+
+describe("MarketMath", function () {
+  it("has no odds for an empty pool", function () {
+    expect(marketOdds(totalsOf(0n, 0n))).to.deep.eq([
+      { option: 0, total: 0n, probability: null, decimalOdds: null },
+      { option: 1, total: 0n, probability: null, decimalOdds: null },
+    ]);
+
+    // The first bettor only gets their stake back, whatever the option.
+    expect(previewPayout(totalsOf(0n, 0n), 1, 100n)).to.deep.eq({
+      stake: 100n,
+      payout: 100n,
+      profit: 0n,
+      fee: 0n,
+      decimalOdds: 1,
+    });
+  });
+
+  it("prices options by their share of the pool", function () {
+    const odds = marketOdds(totalsOf(300n, 100n, 0n));
+    expect(odds.map(({ probability }) => probability)).to.deep.eq([0.75, 0.25, 0]);
+    expect(odds.map(({ decimalOdds }) => decimalOdds)).to.deep.eq([1.333333333, 4, null]);
+
+    expect(previewPayout(totalsOf(300n, 100n), 1, 100n)).to.deep.include({
+      payout: 250n,
+      profit: 150n,
+      decimalOdds: 2.5,
+    });
+    expect(previewPayout(totalsOf(300n, 100n), 1, 0n)).to.deep.include({ payout: 0n, decimalOdds: null });
+  });
+
+  it("handles single-sided markets", function () {
+    const odds = marketOdds(totalsOf(500n, 0n));
+    expect(odds[0]).to.deep.include({ probability: 1, decimalOdds: 1 });
+    expect(odds[1]).to.deep.include({ probability: 0, decimalOdds: null });
+
+    // Joining the crowded side earns nothing, taking the other side wins the whole pool.
+    expect(previewPayout(totalsOf(500n, 0n), 0, 100n)).to.deep.include({ payout: 100n, profit: 0n });
+    expect(previewPayout(totalsOf(500n, 0n), 1, 100n)).to.deep.include({ payout: 600n, profit: 500n, decimalOdds: 6 });
+
+    // Nobody backed the winner: every bettor is refunded their whole stake.
+    expect(payoutIfWins(totalsOf(500n, 0n), 1, [200n, 0n])).to.eq(200n);
+  });
+
+  it("rounds payouts down like the contract", function () {
+    const totals = totalsOf(1n, 2n);
+    expect(payoutIfWins(totals, 1, [0n, 1n])).to.eq(1n);
+    expect(payoutIfWins(totals, 0, [1n, 1n])).to.eq(3n);
+    expect(payoutIfWins(totals, 1, [1n, 0n])).to.eq(0n);
+  });
+
+  it("deducts the fee from the pool", function () {
+    expect(poolFee(1_000n, 250n)).to.eq(25n);
+    expect(poolFee(39n, 250n)).to.eq(0n);
+
+    const totals = totalsOf(600n, 400n);
+    expect(payoutIfWins(totals, 1, [0n, 400n], 250n)).to.eq(975n);
+    expect(marketOdds(totals, 250n)[1].decimalOdds).to.eq(2.4375);
+    expect(previewPayout(totals, 0, 400n, 250n)).to.deep.eq({
+      stake: 400n,
+      payout: 546n,
+      profit: 146n,
+      fee: 35n,
+      decimalOdds: 1.365,
+    });
+  });
+
+  it("splits scalar ranges into buckets like the contract", function () {
+    expect(scalarBuckets(-10n, 20n, 3)).to.deep.eq([
+      { option: 0, from: null, to: 0n, label: "< 0" },
+      { option: 1, from: 0n, to: 10n, label: "0 to 10" },
+      { option: 2, from: 10n, to: null, label: "≥ 10" },
+    ]);
+
+    // 100 / 3 leaves a remainder, which the last bucket absorbs along with everything above the range.
+    const bucketOf = (value: bigint) => scalarBucketOf(0n, 100n, 3, value);
+    expect([-5n, 32n, 33n, 65n, 66n, 99n, 1_000n].map(bucketOf)).to.deep.eq([0, 0, 1, 1, 2, 2, 2]);
+    expect(() => scalarBuckets(0n, 2n, 3)).to.throw(RangeError, "at least one unit per bucket");
+  });
+
+  it("rejects unknown options, negative stakes and invalid fees", function () {
+    const totals = totalsOf(1n, 1n);
+    expect(() => payoutIfWins(totals, 2, [1n, 1n])).to.throw(RangeError, "Option 2 does not exist");
+    expect(() => previewPayout(totals, 2, 1n)).to.throw(RangeError, "Option 2 does not exist");
+    expect(() => previewPayout(totals, 0, -1n)).to.throw(RangeError, "Stake cannot be negative");
+    expect(() => poolFee(100n, 10_001n)).to.throw(RangeError, "Fee must be between 0 and 10000 basis points");
+    expect(() => marketOdds(totals, -1n)).to.throw(RangeError);
+  });
+});
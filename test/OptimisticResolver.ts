@@ -0,0 +1,175 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FHEPredictionMarket, OptimisticResolver } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  arbitrator: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const BETTING_DURATION = 60 * 60;
+const RESOLUTION_WINDOW = 7 * 24 * 60 * 60;
+const NATIVE_COLLATERAL = [0, ethers.ZeroAddress] as const;
+const NO_DETAILS = { description: "", category: "", resolutionCriteria: "", source: "" };
+const NO_LIMITS = { minBet: 0, maxBet: 0, maxPool: 0 };
+const CHALLENGE_WINDOW = 24 * 60 * 60;
+const BOND = ethers.parseEther("0.5");
+
+async function deployFixture(arbitrator: string) {
+  const ledger = await (await ethers.getContractFactory("PredictionLedger")).deploy();
+  const market = (await (
+    await ethers.getContractFactory("FHEPredictionMarket", {
+      libraries: { PredictionLedger: await ledger.getAddress() },
+    })
+  ).deploy()) as FHEPredictionMarket;
+  const resolver = (await (
+    await ethers.getContractFactory("OptimisticResolver")
+  ).deploy(await market.getAddress(), arbitrator, BOND, CHALLENGE_WINDOW)) as OptimisticResolver;
+  return { market, resolver };
+}
+
+describe("OptimisticResolver", function () {
+  let signers: Signers;
+  let market: FHEPredictionMarket;
+  let resolver: OptimisticResolver;
+  let marketAddress: string;
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], arbitrator: ethSigners[1], alice: ethSigners[2], bob: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This test suite only runs inside the FHEVM mock");
+      this.skip();
+    }
+
+    ({ market, resolver } = await deployFixture(signers.arbitrator.address));
+    marketAddress = await market.getAddress();
+
+    const closesAt = (await time.latest()) + BETTING_DURATION;
+    await market.createPrediction(
+      "Optimistic",
+      ["Yes", "No"],
+      closesAt,
+      closesAt + RESOLUTION_WINDOW,
+      await resolver.getAddress(),
+      ...NATIVE_COLLATERAL,
+      0,
+      NO_DETAILS,
+      NO_LIMITS,
+    );
+  });
+
+  it("only accepts bonded proposals once betting has closed", async function () {
+    await expect(resolver.connect(signers.alice).proposeOutcome(1, 0, { value: BOND })).to.be.revertedWithCustomError(
+      resolver,
+      "PredictionNotClosed",
+    );
+
+    await time.increase(BETTING_DURATION);
+    await expect(
+      resolver.connect(signers.alice).proposeOutcome(1, 0, { value: BOND - 1n }),
+    ).to.be.revertedWithCustomError(resolver, "InvalidBond");
+    await expect(resolver.connect(signers.alice).proposeOutcome(1, 2, { value: BOND })).to.be.revertedWithCustomError(
+      market,
+      "InvalidWinningOption",
+    );
+
+    await expect(resolver.connect(signers.alice).proposeOutcome(1, 1, { value: BOND }))
+      .to.emit(resolver, "OutcomeProposed")
+      .withArgs(1, signers.alice.address, 1, (await time.latest()) + 1 + CHALLENGE_WINDOW);
+    await expect(resolver.connect(signers.bob).proposeOutcome(1, 0, { value: BOND })).to.be.revertedWithCustomError(
+      resolver,
+      "ProposalAlreadyExists",
+    );
+  });
+
+  it("rejects proposals for predictions it does not resolve", async function () {
+    const closesAt = (await time.latest()) + BETTING_DURATION;
+    await market.createPrediction(
+      "Manual",
+      ["Yes", "No"],
+      closesAt,
+      closesAt + RESOLUTION_WINDOW,
+      ethers.ZeroAddress,
+      ...NATIVE_COLLATERAL,
+      0,
+      NO_DETAILS,
+      NO_LIMITS,
+    );
+    await time.increase(BETTING_DURATION);
+
+    await expect(resolver.connect(signers.alice).proposeOutcome(2, 0, { value: BOND })).to.be.revertedWithCustomError(
+      resolver,
+      "NotPredictionResolver",
+    );
+  });
+
+  it("finalizes undisputed proposals after the challenge window", async function () {
+    await time.increase(BETTING_DURATION);
+    await resolver.connect(signers.alice).proposeOutcome(1, 1, { value: BOND });
+
+    expect((await resolver.getOutcome(marketAddress, 1)).ready).to.eq(false);
+    await expect(resolver.finalizeOutcome(1)).to.be.revertedWithCustomError(resolver, "ChallengeWindowOpen");
+
+    await time.increase(CHALLENGE_WINDOW);
+    const [ready, outcome] = await resolver.getOutcome(marketAddress, 1);
+    expect(ready).to.eq(true);
+    expect(outcome).to.eq(1);
+    await expect(resolver.connect(signers.bob).disputeOutcome(1, { value: BOND })).to.be.revertedWithCustomError(
+      resolver,
+      "ChallengeWindowClosed",
+    );
+
+    await expect(market.connect(signers.bob).resolveFromOracle(1)).to.emit(market, "PredictionResolved").withArgs(1, 1);
+    const tx = await resolver.finalizeOutcome(1);
+    await expect(tx).to.emit(resolver, "ProposalFinalized").withArgs(1, 1);
+    await expect(tx).to.changeEtherBalances([resolver, signers.alice], [-BOND, BOND]);
+    await expect(resolver.finalizeOutcome(1)).to.be.revertedWithCustomError(resolver, "NoActiveProposal");
+  });
+
+  it("escalates disputed proposals to the arbitrator", async function () {
+    await time.increase(BETTING_DURATION);
+    await resolver.connect(signers.alice).proposeOutcome(1, 1, { value: BOND });
+    await expect(resolver.connect(signers.bob).disputeOutcome(1, { value: BOND }))
+      .to.emit(resolver, "OutcomeDisputed")
+      .withArgs(1, signers.bob.address);
+
+    await time.increase(CHALLENGE_WINDOW);
+    expect((await resolver.getOutcome(marketAddress, 1)).ready).to.eq(false);
+    await expect(resolver.finalizeOutcome(1)).to.be.revertedWithCustomError(resolver, "NoActiveProposal");
+    await expect(market.resolveFromOracle(1)).to.be.revertedWithCustomError(market, "OutcomeNotAvailable");
+    await expect(resolver.connect(signers.alice).resolveDispute(1, 1)).to.be.revertedWithCustomError(
+      resolver,
+      "NotArbitrator",
+    );
+
+    const tx = await resolver.connect(signers.arbitrator).resolveDispute(1, 0);
+    await expect(tx).to.emit(resolver, "DisputeResolved").withArgs(1, 0, signers.bob.address);
+    await expect(tx).to.emit(market, "PredictionResolved").withArgs(1, 0);
+    await expect(tx).to.changeEtherBalances([resolver, signers.bob], [-BOND * 2n, BOND * 2n]);
+    expect((await market.getResolution(1)).winningOption).to.eq(0);
+    await expect(resolver.connect(signers.arbitrator).resolveDispute(1, 0)).to.be.revertedWithCustomError(
+      resolver,
+      "NotDisputed",
+    );
+  });
+
+  it("returns both bonds to the proposer when the arbitrator upholds the proposal", async function () {
+    await time.increase(BETTING_DURATION);
+    await resolver.connect(signers.alice).proposeOutcome(1, 1, { value: BOND });
+    await resolver.connect(signers.bob).disputeOutcome(1, { value: BOND });
+
+    await expect(resolver.connect(signers.arbitrator).resolveDispute(1, 1)).to.changeEtherBalances(
+      [resolver, signers.alice],
+      [-BOND * 2n, BOND * 2n],
+    );
+    expect((await resolver.getProposal(1)).state).to.eq(3);
+  });
+});
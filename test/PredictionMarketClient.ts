@@ -0,0 +1,281 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FHEPredictionMarket, MockConfidentialToken, MockERC20 } from "../types";
+import {
+  CollateralType,
+  FhevmBackend,
+  MarketType,
+  PredictionMarketClient,
+  createPredictionMarketClient,
+  scalarBuckets,
+} from "../sdk";
+
+const BETTING_DURATION = 60 * 60;
+const RESOLUTION_WINDOW = 7 * 24 * 60 * 60;
+
+async function bettingWindow(): Promise<[number, number]> {
+  const closesAt = (await time.latest()) + BETTING_DURATION;
+  return [closesAt, closesAt + RESOLUTION_WINDOW];
+}
+
+describe("PredictionMarketClient", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let market: FHEPredictionMarket;
+  let aliceClient: PredictionMarketClient;
+  let bobClient: PredictionMarketClient;
+
+  before(async function () {
+    [, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This test suite only runs inside the FHEVM mock");
+      this.skip();
+    }
+
+    const ledger = await (await ethers.getContractFactory("PredictionLedger")).deploy();
+    market = (await (
+      await ethers.getContractFactory("FHEPredictionMarket", {
+        libraries: { PredictionLedger: await ledger.getAddress() },
+      })
+    ).deploy()) as FHEPredictionMarket;
+    aliceClient = createPredictionMarketClient({ contract: market, signer: alice, backend: fhevm });
+    bobClient = createPredictionMarketClient({ contract: market, signer: bob, backend: fhevm });
+  });
+
+  it("creates predictions and returns their id", async function () {
+    const [bettingClosesAt, resolutionDeadline] = await bettingWindow();
+    const { predictionId } = await aliceClient.createPrediction({
+      name: "Weather",
+      options: ["Sunny", "Rainy"],
+      bettingClosesAt,
+      resolutionDeadline,
+    });
+
+    expect(predictionId).to.eq(1);
+    const summary = await market.getPredictionMetadata(predictionId);
+    expect(summary.creator).to.eq(alice.address);
+    expect(summary.resolver).to.eq(alice.address);
+    expect(summary.collateralType).to.eq(CollateralType.Native);
+    expect(await market.getBetLimits(predictionId)).to.deep.eq([0n, 0n, 0n]);
+  });
+
+  it("passes bet limits through to the contract", async function () {
+    const [bettingClosesAt, resolutionDeadline] = await bettingWindow();
+    const { predictionId } = await aliceClient.createPrediction({
+      name: "Capped",
+      options: ["Yes", "No"],
+      bettingClosesAt,
+      resolutionDeadline,
+      minBet: ethers.parseEther("0.01"),
+      maxPool: ethers.parseEther("5"),
+    });
+
+    expect(await market.getBetLimits(predictionId)).to.deep.eq([ethers.parseEther("0.01"), 0n, ethers.parseEther("5")]);
+  });
+
+  it("creates scalar predictions with generated bucket labels", async function () {
+    const [bettingClosesAt, resolutionDeadline] = await bettingWindow();
+    const { predictionId } = await aliceClient.createPrediction({
+      name: "ETH price",
+      options: scalarBuckets(2_000n, 5_000n, 3).map(({ label }) => label),
+      scalarRange: { lowerBound: 2_000n, upperBound: 5_000n },
+      bettingClosesAt,
+      resolutionDeadline,
+    });
+
+    const summary = await market.getPredictionMetadata(predictionId);
+    expect(summary.marketType).to.eq(MarketType.Scalar);
+    expect(summary.options).to.deep.eq(["< 3000", "3000 to 4000", "≥ 4000"]);
+    expect(await market.getScalarBucket(predictionId, 4_500n)).to.eq(2);
+  });
+
+  it("places native bets and decrypts the bettor's positions", async function () {
+    const [bettingClosesAt, resolutionDeadline] = await bettingWindow();
+    const { predictionId } = await aliceClient.createPrediction({
+      name: "Match",
+      options: ["Home", "Draw", "Away"],
+      bettingClosesAt,
+      resolutionDeadline,
+    });
+    expect(await aliceClient.decryptMyBet(predictionId)).to.eq(null);
+
+    await market.connect(alice).deposit({ value: ethers.parseEther("1") });
+    await aliceClient.placeBet({ predictionId, choice: 2, amount: ethers.parseEther("0.3") });
+    await aliceClient.placeBet({ predictionId, choice: 0, amount: ethers.parseEther("0.1") });
+
+    expect(await aliceClient.decryptMyBet(predictionId)).to.deep.eq({
+      amount: ethers.parseEther("0.4"),
+      positions: [ethers.parseEther("0.1"), 0n, ethers.parseEther("0.3")],
+    });
+  });
+
+  it("refuses confidential bets the balance cannot cover instead of staking zero", async function () {
+    const [bettingClosesAt, resolutionDeadline] = await bettingWindow();
+    const { predictionId } = await aliceClient.createPrediction({
+      name: "Match",
+      options: ["Yes", "No"],
+      bettingClosesAt,
+      resolutionDeadline,
+    });
+    await market.connect(alice).deposit({ value: ethers.parseEther("0.1") });
+
+    await expect(
+      aliceClient.placeBet({ predictionId, choice: 0, amount: ethers.parseEther("0.2") }),
+    ).to.be.rejectedWith("does not cover the stake");
+    expect(await aliceClient.decryptMyBet(predictionId)).to.eq(null);
+  });
+
+  it("only decrypts totals once they are revealed", async function () {
+    const [bettingClosesAt, resolutionDeadline] = await bettingWindow();
+    const { predictionId } = await aliceClient.createPrediction({
+      name: "Match",
+      options: ["Yes", "No"],
+      bettingClosesAt,
+      resolutionDeadline,
+    });
+    await aliceClient.placeBet({ predictionId, choice: 0, amount: ethers.parseEther("0.2"), payWithValue: true });
+    await bobClient.placeBet({ predictionId, choice: 1, amount: ethers.parseEther("0.5"), payWithValue: true });
+
+    expect((await aliceClient.getTotals(predictionId)).revealed).to.eq(false);
+    await expect(aliceClient.decryptTotals(predictionId)).to.be.rejectedWith("not revealed");
+
+    await time.increase(BETTING_DURATION);
+    await market.revealTotals(predictionId);
+    expect(await bobClient.decryptTotals(predictionId)).to.deep.eq({
+      pool: ethers.parseEther("0.7"),
+      totals: [ethers.parseEther("0.2"), ethers.parseEther("0.5")],
+    });
+  });
+
+  it("decrypts the totals of many predictions in batched requests", async function () {
+    const requests: number[] = [];
+    const backend: FhevmBackend = {
+      createEncryptedInput: (contractAddress, userAddress) => fhevm.createEncryptedInput(contractAddress, userAddress),
+      generateKeypair: () => fhevm.generateKeypair(),
+      createEIP712: (...args: Parameters<FhevmBackend["createEIP712"]>) => fhevm.createEIP712(...args),
+      userDecrypt: (...args: Parameters<FhevmBackend["userDecrypt"]>) => fhevm.userDecrypt(...args),
+      publicDecrypt: (handles) => {
+        requests.push(handles.length);
+        return fhevm.publicDecrypt(handles);
+      },
+    };
+    const client = createPredictionMarketClient({ contract: market, signer: alice, backend });
+
+    const options = Array.from({ length: 16 }, (_, option) => `Option ${option}`);
+    for (const [index, eth] of ["0.11", "0.12", "0.13"].entries()) {
+      const [bettingClosesAt, resolutionDeadline] = await bettingWindow();
+      await client.createPrediction({ name: `Market ${index}`, options, bettingClosesAt, resolutionDeadline });
+      await client.placeBet({
+        predictionId: index + 1,
+        choice: index,
+        amount: ethers.parseEther(eth),
+        payWithValue: true,
+      });
+    }
+    await time.increase(BETTING_DURATION);
+    await market.revealTotals(1);
+    await market.revealTotals(3);
+
+    // Two predictions of 16 options and a pool each: 34 handles, sent as a full batch of 32 and the remainder.
+    const [first, second, third] = await client.decryptTotalsBatch([1, 2, 3]);
+    expect(requests).to.deep.eq([32, 2]);
+    expect(second).to.eq(null);
+    expect(first?.pool).to.eq(ethers.parseEther("0.11"));
+    expect(first?.totals[0]).to.eq(ethers.parseEther("0.11"));
+    expect(third?.pool).to.eq(ethers.parseEther("0.13"));
+    expect(third?.totals[2]).to.eq(ethers.parseEther("0.13"));
+    expect(third?.totals.filter((total) => total === 0n)).to.have.lengthOf(15);
+  });
+
+  it("decrypts the signer's score and ranks revealed scores by profit", async function () {
+    const [bettingClosesAt, resolutionDeadline] = await bettingWindow();
+    const { predictionId } = await aliceClient.createPrediction({
+      name: "Match",
+      options: ["Yes", "No"],
+      bettingClosesAt,
+      resolutionDeadline,
+    });
+    await aliceClient.placeBet({ predictionId, choice: 0, amount: ethers.parseEther("0.2"), payWithValue: true });
+    await bobClient.placeBet({ predictionId, choice: 1, amount: ethers.parseEther("0.6"), payWithValue: true });
+
+    await time.increase(BETTING_DURATION);
+    await market.connect(alice).resolvePrediction(predictionId, 0);
+    const [totals, pool] = await market.getEncryptedTotals(predictionId);
+    const decryption = await fhevm.publicDecrypt([pool, totals[0]]);
+    await market.publishResolutionTotals(predictionId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    expect(await aliceClient.decryptMyScore()).to.eq(null);
+
+    for (const signer of [bob, alice]) {
+      await market.connect(signer).claimWinnings(predictionId);
+      await market.connect(signer).revealScore();
+    }
+    const aliceScore = {
+      user: alice.address,
+      staked: ethers.parseEther("0.2"),
+      returned: ethers.parseEther("0.8"),
+      profit: ethers.parseEther("0.6"),
+      marketsClaimed: 1n,
+    };
+    expect(await aliceClient.decryptMyScore()).to.deep.eq(aliceScore);
+    expect(await bobClient.decryptLeaderboard()).to.deep.eq([
+      aliceScore,
+      {
+        user: bob.address,
+        staked: ethers.parseEther("0.6"),
+        returned: 0n,
+        profit: -ethers.parseEther("0.6"),
+        marketsClaimed: 1n,
+      },
+    ]);
+  });
+
+  it("approves and stakes token collateral", async function () {
+    const erc20 = (await (await ethers.getContractFactory("MockERC20")).deploy("Mock USD", "mUSD")) as MockERC20;
+    const confidentialToken = (await (
+      await ethers.getContractFactory("MockConfidentialToken")
+    ).deploy("Mock Confidential USD", "cUSD")) as MockConfidentialToken;
+    await erc20.mint(alice.address, 1_000_000);
+    await confidentialToken.mint(alice.address, 1_000_000);
+
+    const statuses: string[] = [];
+    const client = createPredictionMarketClient({
+      contract: market,
+      signer: alice,
+      backend: fhevm,
+      onStatus: (status) => statuses.push(status),
+    });
+    const [bettingClosesAt, resolutionDeadline] = await bettingWindow();
+    const { predictionId: erc20Prediction } = await client.createPrediction({
+      name: "ERC-20",
+      options: ["Yes", "No"],
+      bettingClosesAt,
+      resolutionDeadline,
+      collateralType: CollateralType.ERC20,
+      collateralToken: await erc20.getAddress(),
+    });
+    const { predictionId: confidentialPrediction } = await client.createPrediction({
+      name: "ERC-7984",
+      options: ["Yes", "No"],
+      bettingClosesAt,
+      resolutionDeadline,
+      collateralType: CollateralType.Confidential,
+      collateralToken: await confidentialToken.getAddress(),
+    });
+
+    await expect(
+      client.placeBet({ predictionId: erc20Prediction, choice: 0, amount: 400_000n, payWithValue: true }),
+    ).to.be.rejectedWith("native ETH");
+    await client.placeBet({ predictionId: erc20Prediction, choice: 0, amount: 400_000n });
+    await client.placeBet({ predictionId: confidentialPrediction, choice: 1, amount: 250_000n });
+
+    expect(statuses).to.include("Approving token transfer...");
+    expect(statuses).to.include("Authorizing the market to move your tokens...");
+    expect(await erc20.balanceOf(await market.getAddress())).to.eq(400_000n);
+    expect((await client.decryptMyBet(confidentialPrediction))?.positions).to.deep.eq([0n, 250_000n]);
+  });
+});
@@ -0,0 +1,234 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployments, ethers, fhevm, run } from "hardhat";
+import { expect } from "chai";
+import { FHEPredictionMarket, PredictionSeries } from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  keeper: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+};
+
+const BETTING_DURATION = 7 * 24 * 60 * 60;
+const RESOLUTION_WINDOW = 2 * 24 * 60 * 60;
+const WEEKLY_TEMPLATE = {
+  name: "Will the release ship by Friday?",
+  options: ["Yes", "No"],
+  resolver: ethers.ZeroAddress,
+  collateralType: 0,
+  collateralToken: ethers.ZeroAddress,
+  bettingDuration: BETTING_DURATION,
+  resolutionWindow: RESOLUTION_WINDOW,
+  details: { description: "", category: "releases", resolutionCriteria: "", source: "" },
+  limits: { minBet: 0, maxBet: 0, maxPool: ethers.parseEther("10") },
+};
+
+async function deployFixture() {
+  const ledger = await (await ethers.getContractFactory("PredictionLedger")).deploy();
+  const market = (await (
+    await ethers.getContractFactory("FHEPredictionMarket", {
+      libraries: { PredictionLedger: await ledger.getAddress() },
+    })
+  ).deploy()) as FHEPredictionMarket;
+  const series = (await (
+    await ethers.getContractFactory("PredictionSeries")
+  ).deploy(await market.getAddress())) as PredictionSeries;
+  return { market, series };
+}
+
+describe("PredictionSeries", function () {
+  let signers: Signers;
+  let market: FHEPredictionMarket;
+  let series: PredictionSeries;
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = { owner: ethSigners[0], keeper: ethSigners[1], alice: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This test suite only runs inside the FHEVM mock");
+      this.skip();
+    }
+
+    ({ market, series } = await deployFixture());
+  });
+
+  it("creates a series and spawns its first round from the template", async function () {
+    await expect(series.createSeries(WEEKLY_TEMPLATE, ethers.ZeroAddress))
+      .to.emit(series, "SeriesCreated")
+      .withArgs(1, signers.owner.address, WEEKLY_TEMPLATE.name)
+      .and.to.emit(series, "RoundSpawned")
+      .withArgs(1, 1, 1);
+
+    const createdAt = BigInt(await time.latest());
+    const round = await market.getPredictionMetadata(1);
+    expect(round.name).to.eq(WEEKLY_TEMPLATE.name);
+    expect(round.options).to.deep.eq(["Yes", "No"]);
+    expect(round.creator).to.eq(await series.getAddress());
+    // A zero resolver in the template makes the series owner resolve every round.
+    expect(round.resolver).to.eq(signers.owner.address);
+    expect(round.creatorFeeBps).to.eq(0);
+    expect(round.details.category).to.eq("releases");
+    expect(round.bettingClosesAt).to.eq(createdAt + BigInt(BETTING_DURATION));
+    expect(round.resolutionDeadline).to.eq(createdAt + BigInt(BETTING_DURATION + RESOLUTION_WINDOW));
+    expect(await market.getBetLimits(1)).to.deep.eq([0n, 0n, ethers.parseEther("10")]);
+
+    const created = await series.getSeries(1);
+    expect(created.owner).to.eq(signers.owner.address);
+    expect(created.roundCount).to.eq(1);
+    expect(created.latestRound).to.eq(1);
+    expect(created.nextRoundAt).to.eq(round.bettingClosesAt);
+    expect(await series.seriesOf(1)).to.deep.eq([1n, 1n]);
+    expect(await series.getSeriesCount()).to.eq(1);
+  });
+
+  it("rejects templates the market would not accept", async function () {
+    await expect(
+      series.createSeries({ ...WEEKLY_TEMPLATE, options: ["Only"] }, ethers.ZeroAddress),
+    ).to.be.revertedWithCustomError(market, "InvalidOptionsCount");
+    await expect(
+      series.createSeries({ ...WEEKLY_TEMPLATE, bettingDuration: 0 }, ethers.ZeroAddress),
+    ).to.be.revertedWithCustomError(market, "InvalidBettingCloseTime");
+    expect(await series.getSeriesCount()).to.eq(0);
+  });
+
+  it("lets anyone spawn the next round once the previous one has closed", async function () {
+    await series.createSeries(WEEKLY_TEMPLATE, ethers.ZeroAddress);
+    await market.createPrediction(
+      "Standalone",
+      ["A", "B"],
+      (await time.latest()) + 3600,
+      (await time.latest()) + 7200,
+      ethers.ZeroAddress,
+      0,
+      ethers.ZeroAddress,
+      0,
+      { description: "", category: "", resolutionCriteria: "", source: "" },
+      { minBet: 0, maxBet: 0, maxPool: 0 },
+    );
+
+    await expect(series.connect(signers.alice).spawnRound(1)).to.be.revertedWithCustomError(series, "RoundStillOpen");
+    await expect(series.spawnRound(2)).to.be.revertedWithCustomError(series, "InvalidSeries");
+
+    await time.increase(BETTING_DURATION);
+    await expect(series.connect(signers.alice).spawnRound(1)).to.emit(series, "RoundSpawned").withArgs(1, 3, 2);
+
+    expect((await series.getSeriesRounds(1, 0, 10))[0]).to.deep.eq([1n, 3n]);
+    expect(await series.seriesOf(2)).to.deep.eq([0n, 0n]);
+    expect(await series.seriesOf(3)).to.deep.eq([1n, 2n]);
+    expect(await market.getPredictionState(3)).to.eq(0);
+    await expect(series.spawnRound(1)).to.be.revertedWithCustomError(series, "RoundStillOpen");
+  });
+
+  it("restricts spawning to the keeper and the owner when a keeper is set", async function () {
+    await expect(series.createSeries(WEEKLY_TEMPLATE, signers.keeper.address))
+      .to.emit(series, "KeeperUpdated")
+      .withArgs(1, signers.keeper.address);
+    await time.increase(BETTING_DURATION);
+
+    await expect(series.connect(signers.alice).spawnRound(1)).to.be.revertedWithCustomError(series, "NotKeeper");
+    await series.connect(signers.keeper).spawnRound(1);
+    await time.increase(BETTING_DURATION);
+    await series.spawnRound(1);
+
+    await expect(series.connect(signers.alice).setKeeper(1, ethers.ZeroAddress)).to.be.revertedWithCustomError(
+      series,
+      "NotSeriesOwner",
+    );
+    await series.setKeeper(1, ethers.ZeroAddress);
+    await time.increase(BETTING_DURATION);
+    await series.connect(signers.alice).spawnRound(1);
+    expect((await series.getSeries(1)).roundCount).to.eq(4);
+  });
+
+  it("stops spawning rounds once the owner ends the series", async function () {
+    await series.createSeries(WEEKLY_TEMPLATE, ethers.ZeroAddress);
+
+    await expect(series.connect(signers.alice).endSeries(1)).to.be.revertedWithCustomError(series, "NotSeriesOwner");
+    await expect(series.endSeries(1)).to.emit(series, "SeriesEnded").withArgs(1);
+    await expect(series.endSeries(1)).to.be.revertedWithCustomError(series, "SeriesNotActive");
+
+    await time.increase(BETTING_DURATION);
+    await expect(series.spawnRound(1)).to.be.revertedWithCustomError(series, "SeriesNotActive");
+    // Rounds already spawned run their course.
+    await market.resolvePrediction(1, 0);
+    expect(await market.getPredictionState(1)).to.eq(2);
+  });
+
+  it("pages through series and their rounds", async function () {
+    for (const name of ["First", "Second", "Third"]) {
+      await series.createSeries({ ...WEEKLY_TEMPLATE, name }, ethers.ZeroAddress);
+    }
+    await time.increase(BETTING_DURATION);
+    await series.spawnRound(2);
+    await time.increase(BETTING_DURATION);
+    await series.spawnRound(2);
+
+    const [page, total] = await series.listSeries(1, 5);
+    expect(total).to.eq(3);
+    expect(page.map(({ template }) => template.name)).to.deep.eq(["Second", "Third"]);
+    expect(page[0].roundCount).to.eq(3);
+    expect(page[0].latestRound).to.eq(5);
+    expect((await series.listSeries(3, 5))[0]).to.have.lengthOf(0);
+
+    expect(await series.getSeriesRounds(2, 1, 1)).to.deep.eq([[4n], 3n]);
+    expect(await series.getSeriesRounds(2, 1, 10)).to.deep.eq([[4n, 5n], 3n]);
+    expect((await series.getSeriesRounds(2, 3, 10))[0]).to.have.lengthOf(0);
+    await expect(series.getSeriesRounds(4, 0, 10)).to.be.revertedWithCustomError(series, "InvalidSeries");
+  });
+
+  it("lets the owner cancel a round and spawn its replacement right away", async function () {
+    await series.createSeries(WEEKLY_TEMPLATE, ethers.ZeroAddress);
+
+    await expect(series.connect(signers.alice).cancelRound(1)).to.be.revertedWithCustomError(series, "NotSeriesOwner");
+    await expect(series.cancelRound(2)).to.be.revertedWithCustomError(series, "InvalidSeries");
+    await expect(series.cancelRound(1)).to.emit(market, "PredictionCancelled").withArgs(1);
+
+    await expect(series.connect(signers.alice).spawnRound(1)).to.emit(series, "RoundSpawned").withArgs(1, 2, 2);
+    expect(await market.getPredictionState(1)).to.eq(3);
+
+    // Like any creator, the series can no longer cancel a round once betting on it has closed.
+    await time.increase(BETTING_DURATION);
+    await expect(series.cancelRound(2)).to.be.revertedWithCustomError(market, "BettingClosed");
+  });
+});
+
+describe("series tasks", function () {
+  before(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This test suite only runs inside the FHEVM mock");
+      this.skip();
+    }
+
+    await deployments.run(["FHEPredictionMarket"]);
+  });
+
+  it("creates a series and spawns its rounds once betting has closed", async function () {
+    const series = await ethers.getContractAt("PredictionSeries", (await deployments.get("PredictionSeries")).address);
+
+    await run("task:create-series", {
+      name: "Weekly ship",
+      options: "Yes, No",
+      bettingDuration: "3600",
+      category: "releases",
+      maxPool: "5",
+    });
+    await expect(run("task:spawn-round", { series: "1" })).to.be.rejectedWith("accepts bets until");
+
+    await time.increase(3600);
+    await run("task:spawn-round", { series: "1" });
+    const { template } = await series.getSeries(1);
+    expect(template.options).to.deep.eq(["Yes", "No"]);
+    expect(template.limits.maxPool).to.eq(ethers.parseEther("5"));
+    expect((await series.getSeriesRounds(1, 0, 10))[0]).to.deep.eq([1n, 2n]);
+    await run("task:list-predictions", {});
+    await run("task:list-series", {});
+
+    await run("task:end-series", { series: "1" });
+    await time.increase(3600);
+    await expect(run("task:spawn-round", { series: "1" })).to.be.rejectedWith("has ended");
+  });
+});
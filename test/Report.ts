@@ -0,0 +1,92 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { deployments, ethers, fhevm, run } from "hardhat";
+import { expect } from "chai";
+import { FHEPredictionMarket } from "../types";
+
+const BETTING_DURATION = 86400;
+
+describe("task:report", function () {
+  let market: FHEPredictionMarket;
+  let outputDir: string;
+
+  // Reports only read the market, so every test shares one set of predictions.
+  before(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This test suite only runs inside the FHEVM mock");
+      this.skip();
+    }
+
+    // Deploys afresh rather than reverting to a fixture snapshot, which the mock coprocessor cannot follow back in time.
+    await deployments.run(["FHEPredictionMarket"]);
+    const deployment = await deployments.get("FHEPredictionMarket");
+    market = await ethers.getContractAt("FHEPredictionMarket", deployment.address);
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "report-"));
+
+    // The tasks act as the first signer.
+    await run("task:create-prediction", { name: "Weather", options: "Sunny,Rainy", category: "weather" });
+    await run("task:create-prediction", { name: "Match, final", options: "Home,Draw,Away", category: "sports" });
+    await run("task:create-prediction", { name: "Rates", options: "Up,Down", category: "economics" });
+    await run("task:deposit", { eth: "2" });
+    await run("task:place-bet", { prediction: "1", choice: "1", eth: "0.3" });
+    await run("task:place-bet", { prediction: "2", choice: "0", eth: "0.25" });
+    await run("task:place-bet", { prediction: "2", choice: "2", eth: "0.75" });
+    await run("task:place-bet", { prediction: "3", choice: "0", eth: "0.4" });
+    await time.increase(BETTING_DURATION);
+    await market.revealTotals(1);
+    await market.revealTotals(2);
+  });
+
+  after(function () {
+    if (outputDir) {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  async function report(args: Record<string, string>) {
+    const out = path.join(outputDir, `report.${args.format}`);
+    await run("task:report", { ...args, out });
+    return fs.readFileSync(out, "utf8");
+  }
+
+  it("exports the revealed totals of every prediction with implied odds as JSON", async function () {
+    const entries = JSON.parse(await report({ format: "json" }));
+
+    expect(entries.map((entry: { id: number }) => entry.id)).to.deep.eq([1, 2, 3]);
+    expect(entries[1]).to.include({ name: "Match, final", state: "Closed", category: "sports", bettors: 1 });
+    expect(entries[1].pool).to.eq(ethers.parseEther("1").toString());
+    expect(entries[1].options).to.deep.eq([
+      { option: 0, label: "Home", total: ethers.parseEther("0.25").toString(), probability: 0.25, odds: 4 },
+      { option: 1, label: "Draw", total: "0", probability: 0, odds: null },
+      { option: 2, label: "Away", total: ethers.parseEther("0.75").toString(), probability: 0.75, odds: 1.333333333 },
+    ]);
+    // Totals that were never revealed stay encrypted.
+    expect(entries[2].pool).to.eq(null);
+    expect(entries[2].options[0]).to.include({ total: null, probability: null });
+  });
+
+  it("filters a range of predictions and exports one CSV row per option", async function () {
+    const lines = (await report({ format: "csv", from: "2", to: "3" })).trim().split("\n");
+
+    expect(lines[0]).to.eq(
+      "prediction,name,state,category,collateral,bettors,feeBps,pool,option,label,total,probability,odds",
+    );
+    expect(lines).to.have.lengthOf(6);
+    expect(lines[1]).to.eq(
+      `2,"Match, final",Closed,sports,native,1,0,${ethers.parseEther("1")},0,Home,${ethers.parseEther("0.25")},0.25,4`,
+    );
+    expect(lines[5]).to.eq("3,Rates,Closed,economics,native,1,0,,1,Down,,,");
+
+    const weather = JSON.parse(await report({ format: "json", category: "weather" }));
+    expect(weather.map((entry: { name: string }) => entry.name)).to.deep.eq(["Weather"]);
+    expect(JSON.parse(await report({ format: "json", state: "open" }))).to.deep.eq([]);
+  });
+
+  it("rejects unknown formats and invalid ranges", async function () {
+    await expect(run("task:report", { format: "xml" })).to.be.rejectedWith("Format must be one of");
+    await expect(run("task:report", { from: "3", to: "2" })).to.be.rejectedWith("--from at least 1");
+    await expect(run("task:report", { out: path.join(outputDir, "report.txt") })).to.be.rejectedWith("--format json");
+  });
+});
@@ -0,0 +1,325 @@
+import { useState } from 'react';
+import { useAccount } from 'wagmi';
+import { isAddress, ZeroAddress } from 'ethers';
+import type { ContractTransactionResponse } from 'ethers';
+import type { FHEPredictionMarket } from '../../../types';
+import type { MarketAdminState } from '../hooks/useMarketAdmin';
+import { usePredictionMarketClient } from '../hooks/usePredictionMarketClient';
+import '../styles/CreatePredictionForm.css';
+import '../styles/AdminPanel.css';
+
+type Props = {
+  state: MarketAdminState;
+  onChanged: () => void;
+};
+
+// Mirrors `MAX_PROTOCOL_FEE_BPS` in the contract.
+const MAX_PROTOCOL_FEE_PERCENT = 5;
+
+const sameAddress = (a: string | undefined, b: string) => a !== undefined && a.toLowerCase() === b.toLowerCase();
+
+export function AdminPanel({ state, onChanged }: Props) {
+  const { address } = useAccount();
+  // Admin actions encrypt nothing, so the client does not need an FHEVM instance.
+  const getClient = usePredictionMarketClient(null);
+
+  const [predictionId, setPredictionId] = useState('');
+  const [protocolFee, setProtocolFee] = useState(() => (state.protocolFeeBps / 100).toString());
+  const [feeRecipient, setFeeRecipient] = useState('');
+  const [adminAccount, setAdminAccount] = useState('');
+  const [newOwner, setNewOwner] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const isOwner = sameAddress(address, state.owner);
+  const isPendingOwner = state.pendingOwner !== ZeroAddress && sameAddress(address, state.pendingOwner);
+
+  // Sends one admin transaction, then re-reads the market settings.
+  const run = async (label: string, send: (contract: FHEPredictionMarket) => Promise<ContractTransactionResponse>) => {
+    setStatusMessage(null);
+    setErrorMessage(null);
+    setIsSubmitting(true);
+    try {
+      const { contract } = await getClient(setStatusMessage);
+      setStatusMessage(`${label}...`);
+      const tx = await send(contract);
+      await tx.wait();
+      setStatusMessage(`${label}: done.`);
+      onChanged();
+    } catch (error) {
+      console.error(`${label} failed`, error);
+      setErrorMessage(error instanceof Error ? error.message : `${label} failed.`);
+    } finally {
+      setIsSubmitting(false);
+      setTimeout(() => setStatusMessage(null), 4000);
+    }
+  };
+
+  const parsePredictionId = () => {
+    if (!/^\d+$/.test(predictionId.trim())) {
+      setErrorMessage('Enter a prediction id.');
+      return null;
+    }
+    return BigInt(predictionId.trim());
+  };
+
+  const handleHide = (hidden: boolean) => {
+    const id = parsePredictionId();
+    if (id !== null) {
+      run(hidden ? `Hiding prediction #${id}` : `Showing prediction #${id}`, (contract) =>
+        contract.setPredictionHidden(id, hidden),
+      );
+    }
+  };
+
+  const handleCancel = () => {
+    const id = parsePredictionId();
+    if (id !== null) {
+      run(`Cancelling prediction #${id}`, (contract) => contract.adminCancelPrediction(id));
+    }
+  };
+
+  const handleProtocolFee = () => {
+    const percent = Number(protocolFee.trim() || '0');
+    if (Number.isNaN(percent) || percent < 0 || percent > MAX_PROTOCOL_FEE_PERCENT) {
+      setErrorMessage(`Protocol fee must be between 0 and ${MAX_PROTOCOL_FEE_PERCENT}%.`);
+      return;
+    }
+    run('Updating the protocol fee', (contract) => contract.setProtocolFee(Math.round(percent * 100)));
+  };
+
+  const handleAddress = (value: string, label: string, send: Parameters<typeof run>[1]) => {
+    if (!isAddress(value.trim()) || value.trim() === ZeroAddress) {
+      setErrorMessage('Enter a valid address.');
+      return;
+    }
+    run(label, send);
+  };
+
+  return (
+    <section className="card">
+      <header className="card-header">
+        <div>
+          <p className="card-eyebrow">Admin</p>
+          <h2 className="card-title">Market controls</h2>
+          <p className="card-description">
+            Pause the market, moderate predictions and manage fees. Hiding a prediction only takes it off the public
+            listings, cancel it as well to let its bettors claim refunds.
+          </p>
+        </div>
+      </header>
+
+      <dl className="admin-status">
+        <div>
+          <dt>Owner</dt>
+          <dd>
+            <code>{state.owner}</code>
+          </dd>
+        </div>
+        {state.pendingOwner !== ZeroAddress && (
+          <div>
+            <dt>Pending owner</dt>
+            <dd>
+              <code>{state.pendingOwner}</code>
+            </dd>
+          </div>
+        )}
+        <div>
+          <dt>Status</dt>
+          <dd>{state.paused ? 'Paused' : 'Active'}</dd>
+        </div>
+        <div>
+          <dt>Protocol fee</dt>
+          <dd>
+            {state.protocolFeeBps / 100}% to <code>{state.feeRecipient}</code>
+          </dd>
+        </div>
+      </dl>
+
+      <div className="admin-sections">
+        {state.isAdmin && (
+          <>
+            <div className="admin-section">
+              <h3>Emergency stop</h3>
+              <p className="muted-text">Pausing blocks new predictions and bets. Claims and refunds keep working.</p>
+              <button
+                type="button"
+                className={state.paused ? 'primary-button' : 'ghost-button danger'}
+                disabled={isSubmitting}
+                onClick={() =>
+                  state.paused
+                    ? run('Unpausing the market', (contract) => contract.unpause())
+                    : run('Pausing the market', (contract) => contract.pause())
+                }
+              >
+                {state.paused ? 'Unpause market' : 'Pause market'}
+              </button>
+            </div>
+
+            <div className="admin-section">
+              <h3>Moderation</h3>
+              <input
+                className="text-input"
+                placeholder="Prediction id"
+                value={predictionId}
+                onChange={(event) => setPredictionId(event.target.value)}
+              />
+              <div className="admin-actions">
+                <button
+                  type="button"
+                  className="ghost-button danger"
+                  disabled={isSubmitting}
+                  onClick={() => handleHide(true)}
+                >
+                  Hide
+                </button>
+                <button type="button" className="ghost-button" disabled={isSubmitting} onClick={() => handleHide(false)}>
+                  Show
+                </button>
+                <button type="button" className="ghost-button danger" disabled={isSubmitting} onClick={handleCancel}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+
+            <div className="admin-section">
+              <h3>Protocol fee</h3>
+              <input
+                className="text-input"
+                type="number"
+                min="0"
+                max={MAX_PROTOCOL_FEE_PERCENT}
+                step="0.01"
+                value={protocolFee}
+                onChange={(event) => setProtocolFee(event.target.value)}
+              />
+              <button type="button" className="primary-button" disabled={isSubmitting} onClick={handleProtocolFee}>
+                Set fee (%)
+              </button>
+            </div>
+          </>
+        )}
+
+        {isOwner && (
+          <>
+            <div className="admin-section">
+              <h3>Fee recipient</h3>
+              <input
+                className="text-input"
+                placeholder="0x..."
+                value={feeRecipient}
+                onChange={(event) => setFeeRecipient(event.target.value)}
+              />
+              <button
+                type="button"
+                className="primary-button"
+                disabled={isSubmitting}
+                onClick={() =>
+                  handleAddress(feeRecipient, 'Updating the fee recipient', (contract) =>
+                    contract.setFeeRecipient(feeRecipient.trim()),
+                  )
+                }
+              >
+                Set recipient
+              </button>
+            </div>
+
+            <div className="admin-section">
+              <h3>Admins</h3>
+              <input
+                className="text-input"
+                placeholder="0x..."
+                value={adminAccount}
+                onChange={(event) => setAdminAccount(event.target.value)}
+              />
+              <div className="admin-actions">
+                <button
+                  type="button"
+                  className="primary-button"
+                  disabled={isSubmitting}
+                  onClick={() =>
+                    handleAddress(adminAccount, 'Granting the admin role', (contract) =>
+                      contract.setAdmin(adminAccount.trim(), true),
+                    )
+                  }
+                >
+                  Grant
+                </button>
+                <button
+                  type="button"
+                  className="ghost-button danger"
+                  disabled={isSubmitting}
+                  onClick={() =>
+                    handleAddress(adminAccount, 'Revoking the admin role', (contract) =>
+                      contract.setAdmin(adminAccount.trim(), false),
+                    )
+                  }
+                >
+                  Revoke
+                </button>
+              </div>
+            </div>
+
+            <div className="admin-section">
+              <h3>Ownership</h3>
+              <p className="muted-text">The new owner has to accept the transfer from their own wallet.</p>
+              <input
+                className="text-input"
+                placeholder="0x..."
+                value={newOwner}
+                onChange={(event) => setNewOwner(event.target.value)}
+              />
+              <div className="admin-actions">
+                <button
+                  type="button"
+                  className="ghost-button danger"
+                  disabled={isSubmitting}
+                  onClick={() =>
+                    handleAddress(newOwner, 'Starting the ownership transfer', (contract) =>
+                      contract.transferOwnership(newOwner.trim()),
+                    )
+                  }
+                >
+                  Transfer
+                </button>
+                {state.pendingOwner !== ZeroAddress && (
+                  <button
+                    type="button"
+                    className="ghost-button"
+                    disabled={isSubmitting}
+                    onClick={() =>
+                      run('Cancelling the ownership transfer', (contract) => contract.transferOwnership(ZeroAddress))
+                    }
+                  >
+                    Cancel transfer
+                  </button>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+
+        {isPendingOwner && (
+          <div className="admin-section">
+            <h3>Ownership</h3>
+            <p className="muted-text">You have been offered the ownership of this market.</p>
+            <button
+              type="button"
+              className="primary-button"
+              disabled={isSubmitting}
+              onClick={() => run('Accepting the ownership', (contract) => contract.acceptOwnership())}
+            >
+              Accept ownership
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="form-messages">
+        {statusMessage && <p className="status-message">{statusMessage}</p>}
+        {errorMessage && <p className="error-message">{errorMessage}</p>}
+      </div>
+    </section>
+  );
+}
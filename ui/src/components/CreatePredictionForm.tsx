@@ -1,8 +1,13 @@
 import { useState } from 'react';
 import { useAccount } from 'wagmi';
-import { Contract, isAddress, JsonRpcSigner } from 'ethers';
+import { Contract, isAddress, parseEther, ZeroAddress } from 'ethers';
 import { useEthersSigner } from '../hooks/useEthersSigner';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+import { useContractAddress, useSeriesAddress } from '../hooks/useContractAddress';
+import { usePredictionMarketClient } from '../hooks/usePredictionMarketClient';
+import { SERIES_ABI } from '../config/contracts';
+import { COLLATERAL_LABELS, COLLATERAL_NATIVE } from '../config/tokens';
+import { MARKET_CATEGORIES } from '../config/categories';
+import { scalarBuckets } from '../../../sdk';
 import '../styles/CreatePredictionForm.css';
 
 type Props = {
@@ -10,14 +15,96 @@ type Props = {
 };
 
 const MIN_OPTIONS = 2;
-const MAX_OPTIONS = 4;
+// Mirrors `MAX_OPTIONS` in the contract: every option adds FHE operations to each bet.
+const MAX_OPTIONS = 16;
+const DEFAULT_BUCKETS = 4;
+const DEFAULT_BETTING_DAYS = 1;
+const DEFAULT_RESOLUTION_DAYS = 7;
+// Mirrors `MAX_CREATOR_FEE_BPS` in the contract.
+const MAX_CREATOR_FEE_PERCENT = 5;
+// Mirror the `MAX_*_LENGTH` constants of the contract, which count bytes of UTF-8.
+const DETAIL_LIMITS = { description: 1000, category: 32, resolutionCriteria: 1000, source: 256 };
+const DETAIL_LABELS = {
+  description: 'Description',
+  category: 'Category',
+  resolutionCriteria: 'Resolution criteria',
+  source: 'Source',
+};
+
+const byteLength = (value: string) => new TextEncoder().encode(value).length;
+
+const EMPTY_LIMITS = { minBet: '', maxBet: '', maxPool: '' };
+const LIMIT_LABELS = { minBet: 'Minimum bet', maxBet: 'Maximum bet', maxPool: 'Pool cap' };
+const LIMIT_FIELDS = Object.keys(LIMIT_LABELS) as (keyof typeof LIMIT_LABELS)[];
+// Limits are stored as `uint64`, like every stake.
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+// A bet limit in wei or token units, zero when left empty and null when invalid.
+const parseLimit = (value: string, isNative: boolean): bigint | null => {
+  const trimmed = value.trim();
+  let amount: bigint;
+  try {
+    amount = !trimmed ? 0n : isNative ? parseEther(trimmed) : /^\d+$/.test(trimmed) ? BigInt(trimmed) : -1n;
+  } catch {
+    return null;
+  }
+  return amount >= 0n && amount <= MAX_UINT64 ? amount : null;
+};
+
+const toDateTimeInput = (date: Date) => {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const daysFromNow = (days: number) => toDateTimeInput(new Date(Date.now() + days * 24 * 60 * 60 * 1000));
+
+const INTEGER_PATTERN = /^-?\d+$/;
+
+// Bucket labels of a scalar range, or null while the range is incomplete or too narrow.
+const previewBuckets = (lowerBound: string, upperBound: string, bucketCount: string) => {
+  const count = Number(bucketCount);
+  if (
+    !INTEGER_PATTERN.test(lowerBound.trim()) ||
+    !INTEGER_PATTERN.test(upperBound.trim()) ||
+    !Number.isInteger(count) ||
+    count < MIN_OPTIONS ||
+    count > MAX_OPTIONS
+  ) {
+    return null;
+  }
+  try {
+    return scalarBuckets(BigInt(lowerBound.trim()), BigInt(upperBound.trim()), count).map(({ label }) => label);
+  } catch {
+    return null;
+  }
+};
 
 export function CreatePredictionForm({ onCreated }: Props) {
   const { address } = useAccount();
   const signerPromise = useEthersSigner();
+  const contractAddress = useContractAddress();
+  const seriesAddress = useSeriesAddress();
+  // Creating a prediction encrypts nothing, so the client does not need an FHEVM instance.
+  const getClient = usePredictionMarketClient(null);
 
   const [title, setTitle] = useState('');
+  const [details, setDetails] = useState({ description: '', category: '', resolutionCriteria: '', source: '' });
+  const [isScalar, setIsScalar] = useState(false);
   const [options, setOptions] = useState<string[]>(Array(MIN_OPTIONS).fill(''));
+  const [lowerBound, setLowerBound] = useState('');
+  const [upperBound, setUpperBound] = useState('');
+  const [bucketCount, setBucketCount] = useState(String(DEFAULT_BUCKETS));
+  const [bettingClosesAt, setBettingClosesAt] = useState(() => daysFromNow(DEFAULT_BETTING_DAYS));
+  const [resolutionDeadline, setResolutionDeadline] = useState(() =>
+    daysFromNow(DEFAULT_BETTING_DAYS + DEFAULT_RESOLUTION_DAYS),
+  );
+  const [resolver, setResolver] = useState('');
+  const [collateralType, setCollateralType] = useState(COLLATERAL_NATIVE);
+  const [collateralToken, setCollateralToken] = useState('');
+  const [creatorFee, setCreatorFee] = useState('0');
+  const [limits, setLimits] = useState(EMPTY_LIMITS);
+  const [isSeries, setIsSeries] = useState(false);
+  const [keeper, setKeeper] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -42,7 +129,21 @@ export function CreatePredictionForm({ onCreated }: Props) {
 
   const resetForm = () => {
     setTitle('');
+    setDetails({ description: '', category: '', resolutionCriteria: '', source: '' });
+    setIsScalar(false);
     setOptions(Array(MIN_OPTIONS).fill(''));
+    setLowerBound('');
+    setUpperBound('');
+    setBucketCount(String(DEFAULT_BUCKETS));
+    setBettingClosesAt(daysFromNow(DEFAULT_BETTING_DAYS));
+    setResolutionDeadline(daysFromNow(DEFAULT_BETTING_DAYS + DEFAULT_RESOLUTION_DAYS));
+    setResolver('');
+    setCollateralType(COLLATERAL_NATIVE);
+    setCollateralToken('');
+    setCreatorFee('0');
+    setLimits(EMPTY_LIMITS);
+    setIsSeries(false);
+    setKeeper('');
   };
 
   const handleSubmit = async (event: React.FormEvent) => {
@@ -55,9 +156,17 @@ export function CreatePredictionForm({ onCreated }: Props) {
       return;
     }
 
-    const trimmedOptions = options.map((option) => option.trim()).filter((option) => option.length > 0);
+    const buckets = isScalar ? previewBuckets(lowerBound, upperBound, bucketCount) : null;
+    if (isScalar && !buckets) {
+      setErrorMessage(
+        `Enter whole-number bounds and between ${MIN_OPTIONS} and ${MAX_OPTIONS} buckets, each at least one unit wide.`,
+      );
+      return;
+    }
+
+    const trimmedOptions = buckets ?? options.map((option) => option.trim()).filter((option) => option.length > 0);
     if (trimmedOptions.length < MIN_OPTIONS || trimmedOptions.length > MAX_OPTIONS) {
-      setErrorMessage('Enter between 2 and 4 option labels.');
+      setErrorMessage(`Enter between ${MIN_OPTIONS} and ${MAX_OPTIONS} option labels.`);
       return;
     }
 
@@ -66,24 +175,134 @@ export function CreatePredictionForm({ onCreated }: Props) {
       return;
     }
 
-    if (!isAddress(CONTRACT_ADDRESS)) {
-      setErrorMessage('Contract address is not set. Deploy the contract before using the app.');
+    const trimmedDetails = {
+      description: details.description.trim(),
+      category: details.category.trim(),
+      resolutionCriteria: details.resolutionCriteria.trim(),
+      source: details.source.trim(),
+    };
+    const tooLong = (Object.keys(DETAIL_LIMITS) as (keyof typeof DETAIL_LIMITS)[]).find(
+      (field) => byteLength(trimmedDetails[field]) > DETAIL_LIMITS[field],
+    );
+    if (tooLong) {
+      setErrorMessage(`${DETAIL_LABELS[tooLong]} must be at most ${DETAIL_LIMITS[tooLong]} bytes.`);
+      return;
+    }
+
+    const closesAtSeconds = Math.floor(new Date(bettingClosesAt).getTime() / 1000);
+    const deadlineSeconds = Math.floor(new Date(resolutionDeadline).getTime() / 1000);
+    if (Number.isNaN(closesAtSeconds) || closesAtSeconds <= Math.floor(Date.now() / 1000)) {
+      setErrorMessage('Betting close time must be in the future.');
+      return;
+    }
+    if (Number.isNaN(deadlineSeconds) || deadlineSeconds < closesAtSeconds) {
+      setErrorMessage('Resolution deadline must be after betting closes.');
+      return;
+    }
+
+    const resolverAddress = resolver.trim() || ZeroAddress;
+    if (!isAddress(resolverAddress)) {
+      setErrorMessage('Resolver must be a valid address, or left empty to resolve it yourself.');
       return;
     }
 
+    const tokenAddress = collateralType === COLLATERAL_NATIVE ? ZeroAddress : collateralToken.trim();
+    if (!isAddress(tokenAddress) || (collateralType !== COLLATERAL_NATIVE && tokenAddress === ZeroAddress)) {
+      setErrorMessage('Enter the collateral token address.');
+      return;
+    }
+
+    const creatorFeePercent = Number(creatorFee.trim() || '0');
+    if (Number.isNaN(creatorFeePercent) || creatorFeePercent < 0 || creatorFeePercent > MAX_CREATOR_FEE_PERCENT) {
+      setErrorMessage(`Creator fee must be between 0 and ${MAX_CREATOR_FEE_PERCENT}%.`);
+      return;
+    }
+
+    const isNative = collateralType === COLLATERAL_NATIVE;
+    const parsedLimits = LIMIT_FIELDS.map((field) => parseLimit(limits[field], isNative));
+    const invalidLimit = parsedLimits.indexOf(null);
+    if (invalidLimit >= 0) {
+      const expected = isNative ? 'an ETH amount' : 'a whole number of token units';
+      setErrorMessage(`${LIMIT_LABELS[LIMIT_FIELDS[invalidLimit]]} must be ${expected}.`);
+      return;
+    }
+    const [minBet, maxBet, maxPool] = parsedLimits as bigint[];
+    if ((maxBet !== 0n && minBet > maxBet) || (maxPool !== 0n && minBet > maxPool)) {
+      setErrorMessage('Minimum bet must not exceed the maximum bet or the pool cap.');
+      return;
+    }
+
+    if (contractAddress === ZeroAddress) {
+      setErrorMessage('No contract is deployed on this network. Switch to Sepolia or a local Hardhat node.');
+      return;
+    }
+
+    const keeperAddress = keeper.trim() || ZeroAddress;
+    if (isSeries) {
+      if (seriesAddress === ZeroAddress) {
+        setErrorMessage('Series are not available on this network.');
+        return;
+      }
+      if (isScalar || creatorFeePercent !== 0) {
+        setErrorMessage('Series repeat categorical markets without a creator fee.');
+        return;
+      }
+      if (!isAddress(keeperAddress)) {
+        setErrorMessage('Keeper must be a valid address, or left empty to let anyone spawn rounds.');
+        return;
+      }
+    }
+
     setIsSubmitting(true);
     setStatusMessage('Preparing transaction...');
     try {
-      const signer: JsonRpcSigner | undefined = await signerPromise;
-      if (!signer) {
-        throw new Error('Unable to locate wallet signer.');
+      if (isSeries) {
+        // Every round runs for as long as the first one, measured from the moment it is spawned.
+        const nowSeconds = Math.floor(Date.now() / 1000);
+        const contract = new Contract(seriesAddress, SERIES_ABI, await signerPromise);
+        const tx = await contract.createSeries(
+          {
+            name: title.trim(),
+            options: trimmedOptions,
+            resolver: resolverAddress,
+            collateralType,
+            collateralToken: tokenAddress,
+            bettingDuration: closesAtSeconds - nowSeconds,
+            resolutionWindow: deadlineSeconds - closesAtSeconds,
+            details: trimmedDetails,
+            limits: { minBet, maxBet, maxPool },
+          },
+          keeperAddress,
+        );
+        setStatusMessage('Waiting for confirmation...');
+        await tx.wait();
+
+        setStatusMessage('Series created, its first round is open for bets.');
+        resetForm();
+        onCreated?.();
+        return;
       }
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.createPrediction(title.trim(), trimmedOptions);
-      setStatusMessage('Waiting for confirmation...');
-      await tx.wait();
 
-      setStatusMessage('Prediction created successfully.');
+      const client = await getClient(setStatusMessage);
+      const { predictionId } = await client.createPrediction({
+        name: title.trim(),
+        options: trimmedOptions,
+        bettingClosesAt: closesAtSeconds,
+        resolutionDeadline: deadlineSeconds,
+        resolver: resolverAddress,
+        collateralType,
+        collateralToken: tokenAddress,
+        creatorFeeBps: Math.round(creatorFeePercent * 100),
+        scalarRange: isScalar
+          ? { lowerBound: BigInt(lowerBound.trim()), upperBound: BigInt(upperBound.trim()) }
+          : undefined,
+        ...trimmedDetails,
+        minBet,
+        maxBet,
+        maxPool,
+      });
+
+      setStatusMessage(`Prediction #${predictionId} created successfully.`);
       resetForm();
       onCreated?.();
     } catch (error) {
@@ -102,7 +321,8 @@ export function CreatePredictionForm({ onCreated }: Props) {
           <p className="card-eyebrow">Create</p>
           <h2 className="card-title">Launch a confidential prediction market</h2>
           <p className="card-description">
-            Define a prediction question and up to four outcomes. Encrypted pools are initialized automatically.
+            Define a prediction question with up to {MAX_OPTIONS} outcomes, or a numeric range bettors pick a bucket of.
+            Encrypted pools are initialized automatically.
           </p>
         </div>
       </header>
@@ -117,39 +337,272 @@ export function CreatePredictionForm({ onCreated }: Props) {
           />
         </label>
 
-        <div className="options-header">
-          <p>Prediction Outcomes</p>
-          <button
-            type="button"
-            className="ghost-button"
-            onClick={addOption}
-            disabled={options.length >= MAX_OPTIONS}
-          >
-            + Add option
-          </button>
+        <label className="form-label">
+          Description (optional)
+          <textarea
+            className="text-input"
+            rows={3}
+            maxLength={DETAIL_LIMITS.description}
+            placeholder="Context bettors need to understand the question."
+            value={details.description}
+            onChange={(event) => setDetails({ ...details, description: event.target.value })}
+          />
+        </label>
+
+        <div className="schedule-grid">
+          <label className="form-label">
+            Category (optional)
+            <input
+              className="text-input"
+              list="prediction-categories"
+              maxLength={DETAIL_LIMITS.category}
+              placeholder="sports"
+              value={details.category}
+              onChange={(event) => setDetails({ ...details, category: event.target.value })}
+            />
+            <datalist id="prediction-categories">
+              {MARKET_CATEGORIES.map((category) => (
+                <option key={category} value={category} />
+              ))}
+            </datalist>
+          </label>
+          <label className="form-label">
+            Source (optional)
+            <input
+              className="text-input"
+              maxLength={DETAIL_LIMITS.source}
+              placeholder="https://... or ipfs://..."
+              value={details.source}
+              onChange={(event) => setDetails({ ...details, source: event.target.value })}
+            />
+          </label>
+        </div>
+
+        <label className="form-label">
+          Resolution criteria (optional)
+          <textarea
+            className="text-input"
+            rows={2}
+            maxLength={DETAIL_LIMITS.resolutionCriteria}
+            placeholder="Resolves to the official final score published on the source above."
+            value={details.resolutionCriteria}
+            onChange={(event) => setDetails({ ...details, resolutionCriteria: event.target.value })}
+          />
+          <span className="form-hint">Tell bettors exactly what decides the outcome, and when it is read.</span>
+        </label>
+
+        <div className="schedule-grid">
+          <label className="form-label">
+            Betting closes
+            <input
+              className="text-input"
+              type="datetime-local"
+              value={bettingClosesAt}
+              onChange={(event) => setBettingClosesAt(event.target.value)}
+            />
+          </label>
+          <label className="form-label">
+            Resolution deadline
+            <input
+              className="text-input"
+              type="datetime-local"
+              value={resolutionDeadline}
+              onChange={(event) => setResolutionDeadline(event.target.value)}
+            />
+          </label>
         </div>
 
-        <div className="options-grid">
-          {options.map((option, index) => (
-            <div className="option-row" key={`option-${index}`}>
+        <label className="form-label">
+          Resolver (optional)
+          <input
+            className="text-input"
+            placeholder={address ?? '0x... wallet, multisig or oracle contract'}
+            value={resolver}
+            onChange={(event) => setResolver(event.target.value)}
+          />
+          <span className="form-hint">Leave empty to resolve the outcome yourself.</span>
+        </label>
+
+        <div className="schedule-grid">
+          <label className="form-label">
+            Collateral
+            <select
+              className="text-input"
+              value={collateralType}
+              onChange={(event) => setCollateralType(Number(event.target.value))}
+            >
+              {COLLATERAL_LABELS.map((label, index) => (
+                <option key={label} value={index}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {collateralType !== COLLATERAL_NATIVE && (
+            <label className="form-label">
+              Token address
               <input
                 className="text-input"
-                placeholder={`Option ${index + 1}`}
-                value={option}
-                onChange={(event) => handleOptionChange(index, event.target.value)}
+                placeholder="0x..."
+                value={collateralToken}
+                onChange={(event) => setCollateralToken(event.target.value)}
               />
-              {options.length > MIN_OPTIONS && (
-                <button type="button" className="ghost-button danger" onClick={() => removeOption(index)}>
-                  Remove
-                </button>
-              )}
-            </div>
+            </label>
+          )}
+        </div>
+
+        <label className="form-label">
+          Creator fee (%)
+          <input
+            className="text-input"
+            inputMode="decimal"
+            value={creatorFee}
+            onChange={(event) => setCreatorFee(event.target.value)}
+          />
+          <span className="form-hint">
+            Taken from the pool when the market resolves, on top of the protocol fee. Up to {MAX_CREATOR_FEE_PERCENT}%.
+          </span>
+        </label>
+
+        <div className="schedule-grid">
+          {LIMIT_FIELDS.map((field) => (
+            <label key={field} className="form-label">
+              {LIMIT_LABELS[field]} ({collateralType === COLLATERAL_NATIVE ? 'ETH' : 'token units'})
+              <input
+                className="text-input"
+                inputMode="decimal"
+                placeholder="No limit"
+                value={limits[field]}
+                onChange={(event) => setLimits({ ...limits, [field]: event.target.value })}
+              />
+            </label>
           ))}
         </div>
+        <p className="form-hint">
+          Public stakes outside the limits are rejected. Encrypted stakes outside them, or over the pool cap, count as
+          zero so the amount never leaks.
+        </p>
+
+        <div className="schedule-grid">
+          <label className="form-label">
+            Schedule
+            <select
+              className="text-input"
+              value={isSeries ? 'series' : 'once'}
+              onChange={(event) => setIsSeries(event.target.value === 'series')}
+            >
+              <option value="once">One-off market</option>
+              <option value="series">Recurring series: spawn a new round after each one closes</option>
+            </select>
+          </label>
+          {isSeries && (
+            <label className="form-label">
+              Keeper (optional)
+              <input
+                className="text-input"
+                placeholder="Anyone can spawn rounds"
+                value={keeper}
+                onChange={(event) => setKeeper(event.target.value)}
+              />
+            </label>
+          )}
+        </div>
+        {isSeries && (
+          <p className="form-hint">
+            Every round copies this template and accepts bets for as long as the first one. Rounds never charge a
+            creator fee.
+          </p>
+        )}
+
+        <label className="form-label">
+          Market type
+          <select
+            className="text-input"
+            value={isScalar ? 'scalar' : 'categorical'}
+            onChange={(event) => setIsScalar(event.target.value === 'scalar')}
+          >
+            <option value="categorical">Categorical: pick an outcome</option>
+            <option value="scalar">Scalar: pick the range a value falls in</option>
+          </select>
+        </label>
+
+        {isScalar ? (
+          <>
+            <div className="schedule-grid">
+              <label className="form-label">
+                Lower bound
+                <input
+                  className="text-input"
+                  inputMode="numeric"
+                  placeholder="0"
+                  value={lowerBound}
+                  onChange={(event) => setLowerBound(event.target.value)}
+                />
+              </label>
+              <label className="form-label">
+                Upper bound
+                <input
+                  className="text-input"
+                  inputMode="numeric"
+                  placeholder="100"
+                  value={upperBound}
+                  onChange={(event) => setUpperBound(event.target.value)}
+                />
+              </label>
+              <label className="form-label">
+                Buckets
+                <input
+                  className="text-input"
+                  type="number"
+                  min={MIN_OPTIONS}
+                  max={MAX_OPTIONS}
+                  value={bucketCount}
+                  onChange={(event) => setBucketCount(event.target.value)}
+                />
+              </label>
+            </div>
+            <p className="form-hint">
+              {previewBuckets(lowerBound, upperBound, bucketCount)?.join(' • ') ??
+                'The range is split into equal buckets. Values outside it count for the first or last bucket.'}
+            </p>
+          </>
+        ) : (
+          <>
+            <div className="options-header">
+              <p>Prediction Outcomes</p>
+              <button
+                type="button"
+                className="ghost-button"
+                onClick={addOption}
+                disabled={options.length >= MAX_OPTIONS}
+              >
+                + Add option
+              </button>
+            </div>
+
+            <div className="options-grid">
+              {options.map((option, index) => (
+                <div className="option-row" key={`option-${index}`}>
+                  <input
+                    className="text-input"
+                    placeholder={`Option ${index + 1}`}
+                    value={option}
+                    onChange={(event) => handleOptionChange(index, event.target.value)}
+                  />
+                  {options.length > MIN_OPTIONS && (
+                    <button type="button" className="ghost-button danger" onClick={() => removeOption(index)}>
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
 
         <div className="form-footer">
           <button type="submit" className="primary-button" disabled={isSubmitting}>
-            {isSubmitting ? 'Creating...' : 'Create Prediction'}
+            {isSubmitting ? 'Creating...' : isSeries ? 'Create Series' : 'Create Prediction'}
           </button>
           <div className="form-messages">
             {statusMessage && <p className="status-message">{statusMessage}</p>}
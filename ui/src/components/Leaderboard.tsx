@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { useAccount } from 'wagmi';
+import { formatEther } from 'ethers';
+import type { ClearScore } from '../../../sdk';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { usePredictionMarketClient } from '../hooks/usePredictionMarketClient';
+import '../styles/CreatePredictionForm.css';
+import '../styles/Leaderboard.css';
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+const formatProfit = (profit: bigint) => `${profit > 0n ? '+' : ''}${formatEther(profit)} ETH`;
+
+export function Leaderboard() {
+  const { address } = useAccount();
+  const { instance, isLoading: zamaLoading } = useZamaInstance();
+  const decryptionSession = useDecryptionSession(instance);
+  const getClient = usePredictionMarketClient(instance, decryptionSession);
+
+  const [scores, setScores] = useState<ClearScore[] | null>(null);
+  // Undefined until decrypted, null when the wallet has no claimed bet yet.
+  const [myScore, setMyScore] = useState<ClearScore | null | undefined>(undefined);
+  const [myScoreRevealed, setMyScoreRevealed] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setStatusMessage(null);
+    setErrorMessage(null);
+    setIsBusy(true);
+    try {
+      await action();
+      setStatusMessage(null);
+    } catch (error) {
+      console.error(`${label} failed`, error);
+      setErrorMessage(error instanceof Error ? error.message : `${label} failed.`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const loadLeaderboard = () =>
+    run('Loading the leaderboard', async () => {
+      const client = await getClient(setStatusMessage);
+      setScores(await client.decryptLeaderboard());
+    });
+
+  const decryptMyScore = () =>
+    run('Decrypting your score', async () => {
+      const client = await getClient(setStatusMessage);
+      const score = await client.decryptMyScore();
+      setMyScore(score);
+      setMyScoreRevealed(score !== null && (await client.contract.getScore(score.user)).revealed);
+    });
+
+  const revealMyScore = () =>
+    run('Revealing your score', async () => {
+      const client = await getClient(setStatusMessage);
+      setStatusMessage('Revealing your score...');
+      await (await client.contract.revealScore()).wait();
+      setMyScoreRevealed(true);
+      setScores(await client.decryptLeaderboard());
+    });
+
+  const isMe = (user: string) => address !== undefined && user.toLowerCase() === address.toLowerCase();
+
+  return (
+    <section className="card">
+      <header className="card-header">
+        <div>
+          <p className="card-eyebrow">Leaderboard</p>
+          <h2 className="card-title">Top predictors</h2>
+          <p className="card-description">
+            Every claim on an ETH market adds your stake and payout to an encrypted score that only you can decrypt.
+            Reveal it to make it public and appear on the leaderboard.
+          </p>
+        </div>
+        <div className="card-actions">
+          <button
+            type="button"
+            className="ghost-button"
+            disabled={isBusy || zamaLoading || !address}
+            onClick={loadLeaderboard}
+          >
+            {scores ? 'Refresh leaderboard' : 'Decrypt leaderboard'}
+          </button>
+        </div>
+      </header>
+
+      <div className="my-score">
+        <div>
+          <h3>Your score</h3>
+          {!address ? (
+            <p className="muted-text">Connect your wallet to see your score.</p>
+          ) : myScore === undefined ? (
+            <p className="muted-text">Your score stays encrypted until you decrypt it.</p>
+          ) : myScore === null ? (
+            <p className="muted-text">Claim a resolved ETH market to start your score.</p>
+          ) : (
+            <p className="muted-text">
+              <strong className={myScore.profit < 0n ? 'score-loss' : 'score-gain'}>
+                {formatProfit(myScore.profit)}
+              </strong>{' '}
+              over {myScore.marketsClaimed.toString()} {myScore.marketsClaimed === 1n ? 'market' : 'markets'} •{' '}
+              {myScoreRevealed ? 'public' : 'private'}
+            </p>
+          )}
+        </div>
+        <div className="my-score-actions">
+          <button
+            type="button"
+            className="ghost-button"
+            disabled={isBusy || zamaLoading || !address}
+            onClick={decryptMyScore}
+          >
+            Decrypt my score
+          </button>
+          {myScore && !myScoreRevealed && (
+            <button type="button" className="primary-button" disabled={isBusy} onClick={revealMyScore}>
+              Reveal my score
+            </button>
+          )}
+        </div>
+      </div>
+      {myScore && !myScoreRevealed && (
+        <p className="muted-text">Revealing cannot be undone: later claims keep updating your public score.</p>
+      )}
+
+      {scores && scores.length === 0 && <p className="muted-text">Nobody has revealed their score yet.</p>}
+      {scores && scores.length > 0 && (
+        <table className="leaderboard-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Bettor</th>
+              <th>Profit</th>
+              <th>Staked</th>
+              <th>Markets</th>
+            </tr>
+          </thead>
+          <tbody>
+            {scores.map((score, index) => (
+              <tr key={score.user} className={isMe(score.user) ? 'is-me' : ''}>
+                <td>{index + 1}</td>
+                <td>
+                  <code>{shortAddress(score.user)}</code>
+                  {isMe(score.user) ? ' (you)' : ''}
+                </td>
+                <td className={score.profit < 0n ? 'score-loss' : 'score-gain'}>{formatProfit(score.profit)}</td>
+                <td>{formatEther(score.staked)} ETH</td>
+                <td>{score.marketsClaimed.toString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="form-messages">
+        {statusMessage && <p className="status-message">{statusMessage}</p>}
+        {errorMessage && <p className="error-message">{errorMessage}</p>}
+      </div>
+    </section>
+  );
+}
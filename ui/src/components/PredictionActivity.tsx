@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAccount, usePublicClient, useWatchContractEvent } from 'wagmi';
+import { CONTRACT_ABI } from '../config/contracts';
+import { useContractAddress, useDeploymentBlock } from '../hooks/useContractAddress';
+import '../styles/PredictionActivity.css';
+
+type Props = {
+  predictionId: bigint;
+  bettorCount: bigint;
+  now: number;
+  onNewBets?: () => void;
+};
+
+type BetActivity = {
+  key: string;
+  bettor: string;
+  blockNumber: bigint;
+  logIndex: number;
+  confidential: boolean;
+};
+
+type BetLog = {
+  args: { user?: `0x${string}`; confidential?: boolean };
+  blockNumber: bigint | null;
+  transactionHash: `0x${string}` | null;
+  logIndex: number | null;
+};
+
+// Only the most recent bets get their block timestamp fetched and are listed.
+const FEED_SIZE = 20;
+// Public RPCs cap the block range of a log query, so the history is fetched in pages of this many blocks.
+const LOG_PAGE_BLOCKS = 10_000n;
+
+const toActivity = (log: BetLog): BetActivity => ({
+  key: `${log.transactionHash}-${log.logIndex}`,
+  bettor: log.args.user ?? '0x',
+  blockNumber: log.blockNumber ?? 0n,
+  logIndex: log.logIndex ?? 0,
+  confidential: log.args.confidential ?? false,
+});
+
+// Adds bets that are not listed yet, keeping the list in chain order whichever of the history and the live feed
+// delivers them first.
+const mergeActivity = (current: BetActivity[], incoming: BetActivity[]) => {
+  const known = new Set(current.map((item) => item.key));
+  return [...current, ...incoming.filter((item) => !known.has(item.key))].sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1,
+  );
+};
+
+// Bettors stay pseudonymous: only the start and the end of their address are shown.
+const anonymize = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+const formatAge = (seconds: number) => {
+  if (seconds < 60) {
+    return 'just now';
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m ago`;
+  }
+  if (seconds < 86400) {
+    return `${Math.floor(seconds / 3600)}h ago`;
+  }
+  return `${Math.floor(seconds / 86400)}d ago`;
+};
+
+export function PredictionActivity({ predictionId, bettorCount, now, onNewBets }: Props) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const contractAddress = useContractAddress();
+  const deploymentBlock = useDeploymentBlock();
+
+  const [activity, setActivity] = useState<BetActivity[]>([]);
+  const [timestamps, setTimestamps] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!publicClient) {
+      return;
+    }
+    let cancelled = false;
+    setActivity([]);
+    setError(null);
+    setIsLoading(true);
+
+    const loadHistory = async () => {
+      const latestBlock = await publicClient.getBlockNumber();
+      for (let fromBlock = deploymentBlock; fromBlock <= latestBlock && !cancelled; fromBlock += LOG_PAGE_BLOCKS) {
+        const toBlock = fromBlock + LOG_PAGE_BLOCKS - 1n < latestBlock ? fromBlock + LOG_PAGE_BLOCKS - 1n : latestBlock;
+        const logs = await publicClient.getContractEvents({
+          address: contractAddress,
+          abi: CONTRACT_ABI,
+          eventName: 'BetPlaced',
+          args: { predictionId },
+          fromBlock,
+          toBlock,
+        });
+        if (!cancelled && logs.length > 0) {
+          setActivity((current) => mergeActivity(current, logs.map(toActivity)));
+        }
+      }
+    };
+
+    loadHistory()
+      .catch((err) => {
+        console.error('Failed to load bet activity', err);
+        if (!cancelled) {
+          setError('Bet history is unavailable on this RPC. New bets still appear live.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, contractAddress, deploymentBlock, predictionId]);
+
+  useWatchContractEvent({
+    address: contractAddress,
+    abi: CONTRACT_ABI,
+    eventName: 'BetPlaced',
+    args: { predictionId },
+    onLogs: (logs) => {
+      setActivity((current) => mergeActivity(current, logs.map(toActivity)));
+      onNewBets?.();
+    },
+  });
+
+  // A bettor's first `BetPlaced` is their bet, every later one tops it up.
+  const feed = useMemo(() => {
+    const seen = new Set<string>();
+    return activity
+      .map((item) => {
+        const bettor = item.bettor.toLowerCase();
+        const isTopUp = seen.has(bettor);
+        seen.add(bettor);
+        return { ...item, isTopUp };
+      })
+      .slice(-FEED_SIZE)
+      .reverse();
+  }, [activity]);
+
+  const missingBlocks = useMemo(
+    () =>
+      [...new Set(feed.map((item) => item.blockNumber))].filter(
+        (blockNumber) => timestamps[blockNumber.toString()] === undefined,
+      ),
+    [feed, timestamps],
+  );
+
+  useEffect(() => {
+    if (!publicClient || missingBlocks.length === 0) {
+      return;
+    }
+    Promise.all(missingBlocks.map((blockNumber) => publicClient.getBlock({ blockNumber })))
+      .then((blocks) => {
+        setTimestamps((current) => {
+          const next = { ...current };
+          blocks.forEach((block) => {
+            next[block.number.toString()] = Number(block.timestamp);
+          });
+          return next;
+        });
+      })
+      .catch((err) => console.error('Failed to load block timestamps', err));
+  }, [publicClient, missingBlocks]);
+
+  return (
+    <div className="encrypted-card">
+      <div className="encrypted-card__header">
+        <div>
+          <h3>Activity</h3>
+          <p className="muted-text">
+            {bettorCount.toString()} {bettorCount === 1n ? 'participant' : 'participants'} • picks stay encrypted
+          </p>
+        </div>
+        <span className="live-indicator">Live</span>
+      </div>
+
+      {isLoading && <p className="muted-text">Loading bets...</p>}
+      {error && <p className="error-message">{error}</p>}
+      {!isLoading && !error && feed.length === 0 && <p className="muted-text">No bets yet. Be the first!</p>}
+
+      <ul className="activity-feed">
+        {feed.map((item) => {
+          const timestamp = timestamps[item.blockNumber.toString()];
+          const isMine = address !== undefined && item.bettor.toLowerCase() === address.toLowerCase();
+          return (
+            <li key={item.key} className="activity-item">
+              <span>
+                <code>{anonymize(item.bettor)}</code>
+                {isMine ? ' (you)' : ''} {item.isTopUp ? 'topped up their bet' : 'placed a bet'}
+                {item.confidential ? ' with an encrypted amount' : ''}
+              </span>
+              <span className="muted-text" title={timestamp ? new Date(timestamp * 1000).toLocaleString() : undefined}>
+                {timestamp ? formatAge(Math.max(0, now - timestamp)) : `block ${item.blockNumber.toString()}`}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
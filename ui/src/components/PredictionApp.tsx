@@ -1,13 +1,32 @@
 import { useState } from 'react';
+import { useAccount } from 'wagmi';
+import { ZeroAddress } from 'ethers';
 import { Header } from './Header';
 import { CreatePredictionForm } from './CreatePredictionForm';
 import { PredictionDashboard } from './PredictionDashboard';
+import { AdminPanel } from './AdminPanel';
+import { Leaderboard } from './Leaderboard';
+import { useMarketAdmin } from '../hooks/useMarketAdmin';
 import '../styles/PredictionApp.css';
 
 export function PredictionApp() {
-  const [activeTab, setActiveTab] = useState<'predict' | 'create'>('predict');
+  const { address } = useAccount();
+  const { state: adminState, refresh: refreshAdmin } = useMarketAdmin();
+  const [activeTab, setActiveTab] = useState<'predict' | 'create' | 'leaderboard' | 'admin'>('predict');
   const [refreshKey, setRefreshKey] = useState(0);
 
+  // The pending owner sees the tab too, to accept the ownership.
+  const isPendingOwner =
+    adminState !== null &&
+    adminState.pendingOwner !== ZeroAddress &&
+    address?.toLowerCase() === adminState.pendingOwner.toLowerCase();
+  const showAdmin = adminState !== null && (adminState.isAdmin || isPendingOwner);
+
+  const handleAdminChanged = () => {
+    refreshAdmin();
+    setRefreshKey((prev) => prev + 1);
+  };
+
   const handleCreated = () => {
     setRefreshKey((prev) => prev + 1);
     setActiveTab('predict');
@@ -32,10 +51,36 @@ export function PredictionApp() {
           >
             Create Prediction
           </button>
+          <button
+            type="button"
+            className={`tab-button ${activeTab === 'leaderboard' ? 'active' : ''}`}
+            onClick={() => setActiveTab('leaderboard')}
+          >
+            Leaderboard
+          </button>
+          {showAdmin && (
+            <button
+              type="button"
+              className={`tab-button ${activeTab === 'admin' ? 'active' : ''}`}
+              onClick={() => setActiveTab('admin')}
+            >
+              Admin
+            </button>
+          )}
         </div>
 
-        {activeTab === 'create' ? (
+        {adminState?.paused && (
+          <p className="paused-banner">
+            The market is paused: new predictions and bets are disabled. Claims and refunds remain available.
+          </p>
+        )}
+
+        {activeTab === 'admin' && showAdmin ? (
+          <AdminPanel state={adminState} onChanged={handleAdminChanged} />
+        ) : activeTab === 'create' ? (
           <CreatePredictionForm onCreated={handleCreated} />
+        ) : activeTab === 'leaderboard' ? (
+          <Leaderboard />
         ) : (
           <PredictionDashboard refreshKey={refreshKey} />
         )}
@@ -1,9 +1,17 @@
-import { useEffect, useMemo, useState } from 'react';
-import { useAccount, useReadContract, usePublicClient } from 'wagmi';
-import { Contract, JsonRpcSigner, formatEther, isAddress, parseEther } from 'ethers';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import { Contract, JsonRpcSigner, ZeroAddress, formatEther, formatUnits, parseEther, parseUnits } from 'ethers';
 import { useEthersSigner } from '../hooks/useEthersSigner';
 import { useZamaInstance } from '../hooks/useZamaInstance';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+import { CONTRACT_ABI, SERIES_ABI } from '../config/contracts';
+import { useContractAddress, useSeriesAddress } from '../hooks/useContractAddress';
+import { COLLATERAL_ERC20, COLLATERAL_LABELS, COLLATERAL_NATIVE, TOKEN_ABI } from '../config/tokens';
+import { MARKET_CATEGORIES } from '../config/categories';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { usePredictionMarketClient } from '../hooks/usePredictionMarketClient';
+import { ZERO_HANDLE, marketOdds, payoutIfWins, previewPayout } from '../../../sdk';
+import type { ClearTotals, OptionOdds } from '../../../sdk';
+import { PredictionActivity } from './PredictionActivity';
 import '../styles/PredictionDashboard.css';
 
 type PredictionSummary = {
@@ -11,12 +19,100 @@ type PredictionSummary = {
   name: string;
   options: string[];
   creator: string;
+  resolver: string;
   createdAt: bigint;
+  bettingClosesAt: bigint;
+  resolutionDeadline: bigint;
+  state: number;
+  collateralType: number;
+  collateralToken: string;
+  bettorCount: bigint;
+  protocolFeeBps: number;
+  creatorFeeBps: number;
+  hidden: boolean;
+  marketType: number;
+  details: PredictionDetails;
 };
 
+type PredictionDetails = {
+  description: string;
+  category: string;
+  resolutionCriteria: string;
+  source: string;
+};
+
+type TokenMeta = {
+  symbol: string;
+  decimals: number;
+};
+
+type ScalarRange = {
+  lowerBound: bigint;
+  upperBound: bigint;
+  reported: boolean;
+  value: bigint;
+};
+
+// Zero disables `maxBet` and `maxPool`, as in the contract.
+type BetLimits = {
+  minBet: bigint;
+  maxBet: bigint;
+  maxPool: bigint;
+};
+
+// A recurring market spawned round after round from one template by the PredictionSeries contract.
+type PredictionSeries = {
+  id: bigint;
+  name: string;
+  owner: string;
+  keeper: string;
+  roundCount: bigint;
+  latestRound: bigint;
+  nextRoundAt: bigint;
+  ended: boolean;
+};
+
+// Series a listed prediction is a round of, zero for standalone predictions, and its 1-based round number.
+type RoundRef = { seriesId: bigint; round: bigint };
+
+const PREDICTION_STATES = ['Open', 'Closed', 'Resolved', 'Cancelled'] as const;
+const STATE_OPEN = 0;
+const STATE_CLOSED = 1;
+const STATE_CANCELLED = 3;
+const MARKET_SCALAR = 1;
+
+const PAGE_SIZE = 10n;
+// The state filters scan at most this many predictions per request, so a page may come back short.
+const STATE_SCAN_SIZE = 50n;
+const SERIES_PAGE_SIZE = 50n;
+
+type ListFilter =
+  | 'all'
+  | 'open'
+  | 'closed'
+  | 'resolved'
+  | 'created'
+  | 'bets'
+  | `category:${string}`
+  | `series:${string}`;
+
+const LIST_FILTERS: { value: ListFilter; label: string }[] = [
+  { value: 'all', label: 'All markets' },
+  { value: 'open', label: 'Open' },
+  { value: 'closed', label: 'Awaiting resolution' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'created', label: 'Created by me' },
+  { value: 'bets', label: 'Markets I bet on' },
+];
+
+const FILTER_STATES: Partial<Record<ListFilter, number>> = { open: 0, closed: 1, resolved: 2 };
+const CATEGORY_FILTER_PREFIX = 'category:';
+const SERIES_FILTER_PREFIX = 'series:';
+
 type TotalsPayload = {
   pool: string;
   totals: string[];
+  revealed: boolean;
 };
 
 type DashboardProps = {
@@ -32,12 +128,150 @@ const formatWei = (value: bigint | string) => {
   }
 };
 
+// Normalizes a `PredictionSummary` returned by the contract views.
+const toPrediction = (prediction: PredictionSummary): PredictionSummary => ({
+  id: BigInt(prediction.id),
+  name: prediction.name,
+  options: [...prediction.options],
+  creator: prediction.creator,
+  resolver: prediction.resolver,
+  createdAt: BigInt(prediction.createdAt),
+  bettingClosesAt: BigInt(prediction.bettingClosesAt),
+  resolutionDeadline: BigInt(prediction.resolutionDeadline),
+  state: Number(prediction.state),
+  collateralType: Number(prediction.collateralType),
+  collateralToken: prediction.collateralToken,
+  bettorCount: BigInt(prediction.bettorCount),
+  protocolFeeBps: Number(prediction.protocolFeeBps),
+  creatorFeeBps: Number(prediction.creatorFeeBps),
+  hidden: prediction.hidden,
+  marketType: Number(prediction.marketType),
+  details: {
+    description: prediction.details.description,
+    category: prediction.details.category,
+    resolutionCriteria: prediction.details.resolutionCriteria,
+    source: prediction.details.source,
+  },
+});
+
+// Normalizes a `SeriesSummary` returned by `listSeries`, keeping what the dashboard shows.
+const toSeries = (series: {
+  id: bigint;
+  template: { name: string };
+  owner: string;
+  keeper: string;
+  roundCount: bigint;
+  latestRound: bigint;
+  nextRoundAt: bigint;
+  ended: boolean;
+}): PredictionSeries => ({
+  id: BigInt(series.id),
+  name: series.template.name,
+  owner: series.owner,
+  keeper: series.keeper,
+  roundCount: BigInt(series.roundCount),
+  latestRound: BigInt(series.latestRound),
+  nextRoundAt: BigInt(series.nextRoundAt),
+  ended: series.ended,
+});
+
+const isLink = (source: string) => /^https?:\/\//i.test(source);
+
+const parseEthAmount = (value: string) => {
+  try {
+    const weiValue = parseEther(value.trim() || '0');
+    return weiValue > 0n ? weiValue : null;
+  } catch {
+    return null;
+  }
+};
+
+const parseTokenAmount = (value: string, decimals: number) => {
+  try {
+    const units = parseUnits(value.trim() || '0', decimals);
+    return units > 0n ? units : null;
+  } catch {
+    return null;
+  }
+};
+
+// Amount in the collateral of a prediction: ETH, or token units once the token metadata is loaded.
+const formatCollateral = (value: bigint, token: TokenMeta | null) =>
+  token ? `${formatUnits(value, token.decimals)} ${token.symbol}` : formatWei(value);
+
+const describeBetRange = ({ minBet, maxBet }: BetLimits, token: TokenMeta | null) => {
+  if (minBet > 0n && maxBet > 0n) {
+    return `between ${formatCollateral(minBet, token)} and ${formatCollateral(maxBet, token)}`;
+  }
+  return maxBet > 0n ? `at most ${formatCollateral(maxBet, token)}` : `at least ${formatCollateral(minBet, token)}`;
+};
+
+const describeLimits = (limits: BetLimits, token: TokenMeta | null) => {
+  const parts: string[] = [];
+  if (limits.minBet > 0n || limits.maxBet > 0n) {
+    parts.push(`Bets ${describeBetRange(limits, token)}`);
+  }
+  if (limits.maxPool > 0n) {
+    parts.push(`Pool capped at ${formatCollateral(limits.maxPool, token)}`);
+  }
+  return parts.length > 0 ? `${parts.join(' • ')}.` : null;
+};
+
+const formatBps = (bps: number) => `${(bps / 100).toFixed(2).replace(/\.?0+$/, '')}%`;
+
+const formatOdds = ({ probability, decimalOdds }: OptionOdds) =>
+  probability === null
+    ? 'no bets yet'
+    : `${(probability * 100).toFixed(1)}% • ${decimalOdds === null ? '—' : `${decimalOdds.toFixed(2)}x`}`;
+
+const formatCountdown = (seconds: number) => {
+  if (seconds <= 0) {
+    return 'now';
+  }
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) {
+    return `${days}d ${hours}h`;
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+// The on-chain state is read once, so time-based transitions (Open → Closed → Cancelled) are replayed locally.
+const currentState = (prediction: PredictionSummary, now: number) => {
+  if (prediction.state !== STATE_OPEN && prediction.state !== STATE_CLOSED) {
+    return prediction.state;
+  }
+  if (now > Number(prediction.resolutionDeadline)) {
+    return STATE_CANCELLED;
+  }
+  return now >= Number(prediction.bettingClosesAt) ? STATE_CLOSED : STATE_OPEN;
+};
+
+const describeSchedule = (prediction: PredictionSummary, now: number) => {
+  const state = currentState(prediction, now);
+  if (state === STATE_OPEN) {
+    return `Betting closes in ${formatCountdown(Number(prediction.bettingClosesAt) - now)}`;
+  }
+  if (state === STATE_CLOSED) {
+    return `Resolution due in ${formatCountdown(Number(prediction.resolutionDeadline) - now)}`;
+  }
+  return `Betting closed ${new Date(Number(prediction.bettingClosesAt) * 1000).toLocaleDateString()}`;
+};
+
 export function PredictionDashboard({ refreshKey }: DashboardProps) {
   const { address } = useAccount();
   const signerPromise = useEthersSigner();
+  const contractAddress = useContractAddress();
   const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
+  const decryptionSession = useDecryptionSession(instance);
+  const getClient = usePredictionMarketClient(instance, decryptionSession);
   const publicClient = usePublicClient();
-  const isContractReady = isAddress(CONTRACT_ADDRESS);
+  const isContractReady = contractAddress !== ZeroAddress;
+  const seriesAddress = useSeriesAddress();
 
   const [selectedPredictionId, setSelectedPredictionId] = useState<bigint | null>(null);
   const [selectedOptionIndex, setSelectedOptionIndex] = useState<number | null>(null);
@@ -45,44 +279,240 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
   const [betStatus, setBetStatus] = useState<string | null>(null);
   const [betError, setBetError] = useState<string | null>(null);
   const [totalsData, setTotalsData] = useState<TotalsPayload | null>(null);
-  const [userBetHandles, setUserBetHandles] = useState<{ amount: string; selection: string; hasBet: boolean } | null>(
+  const [userBetHandles, setUserBetHandles] = useState<{ amount: string; positions: string[]; hasBet: boolean } | null>(
     null,
   );
   const [decryptedTotals, setDecryptedTotals] = useState<{ pool: string; options: string[] } | null>(null);
-  const [decryptedBet, setDecryptedBet] = useState<{ amount: string; selectionIndex: number } | null>(null);
+  const [decryptedBet, setDecryptedBet] = useState<{ amount: string; positions: string[] } | null>(null);
+  const [claimState, setClaimState] = useState<{ payout: string; claimed: boolean; paidOut: boolean } | null>(null);
   const [decryptStatus, setDecryptStatus] = useState<string | null>(null);
+  const [balanceHandle, setBalanceHandle] = useState<string | null>(null);
+  const [decryptedBalance, setDecryptedBalance] = useState<string | null>(null);
+  const [depositAmount, setDepositAmount] = useState('0.5');
+  const [withdrawAmount, setWithdrawAmount] = useState('0.1');
+  const [balanceStatus, setBalanceStatus] = useState<string | null>(null);
+  const [balanceError, setBalanceError] = useState<string | null>(null);
   const [isFetchingChainData, setIsFetchingChainData] = useState(false);
+  const [tokenMeta, setTokenMeta] = useState<TokenMeta | null>(null);
+  const [scalarRange, setScalarRange] = useState<ScalarRange | null>(null);
+  const [betLimits, setBetLimits] = useState<BetLimits | null>(null);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const [listFilter, setListFilter] = useState<ListFilter>('all');
+  const [seriesList, setSeriesList] = useState<PredictionSeries[]>([]);
+  const [roundRefs, setRoundRefs] = useState<Record<string, RoundRef>>({});
+  const [predictions, setPredictions] = useState<PredictionSummary[]>([]);
+  const [nextPageParam, setNextPageParam] = useState<bigint | null>(null);
+  const [predictionsLoading, setPredictionsLoading] = useState(true);
+  const [isFetchingNextPage, setIsFetchingNextPage] = useState(false);
+  const listRequestRef = useRef(0);
+  const listSentinelRef = useRef<HTMLDivElement | null>(null);
+  const needsAccount = listFilter === 'created' || listFilter === 'bets';
+
+  // Paged views return `[page, total]` and take an offset, state views return `[page, nextCursor]` and take a cursor.
+  const readPredictionPage = useCallback(
+    async (pageParam: bigint) => {
+      if (!publicClient) {
+        return null;
+      }
+      const filterState = FILTER_STATES[listFilter];
+      if (filterState !== undefined) {
+        const [page, nextCursor] = (await publicClient.readContract({
+          address: contractAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'listPredictionsByState',
+          args: [filterState, pageParam, PAGE_SIZE, STATE_SCAN_SIZE],
+        })) as [PredictionSummary[], bigint];
+        return { page, next: nextCursor > pageParam ? nextCursor : null };
+      }
 
-  const {
-    data: predictionsRaw,
-    isLoading: predictionsLoading,
-    refetch: refetchPredictions,
-  } = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: CONTRACT_ABI,
-    functionName: 'listPredictions',
-    query: {
-      refetchInterval: 0,
-      enabled: isContractReady,
+      if (listFilter.startsWith(SERIES_FILTER_PREFIX)) {
+        const [rounds, total] = await publicClient.readContract({
+          address: seriesAddress,
+          abi: SERIES_ABI,
+          functionName: 'getSeriesRounds',
+          args: [BigInt(listFilter.slice(SERIES_FILTER_PREFIX.length)), pageParam, PAGE_SIZE],
+        });
+        const page = (await Promise.all(
+          rounds.map((predictionId) =>
+            publicClient.readContract({
+              address: contractAddress,
+              abi: CONTRACT_ABI,
+              functionName: 'getPredictionMetadata',
+              args: [predictionId],
+            }),
+          ),
+        )) as PredictionSummary[];
+        const nextOffset = pageParam + PAGE_SIZE;
+        return { page, next: nextOffset < total ? nextOffset : null };
+      }
+
+      let result: [PredictionSummary[], bigint];
+      if (listFilter.startsWith(CATEGORY_FILTER_PREFIX)) {
+        result = (await publicClient.readContract({
+          address: contractAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'listPredictionsByCategory',
+          args: [listFilter.slice(CATEGORY_FILTER_PREFIX.length), pageParam, PAGE_SIZE],
+        })) as [PredictionSummary[], bigint];
+      } else if (needsAccount) {
+        if (!address) {
+          return { page: [], next: null };
+        }
+        result = (await publicClient.readContract({
+          address: contractAddress,
+          abi: CONTRACT_ABI,
+          functionName: listFilter === 'created' ? 'listPredictionsByCreator' : 'listPredictionsByBettor',
+          args: [address, pageParam, PAGE_SIZE],
+        })) as [PredictionSummary[], bigint];
+      } else {
+        result = (await publicClient.readContract({
+          address: contractAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'listPredictionsPaged',
+          args: [pageParam, PAGE_SIZE],
+        })) as [PredictionSummary[], bigint];
+      }
+      // Hidden predictions are left out of the public listing, so pages can come back short.
+      const nextOffset = pageParam + PAGE_SIZE;
+      return { page: result[0], next: nextOffset < result[1] ? nextOffset : null };
     },
-  });
+    [publicClient, listFilter, contractAddress, seriesAddress, needsAccount, address],
+  );
+
+  // Loads the page at `pageParam`, or reloads the list from the start when it is omitted. Responses of a
+  // superseded request (e.g. after the filter changed) are dropped.
+  const loadPredictions = useCallback(
+    async (pageParam?: bigint) => {
+      if (!isContractReady) {
+        return;
+      }
+      const requestId = pageParam === undefined ? ++listRequestRef.current : listRequestRef.current;
+      if (pageParam === undefined) {
+        setPredictionsLoading(true);
+      } else {
+        setIsFetchingNextPage(true);
+      }
+
+      try {
+        const result = await readPredictionPage(pageParam ?? 0n);
+        if (!result || requestId !== listRequestRef.current) {
+          return;
+        }
+        const page = result.page.map(toPrediction);
+        setPredictions((current) => (pageParam === undefined ? page : [...current, ...page]));
+        setNextPageParam(result.next);
+      } catch (error) {
+        console.error('loadPredictions failed', error);
+      } finally {
+        if (requestId === listRequestRef.current) {
+          setPredictionsLoading(false);
+          setIsFetchingNextPage(false);
+        }
+      }
+    },
+    [isContractReady, readPredictionPage],
+  );
+
+  const refetchPredictions = () => loadPredictions();
+
+  // Series are few, so every page is read to offer them as filters and head their rounds in the list.
+  const loadSeries = useCallback(async () => {
+    if (!publicClient || seriesAddress === ZeroAddress) {
+      setSeriesList([]);
+      return;
+    }
+    try {
+      const series: PredictionSeries[] = [];
+      for (let offset = 0n, total = 1n; offset < total; offset += SERIES_PAGE_SIZE) {
+        const [page, count] = await publicClient.readContract({
+          address: seriesAddress,
+          abi: SERIES_ABI,
+          functionName: 'listSeries',
+          args: [offset, SERIES_PAGE_SIZE],
+        });
+        series.push(...page.map(toSeries));
+        total = count;
+      }
+      setSeriesList(series);
+    } catch (error) {
+      console.error('loadSeries failed', error);
+    }
+  }, [publicClient, seriesAddress]);
+
+  // Re-reads a single listed prediction, e.g. to update its bettor count when new bets come in.
+  const refreshPrediction = async (predictionId: bigint) => {
+    if (!publicClient) {
+      return;
+    }
+    try {
+      const summary = (await publicClient.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'getPredictionMetadata',
+        args: [predictionId],
+      })) as PredictionSummary;
+      setPredictions((current) =>
+        current.map((prediction) => (prediction.id === predictionId ? toPrediction(summary) : prediction)),
+      );
+    } catch (error) {
+      console.error('refreshPrediction failed', error);
+    }
+  };
 
   useEffect(() => {
-    refetchPredictions();
-  }, [refreshKey, refetchPredictions]);
-
-  const predictions: PredictionSummary[] = useMemo(() => {
-    if (!predictionsRaw || !Array.isArray(predictionsRaw)) {
-      return [];
-    }
-    return (predictionsRaw as PredictionSummary[]).map((prediction) => ({
-      id: BigInt(prediction.id),
-      name: prediction.name,
-      options: prediction.options,
-      creator: prediction.creator,
-      createdAt: BigInt(prediction.createdAt),
-    }));
-  }, [predictionsRaw]);
+    loadPredictions();
+  }, [loadPredictions, refreshKey]);
+
+  useEffect(() => {
+    loadSeries();
+  }, [loadSeries, refreshKey]);
+
+  useEffect(() => {
+    setRoundRefs({});
+  }, [seriesAddress]);
+
+  // Looks up which series each listed prediction belongs to, once per prediction.
+  useEffect(() => {
+    const unknown = predictions.filter(({ id }) => roundRefs[id.toString()] === undefined);
+    if (!publicClient || seriesAddress === ZeroAddress || unknown.length === 0) {
+      return;
+    }
+    Promise.all(
+      unknown.map(({ id }) =>
+        publicClient.readContract({ address: seriesAddress, abi: SERIES_ABI, functionName: 'seriesOf', args: [id] }),
+      ),
+    )
+      .then((refs) => {
+        setRoundRefs((current) => {
+          const next = { ...current };
+          refs.forEach(([seriesId, round], index) => {
+            next[unknown[index].id.toString()] = { seriesId, round };
+          });
+          return next;
+        });
+      })
+      .catch((error) => console.error('Failed to look up series rounds', error));
+  }, [publicClient, seriesAddress, predictions, roundRefs]);
+
+  useEffect(() => {
+    const sentinel = listSentinelRef.current;
+    if (!sentinel || nextPageParam === null || isFetchingNextPage) {
+      return;
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        loadPredictions(nextPageParam);
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadPredictions, nextPageParam, isFetchingNextPage, predictions]);
 
   useEffect(() => {
     if (predictions.length > 0 && !selectedPredictionId) {
@@ -96,55 +526,123 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
     }
   }, [predictions]);
 
-  const loadOnChainData = async (predictionId?: bigint) => {
-    if (!publicClient || !isAddress(CONTRACT_ADDRESS)) {
+  const selectedPrediction = useMemo(
+    () => predictions.find((prediction) => prediction.id === selectedPredictionId),
+    [predictions, selectedPredictionId],
+  );
+
+  const loadOnChainData = useCallback(async () => {
+    if (!publicClient || !isContractReady) {
       return;
     }
-    const targetId = predictionId ?? selectedPredictionId;
-    if (!targetId) {
+    const target = selectedPrediction;
+    if (!target) {
       return;
     }
+    const targetId = target.id;
 
     setIsFetchingChainData(true);
     try {
       const onChainTotals = (await publicClient.readContract({
-        address: CONTRACT_ADDRESS,
+        address: contractAddress,
         abi: CONTRACT_ABI,
         functionName: 'getEncryptedTotals',
         args: [targetId],
-      })) as [string[], string];
+      })) as [string[], string, boolean];
 
       setTotalsData({
         totals: onChainTotals[0].map((value) => value as unknown as string),
         pool: onChainTotals[1] as unknown as string,
+        revealed: onChainTotals[2],
+      });
+
+      if (target.collateralType !== COLLATERAL_NATIVE) {
+        const token = target.collateralToken as `0x${string}`;
+        const [symbol, decimals] = await Promise.all([
+          publicClient.readContract({ address: token, abi: TOKEN_ABI, functionName: 'symbol' }),
+          publicClient.readContract({ address: token, abi: TOKEN_ABI, functionName: 'decimals' }),
+        ]);
+        setTokenMeta({ symbol: symbol as string, decimals: Number(decimals) });
+      } else {
+        setTokenMeta(null);
+      }
+
+      if (target.marketType === MARKET_SCALAR) {
+        const [lowerBound, upperBound, reported, value] = await publicClient.readContract({
+          address: contractAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'getScalarRange',
+          args: [targetId],
+        });
+        setScalarRange({ lowerBound, upperBound, reported, value });
+      } else {
+        setScalarRange(null);
+      }
+
+      const [minBet, maxBet, maxPool] = await publicClient.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'getBetLimits',
+        args: [targetId],
       });
+      setBetLimits({ minBet, maxBet, maxPool });
 
       if (address) {
         const betResult = (await publicClient.readContract({
-          address: CONTRACT_ADDRESS,
+          address: contractAddress,
           abi: CONTRACT_ABI,
           functionName: 'getUserBet',
           args: [targetId, address],
         })) as [string, string, boolean];
 
+        const positionsResult = (await publicClient.readContract({
+          address: contractAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'getUserPositions',
+          args: [targetId, address],
+        })) as [string[], boolean];
+
         setUserBetHandles({
           amount: betResult[0] as unknown as string,
-          selection: betResult[1] as unknown as string,
+          positions: positionsResult[0].map((value) => value as unknown as string),
           hasBet: betResult[2],
         });
+
+        const claimResult = (await publicClient.readContract({
+          address: contractAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'getClaim',
+          args: [targetId, address],
+        })) as [string, boolean, boolean];
+
+        setClaimState({
+          payout: claimResult[0] as unknown as string,
+          claimed: claimResult[1],
+          paidOut: claimResult[2],
+        });
+
+        const balanceResult = await publicClient.readContract({
+          address: contractAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'getEncryptedBalance',
+          args: [address],
+        });
+        setBalanceHandle(balanceResult as unknown as string);
       } else {
         setUserBetHandles(null);
+        setClaimState(null);
+        setBalanceHandle(null);
       }
     } catch (error) {
       console.error('loadOnChainData failed', error);
     } finally {
       setIsFetchingChainData(false);
     }
-  };
+  }, [publicClient, isContractReady, contractAddress, selectedPrediction, address]);
 
   useEffect(() => {
     loadOnChainData();
-  }, [selectedPredictionId, address]);
+  }, [loadOnChainData]);
 
   const handlePlaceBet = async () => {
     setBetStatus(null);
@@ -162,108 +660,241 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
       setBetError('Ensure your wallet and encryption service are ready.');
       return;
     }
-    if (!isAddress(CONTRACT_ADDRESS)) {
+    if (!isContractReady) {
       setBetError('Contract address is missing. Deploy the contract first.');
       return;
     }
 
-    const sanitizedAmount = betAmount.trim();
-    let weiValue: bigint;
-    try {
-      weiValue = parseEther(sanitizedAmount || '0');
-    } catch {
-      setBetError('Enter a valid ETH amount.');
+    const prediction = predictions.find((item) => item.id === selectedPredictionId);
+    const isNative = !prediction || prediction.collateralType === COLLATERAL_NATIVE;
+    const stake = isNative ? parseEthAmount(betAmount) : parseTokenAmount(betAmount, tokenMeta?.decimals ?? 0);
+    if (stake === null) {
+      setBetError(`Enter ${isNative ? 'an ETH' : 'a token'} amount greater than zero.`);
       return;
     }
-
-    if (weiValue <= 0n) {
-      setBetError('Bet amount must be greater than zero.');
+    // Public stakes outside the limits revert and encrypted ones silently stake zero. The pool cap is left to the
+    // contract since the pool is encrypted.
+    if (betLimits && (stake < betLimits.minBet || (betLimits.maxBet !== 0n && stake > betLimits.maxBet))) {
+      setBetError(`Bets on this prediction must be ${describeBetRange(betLimits, isNative ? null : tokenMeta)}.`);
       return;
     }
 
     try {
-      setBetStatus('Encrypting selection...');
-      const buffer = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
-      buffer.add8(selectedOptionIndex);
-      const encryptedInput = await buffer.encrypt();
+      const client = await getClient(setBetStatus);
+      await client.placeBet({ predictionId: selectedPredictionId, choice: selectedOptionIndex, amount: stake });
+      setBetStatus('Bet confirmed!');
+      loadOnChainData();
+      refetchPredictions();
+    } catch (error) {
+      console.error('placeBet failed', error);
+      setBetError(error instanceof Error ? error.message : 'Failed to place bet.');
+    } finally {
+      setTimeout(() => setBetStatus(null), 4000);
+    }
+  };
+
+  const handleClaimRefund = async () => {
+    setBetStatus(null);
+    setBetError(null);
+    if (selectedPredictionId === null || !userBetHandles?.hasBet) {
+      setBetError('No encrypted bet detected for this account.');
+      return;
+    }
+    if (!instance || !address || !signerPromise || !publicClient) {
+      setBetError('Ensure your wallet and encryption service are ready.');
+      return;
+    }
 
-      setBetStatus('Submitting transaction...');
+    try {
       const signer: JsonRpcSigner | undefined = await signerPromise;
       if (!signer) {
         throw new Error('Unable to locate wallet signer.');
       }
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.placeEncryptedBet(
-        Number(selectedPredictionId),
-        encryptedInput.handles[0],
-        encryptedInput.inputProof,
-        { value: weiValue },
+      const contract = new Contract(contractAddress, CONTRACT_ABI, signer);
+
+      if (!claimState?.claimed) {
+        setBetStatus('Requesting refund...');
+        const refundTx = await contract.refund(selectedPredictionId);
+        await refundTx.wait();
+      }
+
+      const claimResult = (await publicClient.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'getClaim',
+        args: [selectedPredictionId, address],
+      })) as [string, boolean, boolean];
+      if (claimResult[2]) {
+        // Confidential bets are refunded straight into the encrypted balance.
+        setBetStatus('Refund credited to your confidential balance.');
+        loadOnChainData();
+        return;
+      }
+      const payoutHandle = claimResult[0] as unknown as string;
+
+      setBetStatus('Decrypting refund amount...');
+      const decryption = await instance.publicDecrypt([payoutHandle]);
+
+      setBetStatus('Releasing refund...');
+      const tx = await contract.finalizeClaim(
+        selectedPredictionId,
+        decryption.abiEncodedClearValues,
+        decryption.decryptionProof,
       );
-      setBetStatus('Waiting for confirmation...');
       await tx.wait();
-      setBetStatus('Bet confirmed!');
-      loadOnChainData(selectedPredictionId);
-      refetchPredictions();
+      setBetStatus('Refund sent to your wallet.');
+      loadOnChainData();
     } catch (error) {
-      console.error('placeEncryptedBet failed', error);
-      setBetError(error instanceof Error ? error.message : 'Failed to place bet.');
+      console.error('claimRefund failed', error);
+      setBetError(error instanceof Error ? error.message : 'Failed to claim refund.');
     } finally {
       setTimeout(() => setBetStatus(null), 4000);
     }
   };
 
-  const decryptHandles = async (handles: string[]) => {
-    if (!instance || !address || !signerPromise) {
-      throw new Error('Wallet or encryption service unavailable.');
-    }
+  const getWriteContract = async () => {
     const signer: JsonRpcSigner | undefined = await signerPromise;
     if (!signer) {
       throw new Error('Unable to locate wallet signer.');
     }
+    return new Contract(contractAddress, CONTRACT_ABI, signer);
+  };
 
-    const keypair = instance.generateKeypair();
-    const contractAddresses = [CONTRACT_ADDRESS];
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = '5';
+  const handleDeposit = async () => {
+    setBalanceStatus(null);
+    setBalanceError(null);
+    const weiValue = parseEthAmount(depositAmount);
+    if (weiValue === null) {
+      setBalanceError('Enter an ETH amount greater than zero.');
+      return;
+    }
 
-    const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimeStamp, durationDays);
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
-      eip712.message,
-    );
+    try {
+      setBalanceStatus('Submitting deposit...');
+      const contract = await getWriteContract();
+      const tx = await contract.deposit({ value: weiValue });
+      await tx.wait();
+      setBalanceStatus('Deposit confirmed!');
+      setDecryptedBalance(null);
+      loadOnChainData();
+    } catch (error) {
+      console.error('deposit failed', error);
+      setBalanceError(error instanceof Error ? error.message : 'Failed to deposit.');
+    } finally {
+      setTimeout(() => setBalanceStatus(null), 4000);
+    }
+  };
 
-    const handlePairs = handles.map((handle) => ({
-      handle,
-      contractAddress: CONTRACT_ADDRESS,
-    }));
-
-    const result = await instance.userDecrypt(
-      handlePairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace('0x', ''),
-      contractAddresses,
-      address,
-      startTimeStamp,
-      durationDays,
-    );
+  const handleWithdraw = async () => {
+    setBalanceStatus(null);
+    setBalanceError(null);
+    const weiValue = parseEthAmount(withdrawAmount);
+    if (weiValue === null) {
+      setBalanceError('Enter an ETH amount greater than zero.');
+      return;
+    }
+    if (!instance || !address || !publicClient) {
+      setBalanceError('Ensure your wallet and encryption service are ready.');
+      return;
+    }
+
+    try {
+      const contract = await getWriteContract();
+      const pendingResult = (await publicClient.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'getPendingWithdrawal',
+        args: [address],
+      })) as [string, boolean];
+
+      if (!pendingResult[1]) {
+        setBalanceStatus('Encrypting withdrawal amount...');
+        const buffer = instance.createEncryptedInput(contractAddress, address);
+        buffer.add64(weiValue);
+        const encryptedInput = await buffer.encrypt();
+        const requestTx = await contract.requestWithdrawal(encryptedInput.handles[0], encryptedInput.inputProof);
+        setBalanceStatus('Waiting for confirmation...');
+        await requestTx.wait();
+      }
+
+      const [amountHandle] = (await publicClient.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'getPendingWithdrawal',
+        args: [address],
+      })) as [string, boolean];
+
+      setBalanceStatus('Decrypting withdrawal amount...');
+      const decryption = await instance.publicDecrypt([amountHandle]);
+
+      setBalanceStatus('Releasing withdrawal...');
+      const tx = await contract.finalizeWithdrawal(decryption.abiEncodedClearValues, decryption.decryptionProof);
+      await tx.wait();
+      setBalanceStatus(`Withdrew ${formatWei(decryption.clearValues[amountHandle] ?? 0n)}.`);
+      setDecryptedBalance(null);
+      loadOnChainData();
+    } catch (error) {
+      console.error('withdraw failed', error);
+      setBalanceError(error instanceof Error ? error.message : 'Failed to withdraw.');
+    } finally {
+      setTimeout(() => setBalanceStatus(null), 4000);
+    }
+  };
+
+  const handleRevealTotals = async () => {
+    if (selectedPredictionId === null) {
+      return;
+    }
+    setBetError(null);
+    setDecryptStatus('Revealing totals...');
+    try {
+      const contract = await getWriteContract();
+      const tx = await contract.revealTotals(selectedPredictionId);
+      await tx.wait();
+      loadOnChainData();
+    } catch (error) {
+      console.error('revealTotals failed', error);
+      setBetError(error instanceof Error ? error.message : 'Failed to reveal totals.');
+    } finally {
+      setDecryptStatus(null);
+    }
+  };
 
-    return result as Record<string, string | bigint>;
+  const handleSpawnRound = async (series: PredictionSeries) => {
+    setBetStatus(null);
+    setBetError(null);
+    try {
+      const signer: JsonRpcSigner | undefined = await signerPromise;
+      if (!signer) {
+        throw new Error('Unable to locate wallet signer.');
+      }
+      setBetStatus('Spawning the next round...');
+      const contract = new Contract(seriesAddress, SERIES_ABI, signer);
+      const tx = await contract.spawnRound(series.id);
+      await tx.wait();
+      setBetStatus(`Round ${series.roundCount + 1n} of ${series.name} is open for bets.`);
+      await loadSeries();
+      refetchPredictions();
+    } catch (error) {
+      console.error('spawnRound failed', error);
+      setBetError(error instanceof Error ? error.message : 'Failed to spawn the next round.');
+    } finally {
+      setTimeout(() => setBetStatus(null), 4000);
+    }
   };
 
   const handleDecryptTotals = async () => {
-    if (!totalsData || totalsData.totals.length === 0) {
+    if (!instance || selectedPredictionId === null || !totalsData?.revealed || totalsData.totals.length === 0) {
       return;
     }
     setDecryptStatus('Decrypting pool and option totals...');
     try {
-      const handles = [totalsData.pool, ...totalsData.totals];
-      const decrypted = await decryptHandles(handles);
-
+      // Revealed totals are publicly decryptable, so no user signature is required.
+      const client = await getClient();
+      const decrypted = await client.decryptTotals(selectedPredictionId);
       setDecryptedTotals({
-        pool: decrypted[totalsData.pool]?.toString() ?? '0',
-        options: totalsData.totals.map((handle) => decrypted[handle]?.toString() ?? '0'),
+        pool: decrypted.pool.toString(),
+        options: decrypted.totals.map((total) => total.toString()),
       });
     } catch (error) {
       console.error('handleDecryptTotals failed', error);
@@ -273,19 +904,40 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
     }
   };
 
+  const handleDecryptBalance = async () => {
+    if (!balanceHandle || balanceHandle === ZERO_HANDLE) {
+      setDecryptedBalance('0');
+      return;
+    }
+    setBalanceError(null);
+    setBalanceStatus('Decrypting your balance...');
+    try {
+      const client = await getClient(setBalanceStatus);
+      const [balance] = await client.decryptHandles([balanceHandle]);
+      setDecryptedBalance(balance.toString());
+    } catch (error) {
+      console.error('handleDecryptBalance failed', error);
+      setBalanceError(error instanceof Error ? error.message : 'Failed to decrypt your balance.');
+    } finally {
+      setBalanceStatus(null);
+    }
+  };
+
   const handleDecryptMyBet = async () => {
-    if (!userBetHandles || !userBetHandles.hasBet) {
+    if (selectedPredictionId === null || !userBetHandles || !userBetHandles.hasBet) {
       setBetError('No encrypted bet detected for this account.');
       return;
     }
-    setDecryptStatus('Decrypting your bet...');
+    setDecryptStatus('Decrypting your position...');
     try {
-      const handles = [userBetHandles.amount, userBetHandles.selection];
-      const decrypted = await decryptHandles(handles);
-      const selectionIndex = Number(decrypted[userBetHandles.selection] ?? 0);
+      const client = await getClient(setDecryptStatus);
+      const decrypted = await client.decryptMyBet(selectedPredictionId);
+      if (!decrypted) {
+        throw new Error('No encrypted bet detected for this account.');
+      }
       setDecryptedBet({
-        amount: decrypted[userBetHandles.amount]?.toString() ?? '0',
-        selectionIndex,
+        amount: decrypted.amount.toString(),
+        positions: decrypted.positions.map((position) => position.toString()),
       });
     } catch (error) {
       console.error('handleDecryptMyBet failed', error);
@@ -300,14 +952,15 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
       <section className="card">
         <h2 className="card-title">Contract address missing</h2>
         <p className="card-description">
-          Update <code>CONTRACT_ADDRESS</code> in <code>ui/src/config/contracts.ts</code> once the contract is deployed to
-          Sepolia.
+          No FHEPredictionMarket deployment is configured for this network. Deploy the contract to it, e.g. with{' '}
+          <code>npm run deploy:localhost</code> or <code>npm run deploy:sepolia</code>, to export its address to{' '}
+          <code>ui/src/config/contracts.ts</code>.
         </p>
       </section>
     );
   }
 
-  if (predictionsLoading) {
+  if (predictionsLoading && listFilter === 'all' && predictions.length === 0) {
     return (
       <section className="card">
         <p>Loading predictions...</p>
@@ -315,7 +968,7 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
     );
   }
 
-  if (predictions.length === 0) {
+  if (!predictionsLoading && predictions.length === 0 && listFilter === 'all') {
     return (
       <section className="card">
         <h2 className="card-title">No predictions yet</h2>
@@ -324,7 +977,135 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
     );
   }
 
-  const activePrediction = predictions.find((prediction) => prediction.id === selectedPredictionId);
+  const activePrediction = selectedPrediction;
+  const isBettingOpen = activePrediction ? currentState(activePrediction, now) === STATE_OPEN : false;
+  // Series and round number of every listed round, by prediction id.
+  const seriesRounds = new Map<bigint, { series: PredictionSeries; round: bigint }>();
+  predictions.forEach(({ id }) => {
+    const ref = roundRefs[id.toString()];
+    const series = ref && seriesList.find((entry) => entry.id === ref.seriesId);
+    if (series) {
+      seriesRounds.set(id, { series, round: ref.round });
+    }
+  });
+  // Rounds of a series are listed together under the series, where its first listed round would be.
+  const listGroups: { series?: PredictionSeries; predictions: PredictionSummary[] }[] = [];
+  predictions.forEach((prediction) => {
+    const series = seriesRounds.get(prediction.id)?.series;
+    const group = series && listGroups.find((entry) => entry.series === series);
+    if (group) {
+      group.predictions.push(prediction);
+    } else {
+      listGroups.push({ series, predictions: [prediction] });
+    }
+  });
+  const activeRound = activePrediction && seriesRounds.get(activePrediction.id);
+  // The latest round of a live series can be followed up once its betting has closed, by anyone unless the series
+  // has a keeper.
+  const canSpawnRound =
+    activeRound !== undefined &&
+    !activeRound.series.ended &&
+    activePrediction?.id === activeRound.series.latestRound &&
+    BigInt(now) >= activeRound.series.nextRoundAt &&
+    (activeRound.series.keeper === ZeroAddress ||
+      [activeRound.series.keeper, activeRound.series.owner].some(
+        (account) => account.toLowerCase() === address?.toLowerCase(),
+      ));
+  const isCancelled = activePrediction ? currentState(activePrediction, now) === STATE_CANCELLED : false;
+  const isNativeCollateral = !activePrediction || activePrediction.collateralType === COLLATERAL_NATIVE;
+  const limitsText = betLimits && describeLimits(betLimits, isNativeCollateral ? null : tokenMeta);
+  const formatStake = (value: bigint | string) => {
+    if (isNativeCollateral || !tokenMeta) {
+      return formatWei(value);
+    }
+    try {
+      const units = typeof value === 'bigint' ? value : BigInt(value || 0);
+      return `${formatUnits(units, tokenMeta.decimals)} ${tokenMeta.symbol}`;
+    } catch {
+      return `0 ${tokenMeta.symbol}`;
+    }
+  };
+  const clearTotals: ClearTotals | null = decryptedTotals
+    ? { pool: BigInt(decryptedTotals.pool), totals: decryptedTotals.options.map((value) => BigInt(value)) }
+    : null;
+  // Protocol and creator fees are both taken from the pool at resolution.
+  const feeBps = activePrediction ? BigInt(activePrediction.protocolFeeBps + activePrediction.creatorFeeBps) : 0n;
+  const odds = clearTotals ? marketOdds(clearTotals, feeBps) : null;
+  const previewStake = isNativeCollateral
+    ? parseEthAmount(betAmount)
+    : parseTokenAmount(betAmount, tokenMeta?.decimals ?? 0);
+  const previewOption = selectedOptionIndex !== null ? activePrediction?.options[selectedOptionIndex] : undefined;
+  const preview =
+    clearTotals && previewStake !== null && previewOption !== undefined
+      ? previewPayout(clearTotals, selectedOptionIndex ?? 0, previewStake, feeBps)
+      : null;
+  const describePreview = () => {
+    if (preview) {
+      const decimalOdds = preview.decimalOdds === null ? '' : ` (${preview.decimalOdds.toFixed(2)}x)`;
+      const payout = `${formatStake(preview.stake)} pays ${formatStake(preview.payout)}${decimalOdds}`;
+      return `If ${previewOption} wins, ${payout}, assuming no further bets.`;
+    }
+    return odds
+      ? 'Pick an option and an amount to preview the payout.'
+      : 'Odds appear once the pool totals are revealed and decrypted.';
+  };
+  // What the decrypted position pays out if each option wins.
+  const clearPositions = decryptedBet?.positions.map((position) => BigInt(position));
+  const positionPayouts =
+    clearTotals && clearPositions?.length === clearTotals.totals.length
+      ? clearTotals.totals.map((_, index) => payoutIfWins(clearTotals, index, clearPositions, feeBps))
+      : null;
+  const describeTotals = () => {
+    if (isFetchingChainData) {
+      return 'Fetching...';
+    }
+    if (totalsData?.revealed) {
+      return 'Totals are revealed. Decrypt to see the pool and option totals.';
+    }
+    return isBettingOpen
+      ? 'Totals stay encrypted until betting closes.'
+      : 'Betting has closed. Reveal the totals to make them decryptable.';
+  };
+
+  const renderPredictionCard = (prediction: PredictionSummary) => (
+    <button
+      type="button"
+      key={`prediction-${prediction.id.toString()}`}
+      className={`prediction-card ${prediction.id === selectedPredictionId ? 'active' : ''}`}
+      onClick={() => {
+        setSelectedPredictionId(prediction.id);
+        setSelectedOptionIndex(null);
+        setDecryptedTotals(null);
+        setDecryptedBet(null);
+      }}
+    >
+      <div className="prediction-card__meta">
+        <div className="prediction-card__title">
+          <h3>{prediction.name}</h3>
+          <span className={`status-badge status-${PREDICTION_STATES[currentState(prediction, now)].toLowerCase()}`}>
+            {PREDICTION_STATES[currentState(prediction, now)]}
+          </span>
+          {prediction.hidden && <span className="status-badge status-hidden">Hidden</span>}
+        </div>
+        {seriesRounds.has(prediction.id) && (
+          <span className="series-tag">Round {seriesRounds.get(prediction.id)?.round.toString()}</span>
+        )}
+        {prediction.details.category && <span className="category-tag">{prediction.details.category}</span>}
+        <p>
+          Created {new Date(Number(prediction.createdAt) * 1000).toLocaleDateString()} • {prediction.options.length}{' '}
+          options • {prediction.bettorCount.toString()} {prediction.bettorCount === 1n ? 'bettor' : 'bettors'} •{' '}
+          {describeSchedule(prediction, now)}
+        </p>
+      </div>
+      <div className="prediction-card__options">
+        {prediction.options.map((option, index) => (
+          <span className="prediction-chip" key={`option-preview-${prediction.id}-${index}`}>
+            {option}
+          </span>
+        ))}
+      </div>
+    </button>
+  );
 
   return (
     <section className="card">
@@ -337,40 +1118,77 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
             locally.
           </p>
         </div>
-        <button className="ghost-button" type="button" onClick={() => loadOnChainData()}>
-          Refresh on-chain data
-        </button>
-      </header>
-
-      <div className="prediction-list">
-        {predictions.map((prediction) => (
-          <button
-            type="button"
-            key={`prediction-${prediction.id.toString()}`}
-            className={`prediction-card ${prediction.id === selectedPredictionId ? 'active' : ''}`}
-            onClick={() => {
-              setSelectedPredictionId(prediction.id);
+        <div className="card-actions">
+          <select
+            className="list-filter"
+            value={listFilter}
+            onChange={(event) => {
+              setListFilter(event.target.value as ListFilter);
+              setSelectedPredictionId(null);
               setSelectedOptionIndex(null);
               setDecryptedTotals(null);
               setDecryptedBet(null);
             }}
           >
-            <div className="prediction-card__meta">
-              <h3>{prediction.name}</h3>
-              <p>
-                Created {new Date(Number(prediction.createdAt) * 1000).toLocaleDateString()} •{' '}
-                {prediction.options.length} options
-              </p>
-            </div>
-            <div className="prediction-card__options">
-              {prediction.options.map((option, index) => (
-                <span className="prediction-chip" key={`option-preview-${prediction.id}-${index}`}>
-                  {option}
-                </span>
+            {LIST_FILTERS.map((filter) => (
+              <option key={filter.value} value={filter.value}>
+                {filter.label}
+              </option>
+            ))}
+            <optgroup label="Categories">
+              {MARKET_CATEGORIES.map((category) => (
+                <option key={category} value={`${CATEGORY_FILTER_PREFIX}${category}`}>
+                  {category}
+                </option>
               ))}
-            </div>
+            </optgroup>
+            {seriesList.length > 0 && (
+              <optgroup label="Series">
+                {seriesList.map((series) => (
+                  <option key={series.id.toString()} value={`${SERIES_FILTER_PREFIX}${series.id.toString()}`}>
+                    {series.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          <button className="ghost-button" type="button" onClick={() => loadOnChainData()}>
+            Refresh on-chain data
           </button>
-        ))}
+        </div>
+      </header>
+
+      <div className="prediction-list">
+        {predictions.length === 0 && (
+          <p className="muted-text">
+            {predictionsLoading
+              ? 'Loading predictions...'
+              : needsAccount && !address
+                ? 'Connect your wallet to see your markets.'
+                : 'No markets match this filter.'}
+          </p>
+        )}
+        {listGroups.map(({ series, predictions: rounds }) =>
+          series ? (
+            <div className="prediction-series" key={`series-${series.id.toString()}`}>
+              <div className="prediction-series__header">
+                <h3>{series.name}</h3>
+                <span className="muted-text">
+                  Series • {series.roundCount.toString()} {series.roundCount === 1n ? 'round' : 'rounds'}
+                  {series.ended ? ' • ended' : ''}
+                </span>
+              </div>
+              {rounds.map(renderPredictionCard)}
+            </div>
+          ) : (
+            renderPredictionCard(rounds[0])
+          ),
+        )}
+        {nextPageParam !== null && (
+          <div className="prediction-list__sentinel" ref={listSentinelRef}>
+            {isFetchingNextPage ? 'Loading more predictions...' : ''}
+          </div>
+        )}
       </div>
 
       {activePrediction && (
@@ -378,7 +1196,72 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
           <div className="bet-section">
             <div className="bet-details">
               <h3>Place encrypted bet</h3>
-              <p>Select an option and enter the ETH amount to wager.</p>
+              <p>
+                {!isBettingOpen
+                  ? 'Betting is closed for this prediction.'
+                  : activePrediction.collateralType === COLLATERAL_ERC20
+                    ? 'Select an option and a token amount. The option stays encrypted; the amount is public.'
+                    : isNativeCollateral
+                      ? 'Select an option and an ETH amount from your confidential balance. Both stay encrypted.'
+                      : 'Select an option and an amount of the confidential token. Both stay encrypted.'}
+              </p>
+              <p className="muted-text">
+                Collateral: {COLLATERAL_LABELS[activePrediction.collateralType] ?? 'Unknown'}
+                {tokenMeta && !isNativeCollateral ? ` (${tokenMeta.symbol})` : ''} • Resolved by{' '}
+                {activePrediction.resolver.toLowerCase() === activePrediction.creator.toLowerCase()
+                  ? 'the creator'
+                  : activePrediction.resolver}{' '}
+                • Fees {formatBps(activePrediction.protocolFeeBps)} protocol,{' '}
+                {formatBps(activePrediction.creatorFeeBps)} creator
+              </p>
+              {limitsText && <p className="muted-text">{limitsText}</p>}
+              {activeRound && (
+                <div className="series-round">
+                  <p className="muted-text">
+                    Round {activeRound.round.toString()} of {activeRound.series.roundCount.toString()} in the{' '}
+                    {activeRound.series.name} series{activeRound.series.ended ? ', which has ended' : ''}.
+                  </p>
+                  {canSpawnRound && (
+                    <button type="button" className="ghost-button" onClick={() => handleSpawnRound(activeRound.series)}>
+                      Spawn next round
+                    </button>
+                  )}
+                </div>
+              )}
+              {scalarRange && (
+                <p className="muted-text">
+                  Scalar market over {scalarRange.lowerBound.toString()} to {scalarRange.upperBound.toString()}: values
+                  outside the range count for the first or last bucket.
+                  {scalarRange.reported ? ` Resolved with the value ${scalarRange.value.toString()}.` : ''}
+                </p>
+              )}
+              {activePrediction.details.description && (
+                <p className="prediction-description">{activePrediction.details.description}</p>
+              )}
+              {(activePrediction.details.resolutionCriteria || activePrediction.details.source) && (
+                <dl className="prediction-resolution">
+                  {activePrediction.details.resolutionCriteria && (
+                    <div>
+                      <dt>Resolution criteria</dt>
+                      <dd>{activePrediction.details.resolutionCriteria}</dd>
+                    </div>
+                  )}
+                  {activePrediction.details.source && (
+                    <div>
+                      <dt>Source</dt>
+                      <dd>
+                        {isLink(activePrediction.details.source) ? (
+                          <a href={activePrediction.details.source} target="_blank" rel="noreferrer">
+                            {activePrediction.details.source}
+                          </a>
+                        ) : (
+                          <code>{activePrediction.details.source}</code>
+                        )}
+                      </dd>
+                    </div>
+                  )}
+                </dl>
+              )}
             </div>
             <div className="bet-options">
               {activePrediction.options.map((option, index) => (
@@ -391,6 +1274,7 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
                     onChange={() => setSelectedOptionIndex(index)}
                   />
                   <span>{option}</span>
+                  {odds?.[index] && <span className="option-odds">{formatOdds(odds[index])}</span>}
                 </label>
               ))}
             </div>
@@ -401,10 +1285,16 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
                 onChange={(event) => setBetAmount(event.target.value)}
                 placeholder="0.05"
               />
-              <button className="primary-button" type="button" onClick={handlePlaceBet} disabled={zamaLoading}>
+              <button
+                className="primary-button"
+                type="button"
+                onClick={handlePlaceBet}
+                disabled={zamaLoading || !isBettingOpen}
+              >
                 {zamaLoading ? 'Loading encryption' : 'Place Bet'}
               </button>
             </div>
+            <p className="muted-text payout-preview">{describePreview()}</p>
             <div className="form-messages">
               {betStatus && <p className="status-message">{betStatus}</p>}
               {decryptStatus && <p className="status-message">{decryptStatus}</p>}
@@ -417,21 +1307,85 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
             <div className="encrypted-card">
               <div className="encrypted-card__header">
                 <div>
-                  <h3>Encrypted pool totals</h3>
-                  <p className="muted-text">
-                    {isFetchingChainData ? 'Fetching...' : 'Decrypt to reveal the ETH totals client-side.'}
-                  </p>
+                  <h3>Confidential balance</h3>
+                  <p className="muted-text">Deposit ETH once, then bet encrypted amounts from this balance.</p>
+                </div>
+                <button type="button" className="ghost-button" onClick={handleDecryptBalance} disabled={!address}>
+                  Decrypt balance
+                </button>
+              </div>
+
+              {balanceHandle && balanceHandle !== ZERO_HANDLE && (
+                <div className="encrypted-values">
+                  <div className="encrypted-row">
+                    <span className="muted-text">Balance handle</span>
+                    <code>{balanceHandle}</code>
+                  </div>
                 </div>
+              )}
+
+              <div className="balance-controls">
+                <input
+                  className="text-input"
+                  value={depositAmount}
+                  onChange={(event) => setDepositAmount(event.target.value)}
+                  placeholder="0.5"
+                />
+                <button type="button" className="ghost-button" onClick={handleDeposit} disabled={!address}>
+                  Deposit
+                </button>
+              </div>
+              <div className="balance-controls">
+                <input
+                  className="text-input"
+                  value={withdrawAmount}
+                  onChange={(event) => setWithdrawAmount(event.target.value)}
+                  placeholder="0.1"
+                />
                 <button
                   type="button"
                   className="ghost-button"
-                  onClick={handleDecryptTotals}
-                  disabled={!totalsData || totalsData.totals.length === 0}
+                  onClick={handleWithdraw}
+                  disabled={!address || zamaLoading}
                 >
-                  Decrypt totals
+                  Withdraw
                 </button>
               </div>
 
+              <div className="form-messages">
+                {balanceStatus && <p className="status-message">{balanceStatus}</p>}
+                {balanceError && <p className="error-message">{balanceError}</p>}
+              </div>
+
+              {decryptedBalance !== null && (
+                <div className="decrypted-values">
+                  <p>Balance: {formatWei(decryptedBalance)}</p>
+                </div>
+              )}
+            </div>
+
+            <div className="encrypted-card">
+              <div className="encrypted-card__header">
+                <div>
+                  <h3>Encrypted pool totals</h3>
+                  <p className="muted-text">{describeTotals()}</p>
+                </div>
+                {totalsData && !totalsData.revealed && !isBettingOpen ? (
+                  <button type="button" className="ghost-button" onClick={handleRevealTotals}>
+                    Reveal totals
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    className="ghost-button"
+                    onClick={handleDecryptTotals}
+                    disabled={!totalsData || !totalsData.revealed || totalsData.totals.length === 0}
+                  >
+                    Decrypt totals
+                  </button>
+                )}
+              </div>
+
               {totalsData && (
                 <div className="encrypted-values">
                   <div className="encrypted-row">
@@ -452,10 +1406,10 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
               {decryptedTotals && (
                 <div className="decrypted-values">
                   <p className="muted-text">Decrypted values</p>
-                  <p>Pool: {formatWei(decryptedTotals.pool)}</p>
+                  <p>Pool: {formatStake(decryptedTotals.pool)}</p>
                   {decryptedTotals.options.map((value, index) => (
                     <p key={`decrypted-${index}`}>
-                      Option {index + 1}: {formatWei(value)}
+                      Option {index + 1}: {formatStake(value)}
                     </p>
                   ))}
                 </div>
@@ -465,8 +1419,8 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
             <div className="encrypted-card">
               <div className="encrypted-card__header">
                 <div>
-                  <h3>My encrypted bet</h3>
-                  <p className="muted-text">Decrypt to reveal your amount and chosen index.</p>
+                  <h3>My encrypted position</h3>
+                  <p className="muted-text">Bet again to top up. Decrypt to reveal your stake on each option.</p>
                 </div>
                 <button
                   type="button"
@@ -474,35 +1428,68 @@ export function PredictionDashboard({ refreshKey }: DashboardProps) {
                   onClick={handleDecryptMyBet}
                   disabled={!userBetHandles?.hasBet}
                 >
-                  Decrypt my bet
+                  Decrypt my position
                 </button>
               </div>
 
               {userBetHandles?.hasBet ? (
                 <>
                   <div className="encrypted-row">
-                    <span className="muted-text">Amount handle</span>
+                    <span className="muted-text">Total stake handle</span>
                     <code>{userBetHandles.amount}</code>
                   </div>
-                  <div className="encrypted-row">
-                    <span className="muted-text">Selection handle</span>
-                    <code>{userBetHandles.selection}</code>
-                  </div>
+                  {userBetHandles.positions.map((handle, index) => (
+                    <div className="encrypted-row" key={`position-${handle}-${index}`}>
+                      <span className="muted-text">
+                        Position {index + 1}: {activePrediction.options[index]}
+                      </span>
+                      <code>{handle}</code>
+                    </div>
+                  ))}
                 </>
               ) : (
                 <p className="muted-text">No bet found for the connected wallet.</p>
               )}
 
+              {isCancelled && userBetHandles?.hasBet && (
+                <div className="refund-row">
+                  {claimState?.paidOut ? (
+                    <p className="muted-text">Your stake has been refunded.</p>
+                  ) : (
+                    <>
+                      <p className="muted-text">This prediction was cancelled. Your stake can be refunded.</p>
+                      <button
+                        type="button"
+                        className="primary-button"
+                        onClick={handleClaimRefund}
+                        disabled={zamaLoading}
+                      >
+                        Claim refund
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+
               {decryptedBet && (
                 <div className="decrypted-values">
-                  <p>Amount: {formatWei(decryptedBet.amount)}</p>
-                  <p>
-                    Selection: {activePrediction.options[decryptedBet.selectionIndex] ?? 'Unknown'} (index{' '}
-                    {decryptedBet.selectionIndex})
-                  </p>
+                  <p>Total stake: {formatStake(decryptedBet.amount)}</p>
+                  {decryptedBet.positions.map((value, index) => (
+                    <p key={`decrypted-position-${index}`}>
+                      {activePrediction.options[index]}: {formatStake(value)}
+                      {positionPayouts ? ` • pays ${formatStake(positionPayouts[index])} if it wins` : ''}
+                    </p>
+                  ))}
                 </div>
               )}
             </div>
+
+            <PredictionActivity
+              predictionId={activePrediction.id}
+              bettorCount={activePrediction.bettorCount}
+              now={now}
+              onNewBets={() => refreshPrediction(activePrediction.id)}
+            />
           </div>
         </>
       )}
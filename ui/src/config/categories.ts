@@ -0,0 +1,3 @@
+// Suggested when creating a prediction and offered as list filters. Creators may tag a prediction with any category up
+// to `MAX_CATEGORY_LENGTH` bytes, and the contract matches categories exactly.
+export const MARKET_CATEGORIES = ["sports", "crypto", "politics", "economics", "weather", "entertainment"];
@@ -1,325 +1,3758 @@
-// export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
-export const CONTRACT_ADDRESS = "0x39Ae2Db821B6a21DA19b88d3246B5AE6989A480d";
+// Generated by `npx hardhat task:export-frontend` from the hardhat-deploy artifacts. Do not edit by hand.
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// FHEPredictionMarket deployments by chain id.
+export const CONTRACT_ADDRESSES: Record<number, `0x${string}`> = {};
+
+// Block each FHEPredictionMarket was deployed in, the first one worth scanning for its events.
+export const DEPLOYMENT_BLOCKS: Record<number, number> = {};
+
+// PredictionSeries deployments by chain id.
+export const SERIES_ADDRESSES: Record<number, `0x${string}`> = {};
 
 export const CONTRACT_ABI = [
   {
-    "inputs": [],
-    "name": "BetAlreadyPlaced",
-    "type": "error"
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyClaimed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BetFundingMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BettingClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BettingStillOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CategoryTooLong",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ClaimNotStarted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DescriptionTooLong",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EmptyName",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EmptyOption",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FeeTooHigh",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidAddress",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBetAmount",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBetLimits",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBettingCloseTime",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidCollateral",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidDepositAmount",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidOptionsCount",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidPrediction",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidResolutionDeadline",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidScalarRange",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidWinningOption",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MarketNotPaused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MarketPaused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoBetPlaced",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoFeesToWithdraw",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoPendingWithdrawal",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoScore",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotAdmin",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPendingOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPredictionCreator",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPredictionResolver",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotScalarPrediction",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "OutcomeNotAvailable",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PoolCapExceeded",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PredictionAlreadyResolved",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PredictionIsCancelled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PredictionNotCancelled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PredictionNotResolved",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ResolutionCriteriaTooLong",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ResolutionTotalsAlreadyPublished",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ResolutionTotalsNotPublished",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ScoreAlreadyRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SourceTooLong",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TotalsAlreadyRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WithdrawalPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WrongCollateral",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ZamaProtocolUnsupported",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isAdmin",
+        type: "bool",
+      },
+    ],
+    name: "AdminUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedSelection",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "confidential",
+        type: "bool",
+      },
+    ],
+    name: "BetPlaced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Deposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+    ],
+    name: "FeeRecipientUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "protocolFee",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "creatorFee",
+        type: "uint64",
+      },
+    ],
+    name: "FeesAccrued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "beneficiary",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum FHEPredictionMarket.CollateralType",
+        name: "collateralType",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "FeesWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PayoutReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "PredictionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "resolver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "optionCount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bettingClosesAt",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "resolutionDeadline",
+        type: "uint256",
+      },
+    ],
+    name: "PredictionCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "hidden",
+        type: "bool",
+      },
+    ],
+    name: "PredictionHidden",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "winningOption",
+        type: "uint8",
+      },
+    ],
+    name: "PredictionResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint16",
+        name: "feeBps",
+        type: "uint16",
+      },
+    ],
+    name: "ProtocolFeeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "handlesList",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "abiEncodedCleartexts",
+        type: "bytes",
+      },
+    ],
+    name: "PublicDecryptionVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+    ],
+    name: "RefundClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "pool",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "winningTotal",
+        type: "uint64",
+      },
+    ],
+    name: "ResolutionTotalsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "int256",
+        name: "value",
+        type: "int256",
+      },
+    ],
+    name: "ScalarValueReported",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "ScoreRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "TotalsRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedPayout",
+        type: "bytes32",
+      },
+    ],
+    name: "WinningsClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+    ],
+    name: "WithdrawalRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_CATEGORY_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_CREATOR_FEE_BPS",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_CRITERIA_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_DESCRIPTION_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_OPTIONS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PROTOCOL_FEE_BPS",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SOURCE_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "adminCancelPrediction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelPrediction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "claimWinnings",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialProtocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string[]",
+        name: "options",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256",
+        name: "bettingClosesAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "resolutionDeadline",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "resolver",
+        type: "address",
+      },
+      {
+        internalType: "enum FHEPredictionMarket.CollateralType",
+        name: "collateralType",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "collateralToken",
+        type: "address",
+      },
+      {
+        internalType: "uint16",
+        name: "creatorFeeBps",
+        type: "uint16",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "description",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "resolutionCriteria",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "source",
+            type: "string",
+          },
+        ],
+        internalType: "struct FHEPredictionMarket.PredictionDetails",
+        name: "details",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "uint64",
+            name: "minBet",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "maxBet",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "maxPool",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct FHEPredictionMarket.BetLimits",
+        name: "limits",
+        type: "tuple",
+      },
+    ],
+    name: "createPrediction",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string[]",
+        name: "buckets",
+        type: "string[]",
+      },
+      {
+        internalType: "int256",
+        name: "lowerBound",
+        type: "int256",
+      },
+      {
+        internalType: "int256",
+        name: "upperBound",
+        type: "int256",
+      },
+      {
+        internalType: "uint256",
+        name: "bettingClosesAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "resolutionDeadline",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "resolver",
+        type: "address",
+      },
+      {
+        internalType: "enum FHEPredictionMarket.CollateralType",
+        name: "collateralType",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "collateralToken",
+        type: "address",
+      },
+      {
+        internalType: "uint16",
+        name: "creatorFeeBps",
+        type: "uint16",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "description",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "resolutionCriteria",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "source",
+            type: "string",
+          },
+        ],
+        internalType: "struct FHEPredictionMarket.PredictionDetails",
+        name: "details",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "uint64",
+            name: "minBet",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "maxBet",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "maxPool",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct FHEPredictionMarket.BetLimits",
+        name: "limits",
+        type: "tuple",
+      },
+    ],
+    name: "createScalarPrediction",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "deposit",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "abiEncodedClearValues",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "finalizeClaim",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "abiEncodedClearValues",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "finalizeWithdrawal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "beneficiary",
+        type: "address",
+      },
+      {
+        internalType: "enum FHEPredictionMarket.CollateralType",
+        name: "collateralType",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "getAccruedFees",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "getBetLimits",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "minBet",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "maxBet",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "maxPool",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getClaim",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "encryptedPayout",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "claimed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "paidOut",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getEncryptedBalance",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedTotals",
+    outputs: [
+      {
+        internalType: "euint64[]",
+        name: "totals",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "euint64",
+        name: "pool",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getFeeConfig",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "protocolFeeBps",
+        type: "uint16",
+      },
+      {
+        internalType: "address",
+        name: "feeRecipient",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getPendingWithdrawal",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "pending",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getPredictionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "getPredictionFees",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "protocolFeeBps",
+        type: "uint16",
+      },
+      {
+        internalType: "uint16",
+        name: "creatorFeeBps",
+        type: "uint16",
+      },
+      {
+        internalType: "uint64",
+        name: "protocolFee",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "creatorFee",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "getPredictionMetadata",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string[]",
+            name: "options",
+            type: "string[]",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "resolver",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "bettingClosesAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "resolutionDeadline",
+            type: "uint256",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.PredictionState",
+            name: "state",
+            type: "uint8",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.CollateralType",
+            name: "collateralType",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "collateralToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "bettorCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint16",
+            name: "protocolFeeBps",
+            type: "uint16",
+          },
+          {
+            internalType: "uint16",
+            name: "creatorFeeBps",
+            type: "uint16",
+          },
+          {
+            internalType: "bool",
+            name: "hidden",
+            type: "bool",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.MarketType",
+            name: "marketType",
+            type: "uint8",
+          },
+          {
+            components: [
+              {
+                internalType: "string",
+                name: "description",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "category",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "resolutionCriteria",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "source",
+                type: "string",
+              },
+            ],
+            internalType: "struct FHEPredictionMarket.PredictionDetails",
+            name: "details",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct FHEPredictionMarket.PredictionSummary",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "getPredictionState",
+    outputs: [
+      {
+        internalType: "enum FHEPredictionMarket.PredictionState",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "getResolution",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "resolved",
+        type: "bool",
+      },
+      {
+        internalType: "uint8",
+        name: "winningOption",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "totalsPublished",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "pool",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "winningTotal",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        internalType: "int256",
+        name: "value",
+        type: "int256",
+      },
+    ],
+    name: "getScalarBucket",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "getScalarRange",
+    outputs: [
+      {
+        internalType: "int256",
+        name: "lowerBound",
+        type: "int256",
+      },
+      {
+        internalType: "int256",
+        name: "upperBound",
+        type: "int256",
+      },
+      {
+        internalType: "bool",
+        name: "reported",
+        type: "bool",
+      },
+      {
+        internalType: "int256",
+        name: "value",
+        type: "int256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getScore",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "staked",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "returned",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "marketsClaimed",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getUserBet",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "encryptedSelection",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "hasBet",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getUserPositions",
+    outputs: [
+      {
+        internalType: "euint64[]",
+        name: "positions",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bool",
+        name: "hasBet",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isAdmin",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "listLeaderboard",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "user",
+            type: "address",
+          },
+          {
+            internalType: "euint64",
+            name: "staked",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "returned",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "marketsClaimed",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct FHEPredictionMarket.LeaderboardEntry[]",
+        name: "page",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "listPredictions",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string[]",
+            name: "options",
+            type: "string[]",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "resolver",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "bettingClosesAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "resolutionDeadline",
+            type: "uint256",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.PredictionState",
+            name: "state",
+            type: "uint8",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.CollateralType",
+            name: "collateralType",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "collateralToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "bettorCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint16",
+            name: "protocolFeeBps",
+            type: "uint16",
+          },
+          {
+            internalType: "uint16",
+            name: "creatorFeeBps",
+            type: "uint16",
+          },
+          {
+            internalType: "bool",
+            name: "hidden",
+            type: "bool",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.MarketType",
+            name: "marketType",
+            type: "uint8",
+          },
+          {
+            components: [
+              {
+                internalType: "string",
+                name: "description",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "category",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "resolutionCriteria",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "source",
+                type: "string",
+              },
+            ],
+            internalType: "struct FHEPredictionMarket.PredictionDetails",
+            name: "details",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct FHEPredictionMarket.PredictionSummary[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "bettor",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "listPredictionsByBettor",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string[]",
+            name: "options",
+            type: "string[]",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "resolver",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "bettingClosesAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "resolutionDeadline",
+            type: "uint256",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.PredictionState",
+            name: "state",
+            type: "uint8",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.CollateralType",
+            name: "collateralType",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "collateralToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "bettorCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint16",
+            name: "protocolFeeBps",
+            type: "uint16",
+          },
+          {
+            internalType: "uint16",
+            name: "creatorFeeBps",
+            type: "uint16",
+          },
+          {
+            internalType: "bool",
+            name: "hidden",
+            type: "bool",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.MarketType",
+            name: "marketType",
+            type: "uint8",
+          },
+          {
+            components: [
+              {
+                internalType: "string",
+                name: "description",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "category",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "resolutionCriteria",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "source",
+                type: "string",
+              },
+            ],
+            internalType: "struct FHEPredictionMarket.PredictionDetails",
+            name: "details",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct FHEPredictionMarket.PredictionSummary[]",
+        name: "page",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "listPredictionsByCategory",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string[]",
+            name: "options",
+            type: "string[]",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "resolver",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "bettingClosesAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "resolutionDeadline",
+            type: "uint256",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.PredictionState",
+            name: "state",
+            type: "uint8",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.CollateralType",
+            name: "collateralType",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "collateralToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "bettorCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint16",
+            name: "protocolFeeBps",
+            type: "uint16",
+          },
+          {
+            internalType: "uint16",
+            name: "creatorFeeBps",
+            type: "uint16",
+          },
+          {
+            internalType: "bool",
+            name: "hidden",
+            type: "bool",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.MarketType",
+            name: "marketType",
+            type: "uint8",
+          },
+          {
+            components: [
+              {
+                internalType: "string",
+                name: "description",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "category",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "resolutionCriteria",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "source",
+                type: "string",
+              },
+            ],
+            internalType: "struct FHEPredictionMarket.PredictionDetails",
+            name: "details",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct FHEPredictionMarket.PredictionSummary[]",
+        name: "page",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "listPredictionsByCreator",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string[]",
+            name: "options",
+            type: "string[]",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "resolver",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "bettingClosesAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "resolutionDeadline",
+            type: "uint256",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.PredictionState",
+            name: "state",
+            type: "uint8",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.CollateralType",
+            name: "collateralType",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "collateralToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "bettorCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint16",
+            name: "protocolFeeBps",
+            type: "uint16",
+          },
+          {
+            internalType: "uint16",
+            name: "creatorFeeBps",
+            type: "uint16",
+          },
+          {
+            internalType: "bool",
+            name: "hidden",
+            type: "bool",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.MarketType",
+            name: "marketType",
+            type: "uint8",
+          },
+          {
+            components: [
+              {
+                internalType: "string",
+                name: "description",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "category",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "resolutionCriteria",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "source",
+                type: "string",
+              },
+            ],
+            internalType: "struct FHEPredictionMarket.PredictionDetails",
+            name: "details",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct FHEPredictionMarket.PredictionSummary[]",
+        name: "page",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum FHEPredictionMarket.PredictionState",
+        name: "state",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "cursor",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxScan",
+        type: "uint256",
+      },
+    ],
+    name: "listPredictionsByState",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string[]",
+            name: "options",
+            type: "string[]",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "resolver",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "bettingClosesAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "resolutionDeadline",
+            type: "uint256",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.PredictionState",
+            name: "state",
+            type: "uint8",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.CollateralType",
+            name: "collateralType",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "collateralToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "bettorCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint16",
+            name: "protocolFeeBps",
+            type: "uint16",
+          },
+          {
+            internalType: "uint16",
+            name: "creatorFeeBps",
+            type: "uint16",
+          },
+          {
+            internalType: "bool",
+            name: "hidden",
+            type: "bool",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.MarketType",
+            name: "marketType",
+            type: "uint8",
+          },
+          {
+            components: [
+              {
+                internalType: "string",
+                name: "description",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "category",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "resolutionCriteria",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "source",
+                type: "string",
+              },
+            ],
+            internalType: "struct FHEPredictionMarket.PredictionDetails",
+            name: "details",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct FHEPredictionMarket.PredictionSummary[]",
+        name: "page",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "nextCursor",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "listPredictionsPaged",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string[]",
+            name: "options",
+            type: "string[]",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "resolver",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "bettingClosesAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "resolutionDeadline",
+            type: "uint256",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.PredictionState",
+            name: "state",
+            type: "uint8",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.CollateralType",
+            name: "collateralType",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "collateralToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "bettorCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint16",
+            name: "protocolFeeBps",
+            type: "uint16",
+          },
+          {
+            internalType: "uint16",
+            name: "creatorFeeBps",
+            type: "uint16",
+          },
+          {
+            internalType: "bool",
+            name: "hidden",
+            type: "bool",
+          },
+          {
+            internalType: "enum FHEPredictionMarket.MarketType",
+            name: "marketType",
+            type: "uint8",
+          },
+          {
+            components: [
+              {
+                internalType: "string",
+                name: "description",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "category",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "resolutionCriteria",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "source",
+                type: "string",
+              },
+            ],
+            internalType: "struct FHEPredictionMarket.PredictionDetails",
+            name: "details",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct FHEPredictionMarket.PredictionSummary[]",
+        name: "page",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedSelection",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "placeConfidentialBet",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedSelection",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "placeConfidentialTokenBet",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedSelection",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "placeEncryptedBet",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
   },
   {
-    "inputs": [],
-    "name": "EmptyName",
-    "type": "error"
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedSelection",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "amount",
+        type: "uint64",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "placeTokenBet",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
   },
   {
-    "inputs": [],
-    "name": "EmptyOption",
-    "type": "error"
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "abiEncodedClearValues",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "publishResolutionTotals",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
   },
   {
-    "inputs": [],
-    "name": "InvalidBetAmount",
-    "type": "error"
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "refund",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
   },
   {
-    "inputs": [],
-    "name": "InvalidOptionsCount",
-    "type": "error"
+    inputs: [
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "requestWithdrawal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
   },
   {
-    "inputs": [],
-    "name": "InvalidPrediction",
-    "type": "error"
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "resolveFromOracle",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
   },
   {
-    "inputs": [],
-    "name": "ZamaProtocolUnsupported",
-    "type": "error"
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "winningOption",
+        type: "uint8",
+      },
+    ],
+    name: "resolvePrediction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
   },
   {
-    "anonymous": false,
-    "inputs": [
+    inputs: [
       {
-        "indexed": true,
-        "internalType": "uint256",
-        "name": "predictionId",
-        "type": "uint256"
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
       },
       {
-        "indexed": true,
-        "internalType": "address",
-        "name": "user",
-        "type": "address"
+        internalType: "int256",
+        name: "value",
+        type: "int256",
       },
+    ],
+    name: "resolveScalarPrediction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "revealScore",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        "indexed": false,
-        "internalType": "bytes32",
-        "name": "encryptedAmount",
-        "type": "bytes32"
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
       },
+    ],
+    name: "revealTotals",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        "indexed": false,
-        "internalType": "bytes32",
-        "name": "encryptedSelection",
-        "type": "bytes32"
+        internalType: "address",
+        name: "account",
+        type: "address",
       },
       {
-        "indexed": false,
-        "internalType": "uint256",
-        "name": "clearAmount",
-        "type": "uint256"
-      }
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
     ],
-    "name": "BetPlaced",
-    "type": "event"
+    name: "setAdmin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
   },
   {
-    "anonymous": false,
-    "inputs": [
+    inputs: [
       {
-        "indexed": true,
-        "internalType": "uint256",
-        "name": "predictionId",
-        "type": "uint256"
+        internalType: "address",
+        name: "recipient",
+        type: "address",
       },
+    ],
+    name: "setFeeRecipient",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        "indexed": true,
-        "internalType": "address",
-        "name": "creator",
-        "type": "address"
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
       },
       {
-        "indexed": false,
-        "internalType": "string",
-        "name": "name",
-        "type": "string"
+        internalType: "bool",
+        name: "hidden",
+        type: "bool",
       },
+    ],
+    name: "setPredictionHidden",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        "indexed": false,
-        "internalType": "uint256",
-        "name": "optionCount",
-        "type": "uint256"
-      }
+        internalType: "uint16",
+        name: "feeBps",
+        type: "uint16",
+      },
     ],
-    "name": "PredictionCreated",
-    "type": "event"
+    name: "setProtocolFee",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
   },
   {
-    "inputs": [],
-    "name": "confidentialProtocolId",
-    "outputs": [
+    inputs: [
       {
-        "internalType": "uint256",
-        "name": "",
-        "type": "uint256"
-      }
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
     ],
-    "stateMutability": "view",
-    "type": "function"
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
   },
   {
-    "inputs": [
+    inputs: [
+      {
+        internalType: "enum FHEPredictionMarket.CollateralType",
+        name: "collateralType",
+        type: "uint8",
+      },
       {
-        "internalType": "string",
-        "name": "name",
-        "type": "string"
+        internalType: "address",
+        name: "token",
+        type: "address",
       },
+    ],
+    name: "withdrawFees",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export const SERIES_ABI = [
+  {
+    inputs: [
       {
-        "internalType": "string[]",
-        "name": "options",
-        "type": "string[]"
-      }
+        internalType: "contract FHEPredictionMarket",
+        name: "market_",
+        type: "address",
+      },
     ],
-    "name": "createPrediction",
-    "outputs": [
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidConfiguration",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSeries",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotKeeper",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotSeriesOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RoundStillOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SeriesNotActive",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
       {
-        "internalType": "uint256",
-        "name": "",
-        "type": "uint256"
-      }
+        indexed: true,
+        internalType: "address",
+        name: "keeper",
+        type: "address",
+      },
     ],
-    "stateMutability": "nonpayable",
-    "type": "function"
+    name: "KeeperUpdated",
+    type: "event",
   },
   {
-    "inputs": [
+    anonymous: false,
+    inputs: [
       {
-        "internalType": "uint256",
-        "name": "predictionId",
-        "type": "uint256"
-      }
+        indexed: true,
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "round",
+        type: "uint256",
+      },
     ],
-    "name": "getEncryptedTotals",
-    "outputs": [
+    name: "RoundSpawned",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
       {
-        "internalType": "euint64[]",
-        "name": "",
-        "type": "bytes32[]"
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
       },
       {
-        "internalType": "euint64",
-        "name": "",
-        "type": "bytes32"
-      }
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
     ],
-    "stateMutability": "view",
-    "type": "function"
+    name: "SeriesCreated",
+    type: "event",
   },
   {
-    "inputs": [],
-    "name": "getPredictionCount",
-    "outputs": [
+    anonymous: false,
+    inputs: [
       {
-        "internalType": "uint256",
-        "name": "",
-        "type": "uint256"
-      }
+        indexed: true,
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
     ],
-    "stateMutability": "view",
-    "type": "function"
+    name: "SeriesEnded",
+    type: "event",
   },
   {
-    "inputs": [
+    inputs: [
       {
-        "internalType": "uint256",
-        "name": "predictionId",
-        "type": "uint256"
-      }
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
     ],
-    "name": "getPredictionMetadata",
-    "outputs": [
+    name: "cancelRound",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        "components": [
+        components: [
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
           {
-            "internalType": "uint256",
-            "name": "id",
-            "type": "uint256"
+            internalType: "string[]",
+            name: "options",
+            type: "string[]",
           },
           {
-            "internalType": "string",
-            "name": "name",
-            "type": "string"
+            internalType: "address",
+            name: "resolver",
+            type: "address",
           },
           {
-            "internalType": "string[]",
-            "name": "options",
-            "type": "string[]"
+            internalType: "enum FHEPredictionMarket.CollateralType",
+            name: "collateralType",
+            type: "uint8",
           },
           {
-            "internalType": "address",
-            "name": "creator",
-            "type": "address"
+            internalType: "address",
+            name: "collateralToken",
+            type: "address",
           },
           {
-            "internalType": "uint256",
-            "name": "createdAt",
-            "type": "uint256"
-          }
+            internalType: "uint256",
+            name: "bettingDuration",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "resolutionWindow",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "string",
+                name: "description",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "category",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "resolutionCriteria",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "source",
+                type: "string",
+              },
+            ],
+            internalType: "struct FHEPredictionMarket.PredictionDetails",
+            name: "details",
+            type: "tuple",
+          },
+          {
+            components: [
+              {
+                internalType: "uint64",
+                name: "minBet",
+                type: "uint64",
+              },
+              {
+                internalType: "uint64",
+                name: "maxBet",
+                type: "uint64",
+              },
+              {
+                internalType: "uint64",
+                name: "maxPool",
+                type: "uint64",
+              },
+            ],
+            internalType: "struct FHEPredictionMarket.BetLimits",
+            name: "limits",
+            type: "tuple",
+          },
         ],
-        "internalType": "struct FHEPredictionMarket.PredictionSummary",
-        "name": "",
-        "type": "tuple"
-      }
+        internalType: "struct PredictionSeries.Template",
+        name: "template",
+        type: "tuple",
+      },
+      {
+        internalType: "address",
+        name: "keeper",
+        type: "address",
+      },
+    ],
+    name: "createSeries",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
     ],
-    "stateMutability": "view",
-    "type": "function"
+    name: "endSeries",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
   },
   {
-    "inputs": [
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
+    ],
+    name: "getSeries",
+    outputs: [
       {
-        "internalType": "uint256",
-        "name": "predictionId",
-        "type": "uint256"
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "string",
+                name: "name",
+                type: "string",
+              },
+              {
+                internalType: "string[]",
+                name: "options",
+                type: "string[]",
+              },
+              {
+                internalType: "address",
+                name: "resolver",
+                type: "address",
+              },
+              {
+                internalType: "enum FHEPredictionMarket.CollateralType",
+                name: "collateralType",
+                type: "uint8",
+              },
+              {
+                internalType: "address",
+                name: "collateralToken",
+                type: "address",
+              },
+              {
+                internalType: "uint256",
+                name: "bettingDuration",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "resolutionWindow",
+                type: "uint256",
+              },
+              {
+                components: [
+                  {
+                    internalType: "string",
+                    name: "description",
+                    type: "string",
+                  },
+                  {
+                    internalType: "string",
+                    name: "category",
+                    type: "string",
+                  },
+                  {
+                    internalType: "string",
+                    name: "resolutionCriteria",
+                    type: "string",
+                  },
+                  {
+                    internalType: "string",
+                    name: "source",
+                    type: "string",
+                  },
+                ],
+                internalType: "struct FHEPredictionMarket.PredictionDetails",
+                name: "details",
+                type: "tuple",
+              },
+              {
+                components: [
+                  {
+                    internalType: "uint64",
+                    name: "minBet",
+                    type: "uint64",
+                  },
+                  {
+                    internalType: "uint64",
+                    name: "maxBet",
+                    type: "uint64",
+                  },
+                  {
+                    internalType: "uint64",
+                    name: "maxPool",
+                    type: "uint64",
+                  },
+                ],
+                internalType: "struct FHEPredictionMarket.BetLimits",
+                name: "limits",
+                type: "tuple",
+              },
+            ],
+            internalType: "struct PredictionSeries.Template",
+            name: "template",
+            type: "tuple",
+          },
+          {
+            internalType: "address",
+            name: "owner",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "keeper",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "roundCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "latestRound",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "nextRoundAt",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "ended",
+            type: "bool",
+          },
+        ],
+        internalType: "struct PredictionSeries.SeriesSummary",
+        name: "",
+        type: "tuple",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getSeriesCount",
+    outputs: [
       {
-        "internalType": "address",
-        "name": "user",
-        "type": "address"
-      }
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
     ],
-    "name": "getUserBet",
-    "outputs": [
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
       {
-        "internalType": "euint64",
-        "name": "encryptedAmount",
-        "type": "bytes32"
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
       },
+    ],
+    name: "getSeriesRounds",
+    outputs: [
       {
-        "internalType": "euint8",
-        "name": "encryptedSelection",
-        "type": "bytes32"
+        internalType: "uint256[]",
+        name: "page",
+        type: "uint256[]",
       },
       {
-        "internalType": "bool",
-        "name": "hasBet",
-        "type": "bool"
-      }
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
     ],
-    "stateMutability": "view",
-    "type": "function"
+    stateMutability: "view",
+    type: "function",
   },
   {
-    "inputs": [],
-    "name": "listPredictions",
-    "outputs": [
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
       {
-        "components": [
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "listSeries",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "string",
+                name: "name",
+                type: "string",
+              },
+              {
+                internalType: "string[]",
+                name: "options",
+                type: "string[]",
+              },
+              {
+                internalType: "address",
+                name: "resolver",
+                type: "address",
+              },
+              {
+                internalType: "enum FHEPredictionMarket.CollateralType",
+                name: "collateralType",
+                type: "uint8",
+              },
+              {
+                internalType: "address",
+                name: "collateralToken",
+                type: "address",
+              },
+              {
+                internalType: "uint256",
+                name: "bettingDuration",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "resolutionWindow",
+                type: "uint256",
+              },
+              {
+                components: [
+                  {
+                    internalType: "string",
+                    name: "description",
+                    type: "string",
+                  },
+                  {
+                    internalType: "string",
+                    name: "category",
+                    type: "string",
+                  },
+                  {
+                    internalType: "string",
+                    name: "resolutionCriteria",
+                    type: "string",
+                  },
+                  {
+                    internalType: "string",
+                    name: "source",
+                    type: "string",
+                  },
+                ],
+                internalType: "struct FHEPredictionMarket.PredictionDetails",
+                name: "details",
+                type: "tuple",
+              },
+              {
+                components: [
+                  {
+                    internalType: "uint64",
+                    name: "minBet",
+                    type: "uint64",
+                  },
+                  {
+                    internalType: "uint64",
+                    name: "maxBet",
+                    type: "uint64",
+                  },
+                  {
+                    internalType: "uint64",
+                    name: "maxPool",
+                    type: "uint64",
+                  },
+                ],
+                internalType: "struct FHEPredictionMarket.BetLimits",
+                name: "limits",
+                type: "tuple",
+              },
+            ],
+            internalType: "struct PredictionSeries.Template",
+            name: "template",
+            type: "tuple",
+          },
+          {
+            internalType: "address",
+            name: "owner",
+            type: "address",
+          },
           {
-            "internalType": "uint256",
-            "name": "id",
-            "type": "uint256"
+            internalType: "address",
+            name: "keeper",
+            type: "address",
           },
           {
-            "internalType": "string",
-            "name": "name",
-            "type": "string"
+            internalType: "uint256",
+            name: "roundCount",
+            type: "uint256",
           },
           {
-            "internalType": "string[]",
-            "name": "options",
-            "type": "string[]"
+            internalType: "uint256",
+            name: "latestRound",
+            type: "uint256",
           },
           {
-            "internalType": "address",
-            "name": "creator",
-            "type": "address"
+            internalType: "uint256",
+            name: "nextRoundAt",
+            type: "uint256",
           },
           {
-            "internalType": "uint256",
-            "name": "createdAt",
-            "type": "uint256"
-          }
+            internalType: "bool",
+            name: "ended",
+            type: "bool",
+          },
         ],
-        "internalType": "struct FHEPredictionMarket.PredictionSummary[]",
-        "name": "",
-        "type": "tuple[]"
-      }
+        internalType: "struct PredictionSeries.SeriesSummary[]",
+        name: "page",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "market",
+    outputs: [
+      {
+        internalType: "contract FHEPredictionMarket",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "seriesOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "round",
+        type: "uint256",
+      },
     ],
-    "stateMutability": "view",
-    "type": "function"
+    stateMutability: "view",
+    type: "function",
   },
   {
-    "inputs": [
+    inputs: [
       {
-        "internalType": "uint256",
-        "name": "predictionId",
-        "type": "uint256"
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
       },
       {
-        "internalType": "externalEuint8",
-        "name": "encryptedSelection",
-        "type": "bytes32"
+        internalType: "address",
+        name: "keeper",
+        type: "address",
       },
+    ],
+    name: "setKeeper",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
+    ],
+    name: "spawnRound",
+    outputs: [
       {
-        "internalType": "bytes",
-        "name": "inputProof",
-        "type": "bytes"
-      }
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
     ],
-    "name": "placeEncryptedBet",
-    "outputs": [],
-    "stateMutability": "payable",
-    "type": "function"
-  }
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ] as const;
@@ -0,0 +1,54 @@
+// Collateral types mirror FHEPredictionMarket.CollateralType
+export const COLLATERAL_NATIVE = 0;
+export const COLLATERAL_ERC20 = 1;
+export const COLLATERAL_CONFIDENTIAL = 2;
+
+export const COLLATERAL_LABELS = ["Native ETH", "ERC-20", "Confidential token (ERC-7984)"] as const;
+
+// Shared subset of the ERC-20 and ERC-7984 token interfaces used by the dashboard
+export const TOKEN_ABI = [
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [{ internalType: "string", name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [{ internalType: "uint8", name: "", type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "spender", type: "address" },
+      { internalType: "uint256", name: "amount", type: "uint256" },
+    ],
+    name: "approve",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "holder", type: "address" },
+      { internalType: "address", name: "spender", type: "address" },
+    ],
+    name: "isOperator",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "operator", type: "address" },
+      { internalType: "uint48", name: "until", type: "uint48" },
+    ],
+    name: "setOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
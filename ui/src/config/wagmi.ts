@@ -1,9 +1,10 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
 
 export const config = getDefaultConfig({
   appName: '',
   projectId: 'fhe-predictor-demo', // Replace with your WalletConnect project id in production
-  chains: [sepolia],
+  // `hardhat` targets a local `npm run chain` node, where encryption runs against the FHEVM mock.
+  chains: [sepolia, hardhat],
   ssr: false,
 });
@@ -0,0 +1,20 @@
+import { useChainId } from "wagmi";
+import { CONTRACT_ADDRESSES, DEPLOYMENT_BLOCKS, SERIES_ADDRESSES, ZERO_ADDRESS } from "../config/contracts";
+
+// Resolves the FHEPredictionMarket address of the connected chain, or the zero address when it has no deployment.
+export function useContractAddress(): `0x${string}` {
+  const chainId = useChainId();
+  return CONTRACT_ADDRESSES[chainId] ?? ZERO_ADDRESS;
+}
+
+// Resolves the PredictionSeries address of the connected chain, or the zero address when it has no deployment.
+export function useSeriesAddress(): `0x${string}` {
+  const chainId = useChainId();
+  return SERIES_ADDRESSES[chainId] ?? ZERO_ADDRESS;
+}
+
+// Resolves the block the FHEPredictionMarket of the connected chain was deployed in, where its event history starts.
+export function useDeploymentBlock(): bigint {
+  const chainId = useChainId();
+  return BigInt(DEPLOYMENT_BLOCKS[chainId] ?? 0);
+}
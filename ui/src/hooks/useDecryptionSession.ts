@@ -0,0 +1,35 @@
+import { useEffect, useMemo, useState } from "react";
+import type { JsonRpcSigner } from "ethers";
+import { createDecryptionSession } from "../../../sdk";
+import type { DecryptionSession, FhevmBackend } from "../../../sdk";
+import { useContractAddress } from "./useContractAddress";
+import { useEthersSigner } from "./useEthersSigner";
+
+// Decryption session of the connected wallet on the current market. The signed permission is kept in localStorage
+// until it expires, so the wallet is asked to sign once rather than on every decrypt.
+export function useDecryptionSession(backend: FhevmBackend | null): DecryptionSession | null {
+  const signerPromise = useEthersSigner();
+  const contractAddress = useContractAddress();
+  const [signer, setSigner] = useState<JsonRpcSigner | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    setSigner(null);
+    signerPromise?.then((resolved) => {
+      if (mounted) {
+        setSigner(resolved);
+      }
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [signerPromise]);
+
+  return useMemo(
+    () =>
+      signer && backend
+        ? createDecryptionSession({ backend, signer, contractAddress, storage: window.localStorage })
+        : null,
+    [signer, backend, contractAddress],
+  );
+}
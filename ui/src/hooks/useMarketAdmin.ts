@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, usePublicClient } from "wagmi";
+import { CONTRACT_ABI, ZERO_ADDRESS } from "../config/contracts";
+import { useContractAddress } from "./useContractAddress";
+
+export type MarketAdminState = {
+  owner: string;
+  pendingOwner: string;
+  paused: boolean;
+  protocolFeeBps: number;
+  feeRecipient: string;
+  /** Whether the connected account is the owner or an admin. */
+  isAdmin: boolean;
+};
+
+// Reads the roles and settings of the market. `refresh` re-reads them, e.g. after an admin action.
+export function useMarketAdmin() {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const contractAddress = useContractAddress();
+  const [state, setState] = useState<MarketAdminState | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!publicClient || contractAddress === ZERO_ADDRESS) {
+      setState(null);
+      return;
+    }
+    const contract = { address: contractAddress, abi: CONTRACT_ABI } as const;
+
+    try {
+      const [owner, pendingOwner, paused, [protocolFeeBps, feeRecipient], isAdmin] = await Promise.all([
+        publicClient.readContract({ ...contract, functionName: "owner" }),
+        publicClient.readContract({ ...contract, functionName: "pendingOwner" }),
+        publicClient.readContract({ ...contract, functionName: "paused" }),
+        publicClient.readContract({ ...contract, functionName: "getFeeConfig" }),
+        address ? publicClient.readContract({ ...contract, functionName: "isAdmin", args: [address] }) : false,
+      ]);
+      setState({
+        owner,
+        pendingOwner,
+        paused,
+        protocolFeeBps: Number(protocolFeeBps),
+        feeRecipient,
+        isAdmin,
+      });
+    } catch (error) {
+      console.error("Failed to read the market settings", error);
+      setState(null);
+    }
+  }, [publicClient, contractAddress, address]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { state, refresh };
+}
@@ -0,0 +1,26 @@
+import { useCallback } from "react";
+import { createPredictionMarketClient } from "../../../sdk";
+import type { DecryptionSession, FhevmBackend } from "../../../sdk";
+import { FHEPredictionMarket__factory } from "../../../types";
+import { useContractAddress } from "./useContractAddress";
+import { useEthersSigner } from "./useEthersSigner";
+
+// Builds the shared SDK client for the connected wallet. `backend` is the instance of `useZamaInstance`, which is only
+// needed to encrypt and decrypt, so callers own its loading and error states. Pass the `useDecryptionSession` session
+// to reuse the wallet's decryption permission across clients.
+export function usePredictionMarketClient(backend: FhevmBackend | null, session: DecryptionSession | null = null) {
+  const signerPromise = useEthersSigner();
+  const contractAddress = useContractAddress();
+
+  return useCallback(
+    async (onStatus?: (status: string) => void) => {
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error("Unable to locate wallet signer.");
+      }
+      const contract = FHEPredictionMarket__factory.connect(contractAddress, signer);
+      return createPredictionMarketClient({ contract, signer, backend, session, onStatus });
+    },
+    [signerPromise, contractAddress, backend, session],
+  );
+}
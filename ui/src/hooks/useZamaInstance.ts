@@ -1,7 +1,51 @@
 import { useState, useEffect } from 'react';
+import { useChainId } from 'wagmi';
+import { hardhat } from 'wagmi/chains';
+import { Contract, JsonRpcProvider } from 'ethers';
 import { createInstance,initSDK,SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
 
+type RelayerMetadata = {
+  chainId: number;
+  gatewayChainId: number;
+  ACLAddress: `0x${string}`;
+  InputVerifierAddress: `0x${string}`;
+  KMSVerifierAddress: `0x${string}`;
+};
+
+const EIP712_DOMAIN_ABI = [
+  'function eip712Domain() view returns (bytes1, string, string, uint256, address, bytes32, uint256[])',
+];
+
+// A local `npm run chain` node runs the FHEVM mock: it answers the relayer RPC methods itself, so the mock instance
+// encrypts and decrypts against the node instead of the Zama relayer.
+async function createMockInstance() {
+  const { MockFhevmInstance } = await import('@fhevm/mock-utils');
+  const provider = new JsonRpcProvider(hardhat.rpcUrls.default.http[0]);
+  const metadata: RelayerMetadata = await provider.send('fhevm_relayer_metadata', []);
+
+  const verifyingContract = async (address: string) => {
+    const domain = await new Contract(address, EIP712_DOMAIN_ABI, provider).eip712Domain();
+    return domain[4] as `0x${string}`;
+  };
+
+  return MockFhevmInstance.create(
+    provider,
+    provider,
+    {
+      aclContractAddress: metadata.ACLAddress,
+      chainId: metadata.chainId,
+      gatewayChainId: metadata.gatewayChainId,
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      verifyingContractAddressDecryption: await verifyingContract(metadata.KMSVerifierAddress),
+      verifyingContractAddressInputVerification: await verifyingContract(metadata.InputVerifierAddress),
+    },
+    { inputVerifierProperties: {}, kmsVerifierProperties: {} },
+  );
+}
+
 export function useZamaInstance() {
+  const chainId = useChainId();
   const [instance, setInstance] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -13,9 +57,15 @@ export function useZamaInstance() {
       try {
         setIsLoading(true);
         setError(null);
-        await initSDK()
+        setInstance(null);
 
-        const zamaInstance = await createInstance(SepoliaConfig);
+        let zamaInstance;
+        if (chainId === hardhat.id) {
+          zamaInstance = await createMockInstance();
+        } else {
+          await initSDK()
+          zamaInstance = await createInstance(SepoliaConfig);
+        }
 
         if (mounted) {
           setInstance(zamaInstance);
@@ -23,7 +73,11 @@ export function useZamaInstance() {
       } catch (err) {
         console.error('Failed to initialize Zama instance:', err);
         if (mounted) {
-          setError('Failed to initialize encryption service');
+          setError(
+            chainId === hardhat.id
+              ? 'Failed to reach the local FHEVM mock. Is `npm run chain` running?'
+              : 'Failed to initialize encryption service',
+          );
         }
       } finally {
         if (mounted) {
@@ -37,7 +91,7 @@ export function useZamaInstance() {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [chainId]);
 
   return { instance, isLoading, error };
-}
\ No newline at end of file
+}
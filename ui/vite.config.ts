@@ -4,4 +4,13 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The app imports the shared SDK and typechain bindings from the Hardhat project root
+  resolve: {
+    dedupe: ['ethers'],
+  },
+  server: {
+    fs: {
+      allow: ['..'],
+    },
+  },
 })